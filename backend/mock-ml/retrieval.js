@@ -0,0 +1,90 @@
+const { loadPdfjs } = require("../utils/pdfjs");
+
+// Passages are built from whole sentences up to roughly this many characters
+const MAX_PASSAGE_CHARS = 400;
+
+// Words too common to say anything about which passage answers a question
+const STOPWORDS = new Set([
+  "a", "an", "and", "are", "as", "at", "be", "by", "can", "do", "does", "for", "from", "how", "i", "if", "in",
+  "is", "it", "its", "of", "on", "or", "that", "the", "this", "to", "was", "what", "when", "where", "which",
+  "who", "why", "will", "with", "there", "any", "my", "me", "we", "you", "your", "under", "about"
+]);
+
+// Text of every page of a PDF, in page order
+async function extractPageTexts(buffer) {
+  const { getDocument } = loadPdfjs();
+  const pdf = await getDocument({ data: new Uint8Array(buffer), verbosity: 0, disableFontFace: true }).promise;
+  try {
+    const pages = [];
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      pages.push(content.items.map(item => (item.str || "") + (item.hasEOL ? "\n" : "")).join(""));
+    }
+    return pages;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Split page texts into passages of whole sentences: [{ text, page }]
+function toPassages(pageTexts) {
+  const passages = [];
+  pageTexts.forEach((pageText, index) => {
+    const sentences = pageText
+      .split(/\n\s*\n|(?<=[.!?])\s+/)
+      .map(sentence => sentence.replace(/\s+/g, " ").trim())
+      .filter(Boolean);
+
+    let current = "";
+    sentences.forEach(sentence => {
+      if (current && current.length + sentence.length + 1 > MAX_PASSAGE_CHARS) {
+        passages.push({ text: current, page: index + 1 });
+        current = "";
+      }
+      current = current ? `${current} ${sentence}` : sentence;
+    });
+    if (current) {
+      passages.push({ text: current, page: index + 1 });
+    }
+  });
+  return passages;
+}
+
+// Lower-cased keywords of a text, without stopwords and with a plural "s" removed
+function keywords(text) {
+  return (text.toLowerCase().match(/[a-z0-9]+/g) || [])
+    .filter(word => !STOPWORDS.has(word))
+    .map(word => (word.length > 3 && word.endsWith("s") && !word.endsWith("ss") ? word.slice(0, -1) : word));
+}
+
+/**
+ * Rank passages by the keywords they share with the question, weighting rare
+ * keywords higher (IDF). Scores are between 0 and 1 (the share of the
+ * question's weight a passage matches); ties keep document order, so the same
+ * question always gets the same answer. Returns [{ text, page, score }].
+ */
+function searchPassages(passages, question, limit = 3) {
+  const terms = [...new Set(keywords(question))];
+  if (terms.length === 0 || passages.length === 0) {
+    return [];
+  }
+
+  const passageTerms = passages.map(passage => new Set(keywords(passage.text)));
+  const weights = terms.map(term => {
+    const documentFrequency = passageTerms.filter(words => words.has(term)).length;
+    return Math.log(1 + passages.length / (documentFrequency || 1));
+  });
+  const totalWeight = weights.reduce((sum, weight) => sum + weight, 0);
+
+  return passages
+    .map((passage, index) => {
+      const matched = terms.reduce((sum, term, termIndex) => sum + (passageTerms[index].has(term) ? weights[termIndex] : 0), 0);
+      return { ...passage, score: Math.round((matched / totalWeight) * 1000) / 1000 };
+    })
+    .filter(passage => passage.score > 0)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit);
+}
+
+module.exports = { extractPageTexts, toPassages, searchPassages };
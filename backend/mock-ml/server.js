@@ -0,0 +1,148 @@
+/**
+ * Local stand-in for the ML API, for offline development and the integration
+ * tests. It implements /health, /hackrx/upload, /hackrx/query, /hackrx/run and
+ * DELETE /hackrx/documents/:pdf_id with real PDF text extraction and keyword
+ * retrieval, so the same question about the same PDF always gets the same
+ * answer. Indexes live in memory and are lost on restart.
+ *
+ *   npm run mock-ml                      # http://localhost:8000
+ *   ML_API_URL=http://localhost:8000 npm run dev
+ *
+ * Latency and failures can be injected with the options below (or the
+ * MOCK_ML_* environment variables, see configFromEnv).
+ */
+const crypto = require("crypto");
+const express = require("express");
+const multer = require("multer");
+const { extractPageTexts, toPassages, searchPassages } = require("./retrieval");
+
+const NO_ANSWER = "No relevant passage was found in the document.";
+
+/**
+ * Create the mock ML API as an Express app.
+ *
+ * - latencyMs: delay before every response
+ * - failureRate: share of requests (0-1) that fail
+ * - failureMode: "error" answers failureStatus, "malformed" answers 200 with a
+ *   body that does not match the ML API contract, "disconnect" drops the connection
+ * - failRoutes: path prefixes that can fail (default: everything except /health)
+ * - topK: number of passages returned as sources
+ */
+function createMockMLServer({
+  latencyMs = 0,
+  failureRate = 0,
+  failureStatus = 503,
+  failureMode = "error",
+  failRoutes = [],
+  topK = 3,
+  random = Math.random
+} = {}) {
+  const app = express();
+  const upload = multer({ storage: multer.memoryStorage() });
+  const documents = new Map(); // pdf_id -> { filename, pages, passages }
+
+  const canFail = req => (failRoutes.length > 0
+    ? failRoutes.some(route => req.path.startsWith(route))
+    : req.path !== "/health");
+
+  app.use((req, res, next) => {
+    setTimeout(() => {
+      if (failureRate <= 0 || !canFail(req) || random() >= failureRate) {
+        return next();
+      }
+      if (failureMode === "disconnect") {
+        return req.socket.destroy();
+      }
+      if (failureMode === "malformed") {
+        return res.json({ unexpected: "reply" });
+      }
+      res.status(failureStatus).json({ error: `Injected failure for ${req.method} ${req.path}` });
+    }, latencyMs);
+  });
+
+  app.get("/health", (req, res) => {
+    res.json({ status: "ok", documents: documents.size });
+  });
+
+  app.post("/hackrx/upload", upload.single("file"), async (req, res) => {
+    if (!req.file) {
+      return res.status(400).json({ error: "No file uploaded" });
+    }
+
+    try {
+      const pages = await extractPageTexts(req.file.buffer);
+      const pdf_id = "mock-" + crypto.createHash("sha256").update(req.file.buffer).digest("hex").slice(0, 16);
+      const passages = toPassages(pages);
+
+      documents.set(pdf_id, { filename: req.file.originalname, pages: pages.length, passages });
+      res.json({ pdf_id, pages: pages.length, passages: passages.length });
+    } catch (error) {
+      res.status(422).json({ error: `Could not read PDF: ${error.message}` });
+    }
+  });
+
+  app.post("/hackrx/query", upload.none(), (req, res) => {
+    const { pdf_id, question } = req.body || {};
+    if (!pdf_id || !question) {
+      return res.status(400).json({ error: "pdf_id and question are required" });
+    }
+
+    const document = documents.get(pdf_id);
+    if (!document) {
+      return res.status(404).json({ error: `Unknown pdf_id '${pdf_id}'` });
+    }
+
+    const sources = searchPassages(document.passages, question, topK);
+    res.json({ answer: { answer: sources.length > 0 ? sources[0].text : NO_ANSWER, sources } });
+  });
+
+  app.post("/hackrx/run", upload.single("file"), async (req, res) => {
+    const questions = [].concat(req.body?.questions || []).filter(Boolean);
+    if (!req.file || questions.length === 0) {
+      return res.status(400).json({ error: "A file and at least one question are required" });
+    }
+
+    try {
+      const passages = toPassages(await extractPageTexts(req.file.buffer));
+      const answers = questions.map(question => {
+        const [best] = searchPassages(passages, question, 1);
+        return best ? best.text : NO_ANSWER;
+      });
+      res.json({ answers });
+    } catch (error) {
+      res.status(422).json({ error: `Could not read PDF: ${error.message}` });
+    }
+  });
+
+  app.delete("/hackrx/documents/:pdf_id", (req, res) => {
+    if (!documents.delete(req.params.pdf_id)) {
+      return res.status(404).json({ error: `Unknown pdf_id '${req.params.pdf_id}'` });
+    }
+    res.json({ deleted: true });
+  });
+
+  return app;
+}
+
+// Options from MOCK_ML_* environment variables
+function configFromEnv(env = process.env) {
+  return {
+    latencyMs: Number(env.MOCK_ML_LATENCY_MS || 0),
+    failureRate: Number(env.MOCK_ML_FAILURE_RATE || 0),
+    failureStatus: Number(env.MOCK_ML_FAILURE_STATUS || 503),
+    failureMode: env.MOCK_ML_FAILURE_MODE || "error",
+    failRoutes: (env.MOCK_ML_FAIL_ROUTES || "").split(",").map(route => route.trim()).filter(Boolean),
+    topK: Number(env.MOCK_ML_TOP_K || 3)
+  };
+}
+
+if (require.main === module) {
+  const port = Number(process.env.MOCK_ML_PORT || 8000);
+  const config = configFromEnv();
+  createMockMLServer(config).listen(port, () => {
+    console.log(`🧪 Mock ML API running on http://localhost:${port}`);
+    console.log(`   latency ${config.latencyMs}ms, failure rate ${config.failureRate} (${config.failureMode})`);
+  });
+}
+
+module.exports = { createMockMLServer, configFromEnv };
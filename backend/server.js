@@ -6,23 +6,204 @@ const fs = require('fs');
 const axios = require('axios');
 const FormData = require('form-data');
 const fetch = require('node-fetch');
-const keepAlive = require("./utils/keepalive");
+const hashFile = require("./utils/fileHash");
+const { createDocumentRegistry, createJsonFileStore } = require("./utils/documentRegistry");
+const { createMLClient } = require("./utils/mlClient");
+const { logger, requestLogger, getRequestId } = require("./utils/logger");
+const { SUPPORTED_FORMATS, findFormat, convertToPDF } = require("./utils/documentConverter");
+const { isImageOnlyPDF, ocrToSearchablePDF } = require("./utils/ocr");
+const { createChatProvider } = require("./utils/chatProviders");
+const { createChatHistoryStore } = require("./utils/chatHistory");
+const { routeChatMessage } = require("./utils/chatRouter");
+const { createQuestionRewriter } = require("./utils/followUps");
+const { loadChecklist, reviewDocument } = require("./utils/legalReview");
+const { compareAnswers } = require("./utils/compare");
+const { mapWithConcurrency } = require("./utils/concurrency");
+const { writeTranscriptPdf } = require("./utils/transcriptPdf");
+const { createUserStore, toPublicUser } = require("./utils/userStore");
+const { createAuth } = require("./utils/auth");
+const { createLimiter, rateLimit, formatWait } = require("./utils/rateLimit");
+const { validateBody, parseUpstreamReply, sendError, errorEvent } = require("./utils/validation");
+const {
+  ANALYSIS_ROUTES,
+  ANALYSIS_FIELDS,
+  ANALYSIS_LIMITS,
+  registerRequestSchema,
+  loginRequestSchema,
+  refreshRequestSchema,
+  queryRequestSchema,
+  queryStreamRequestSchema,
+  reviewRequestSchema,
+  compareRequestSchema,
+  chatRequestSchema,
+  transcriptSchema,
+  processTextRequestSchema,
+  processFileQuestionRequestSchema,
+  analyzeDocumentRequestSchema,
+  mlUploadReplySchema,
+  mlQueryReplySchema,
+  mlRunReplySchema
+} = require("@legalease/contract");
 require('dotenv').config();
 
 const app = express();
 const PORT = process.env.PORT || 5000;
 
-// In-memory cache for storing indexed PDFs
-const pdfCache = new Map();
+// Persistent registry of indexed PDFs (Map-like API), reloaded at startup
+const DOCUMENT_REGISTRY_PATH = process.env.DOCUMENT_REGISTRY_PATH || './data/documents.json';
+const DOCUMENT_TTL_HOURS = Number(process.env.DOCUMENT_TTL_HOURS ?? 168); // 0 keeps documents forever
+const DOCUMENT_CLEANUP_INTERVAL_MINUTES = Number(process.env.DOCUMENT_CLEANUP_INTERVAL_MINUTES || 60);
+
+const pdfCache = createDocumentRegistry({
+  store: createJsonFileStore(DOCUMENT_REGISTRY_PATH),
+  ttlMs: DOCUMENT_TTL_HOURS * 60 * 60 * 1000
+});
+
+// User accounts and JWT authentication; documents and conversations belong to the user who created them
+const USER_STORE_PATH = process.env.USER_STORE_PATH || './data/users.json';
+const AUTH_ALLOW_REGISTRATION = process.env.AUTH_ALLOW_REGISTRATION !== 'false';
+
+const users = createUserStore({ store: createJsonFileStore(USER_STORE_PATH, 'users') });
+const auth = createAuth({
+  users,
+  secret: process.env.JWT_SECRET,
+  accessTokenTtlSeconds: Number(process.env.AUTH_ACCESS_TOKEN_TTL_SECONDS || 900),
+  refreshTokenTtlSeconds: Number(process.env.AUTH_REFRESH_TOKEN_TTL_SECONDS || 7 * 24 * 3600)
+});
+
+// General chat: pluggable provider plus server-side history per conversation_id
+const chatProvider = createChatProvider({
+  provider: process.env.CHAT_PROVIDER, // "llm" or "echo"; defaults to llm when CHAT_LLM_URL is set
+  llmUrl: process.env.CHAT_LLM_URL,
+  apiKey: process.env.CHAT_LLM_API_KEY,
+  model: process.env.CHAT_LLM_MODEL,
+  timeoutMs: Number(process.env.CHAT_LLM_TIMEOUT_MS || 60000)
+});
+const CHAT_SYSTEM_PROMPT = process.env.CHAT_SYSTEM_PROMPT ||
+  'You are LegalEase, an assistant that helps people understand legal and insurance documents. Answer clearly and concisely.';
+const CHAT_HISTORY_TTL_MINUTES = Number(process.env.CHAT_HISTORY_TTL_MINUTES ?? 1440); // 0 keeps history forever
+const chatHistory = createChatHistoryStore({
+  maxMessages: Number(process.env.CHAT_HISTORY_MAX_MESSAGES || 20),
+  ttlMs: CHAT_HISTORY_TTL_MINUTES * 60 * 1000
+});
+
+// Document QA follow-ups: the last N question/answer turns are kept per conversation and PDF.
+// Follow-ups are rewritten into standalone questions unless the ML API accepts a `history` field.
+const DOCUMENT_QA_HISTORY_TURNS = Number(process.env.DOCUMENT_QA_HISTORY_TURNS || 5);
+const ML_QUERY_HISTORY = process.env.ML_QUERY_HISTORY === 'true';
+const documentQAHistory = createChatHistoryStore({
+  maxMessages: DOCUMENT_QA_HISTORY_TURNS,
+  ttlMs: CHAT_HISTORY_TTL_MINUTES * 60 * 1000
+});
+const questionRewriter = createQuestionRewriter({
+  llmProvider: chatProvider.name === 'llm' ? chatProvider : null
+});
+
+// Legal review checklist, re-read on every review so edits apply without a restart
+const LEGAL_CHECKLIST_PATH = process.env.LEGAL_CHECKLIST_PATH || './config/legal-checklist.json';
+
+// Compare mode: questions per request and how many run at once (each asks both documents)
+const COMPARE_MAX_QUESTIONS = Number(process.env.COMPARE_MAX_QUESTIONS || 20);
+const COMPARE_CONCURRENCY = Number(process.env.COMPARE_CONCURRENCY || 2);
+
+// Rate limits and daily quotas for routes that call the paid ML API (0 disables a limit).
+// Counters live in memory, so they start over when the server restarts.
+const RATE_LIMIT_WINDOW_SECONDS = Number(process.env.RATE_LIMIT_WINDOW_SECONDS || 60);
+const RATE_LIMIT_PER_IP = Number(process.env.RATE_LIMIT_PER_IP ?? 60); // Requests per window
+const RATE_LIMIT_PER_USER = Number(process.env.RATE_LIMIT_PER_USER ?? 30);
+const DAILY_UPLOAD_QUOTA = Number(process.env.DAILY_UPLOAD_QUOTA ?? 20); // Uploads per user per UTC day
+const DAILY_QUESTION_QUOTA = Number(process.env.DAILY_QUESTION_QUOTA ?? 300); // Questions sent to the ML API per user per UTC day
+
+const requestLimiters = [
+  createLimiter({
+    name: 'ip',
+    max: RATE_LIMIT_PER_IP,
+    windowMs: RATE_LIMIT_WINDOW_SECONDS * 1000,
+    key: req => req.ip,
+    message: seconds => `Too many requests from your network. Please wait ${formatWait(seconds)} and try again.`
+  }),
+  createLimiter({
+    name: 'user',
+    max: RATE_LIMIT_PER_USER,
+    windowMs: RATE_LIMIT_WINDOW_SECONDS * 1000,
+    key: req => req.user?.id,
+    message: seconds => `You are sending requests too quickly. Please wait ${formatWait(seconds)} and try again.`
+  })
+];
+const uploadQuota = createLimiter({
+  name: 'daily-uploads',
+  max: DAILY_UPLOAD_QUOTA,
+  daily: true,
+  key: req => req.user?.id,
+  message: seconds => `You have reached your daily limit of ${DAILY_UPLOAD_QUOTA} uploads. It resets in ${formatWait(seconds)}.`
+});
+const questionQuota = createLimiter({
+  name: 'daily-questions',
+  max: DAILY_QUESTION_QUOTA,
+  daily: true,
+  key: req => req.user?.id,
+  weighted: true,
+  message: seconds => `You have reached your daily limit of ${DAILY_QUESTION_QUOTA} questions. It resets in ${formatWait(seconds)}.`,
+  oversizeMessage: amount => `This request would ask ${amount} questions, more than your daily limit of ${DAILY_QUESTION_QUOTA}. Ask fewer at once.`
+});
+const limitUploads = rateLimit([...requestLimiters, uploadQuota]);
+// `weight(req)` is the number of questions the request sends to the ML API (1 by default)
+const limitQuestions = weight => rateLimit([...requestLimiters, questionQuota], weight);
+
+// Ad-hoc analysis (/api/upload, /api/process-text, /api/process-file-question, /api/analyze-document):
+// documents go to the ML API's one-shot endpoint together with the questions instead of being indexed.
+// Files stored through /api/upload can be referenced by file_id until they expire.
+const ML_ANALYZE_PATH = process.env.ML_ANALYZE_PATH || '/hackrx/run';
+const ANALYSIS_FILE_TTL_MINUTES = Number(process.env.ANALYSIS_FILE_TTL_MINUTES || 60);
+const ANALYSIS_DEFAULT_QUESTION = 'Summarize the key points of this text.';
+const analysisFiles = new Map(); // file_id -> { fileInfo, original, owner, expiresAt }
+
+// ML API client: per-operation timeouts, retries for idempotent calls (upload, query, delete) on
+// transient failures, and a circuit breaker that fails calls fast while the ML API is down.
+// Its health comes from the keepalive pings, reported by GET /api/health.
+const ML_HEALTH_INTERVAL_SECONDS = Number(process.env.ML_HEALTH_INTERVAL_SECONDS || 600); // Keeps a sleeping host awake
+const ML_HEALTH_RETRY_SECONDS = Number(process.env.ML_HEALTH_RETRY_SECONDS || 15); // While the ML API is not healthy
+
+const mlClient = createMLClient({
+  baseUrl: () => process.env.ML_API_URL,
+  timeouts: {
+    health: Number(process.env.ML_HEALTH_TIMEOUT_MS || 10000),
+    upload: Number(process.env.ML_UPLOAD_TIMEOUT_MS || 120000),
+    query: Number(process.env.ML_QUERY_TIMEOUT_MS || 60000),
+    stream: Number(process.env.ML_QUERY_TIMEOUT_MS || 60000),
+    delete: Number(process.env.ML_DELETE_TIMEOUT_MS || 30000),
+    analyze: Number(process.env.ML_ANALYZE_TIMEOUT_MS || 60000)
+  },
+  retries: Number(process.env.ML_RETRIES ?? 2),
+  baseDelayMs: Number(process.env.ML_RETRY_BASE_DELAY_MS || 2000),
+  failureThreshold: Number(process.env.ML_CIRCUIT_FAILURE_THRESHOLD || 5),
+  cooldownMs: Number(process.env.ML_CIRCUIT_COOLDOWN_SECONDS || 30) * 1000,
+  warmupMs: Number(process.env.ML_WARMUP_SECONDS || 120) * 1000, // Failing pings count as "warming up" for this long
+  // The id of the request being handled is passed on, so ML API logs can be matched to ours
+  headers: () => {
+    const requestId = getRequestId();
+    return requestId ? { 'X-Request-Id': requestId } : {};
+  },
+  onRetry: (operation, error, attempt, delayMs) => {
+    logger.warn('ML API call failed, retrying', { operation, attempt, delay_ms: delayMs, reason: error.response?.status || error.code || error.message });
+  }
+});
+
+// Number of reverse proxies in front of the server, so req.ip (used for per-IP limits) is the client's address
+app.set('trust proxy', Number(process.env.TRUST_PROXY || 0));
+
+// Correlation id (X-Request-Id) and a structured log line for every request
+app.use(requestLogger());
 
 // Middleware
 app.use(cors({
   origin: ['http://localhost:3000', 'http://127.0.0.1:3000', process.env.FRONTEND_URL],
   credentials: true,
   methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'Accept']
+  allowedHeaders: ['Content-Type', 'Authorization', 'Accept', 'X-Request-Id'],
+  exposedHeaders: ['Retry-After', 'X-Request-Id']
 }));
-app.use(express.json());
+app.use(express.json({ limit: process.env.JSON_BODY_LIMIT || '2mb' })); // Transcripts can exceed the 100kb default
 app.use(express.urlencoded({ extended: true }));
 
 // Add preflight handling for CORS
@@ -30,21 +211,15 @@ app.use((req, res, next) => {
   if (req.method === 'OPTIONS') {
     res.header('Access-Control-Allow-Origin', req.headers.origin || '*');
     res.header('Access-Control-Allow-Methods', 'GET, POST, PUT, DELETE, OPTIONS');
-    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept');
+    res.header('Access-Control-Allow-Headers', 'Content-Type, Authorization, Accept, X-Request-Id');
     res.header('Access-Control-Allow-Credentials', 'true');
     return res.status(200).end();
   }
   next();
 });
 
-// Request logging middleware for debugging
-app.use((req, res, next) => {
-  console.log(`${new Date().toISOString()} - ${req.method} ${req.path}`);
-  console.log('Origin:', req.headers.origin);
-  console.log('User-Agent:', req.headers['user-agent']);
-  console.log('Content-Type:', req.headers['content-type']);
-  next();
-});
+// Everything that touches documents or conversations requires a logged-in user
+app.use(['/hackrx', '/api/chat', '/api/transcript', ...Object.values(ANALYSIS_ROUTES)], auth.requireAuth);
 
 // Create uploads directory if it doesn't exist
 const uploadDir = './uploads';
@@ -53,6 +228,7 @@ if (!fs.existsSync(uploadDir)) {
 }
 
 // Configure multer for file uploads
+const MAX_UPLOAD_SIZE = 10 * 1024 * 1024; // 10MB limit
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
     cb(null, uploadDir);
@@ -66,28 +242,27 @@ const storage = multer.diskStorage({
 const upload = multer({ 
   storage: storage,
   limits: {
-    fileSize: 10 * 1024 * 1024, // 10MB limit
+    fileSize: MAX_UPLOAD_SIZE
   },
   fileFilter: (req, file, cb) => {
-    // Allow common file types
-    const allowedTypes = /jpeg|jpg|png|gif|pdf|txt|doc|docx|xls|xlsx|ppt|pptx/;
-    const extname = allowedTypes.test(path.extname(file.originalname).toLowerCase());
-    // For text files, we need to also accept text/plain mimetype
-    const mimetype = allowedTypes.test(file.mimetype) || file.mimetype === 'text/plain';
-    
-    if (mimetype && extname) {
+    // Only accept formats the upload route can index (see utils/documentConverter)
+    if (findFormat(file.originalname)) {
       return cb(null, true);
-    } else {
-      cb(new Error('Invalid file type'));
     }
+    req.unsupportedFileType = path.extname(file.originalname).toLowerCase() || file.mimetype;
+    cb(null, false);
   }
 });
 
+const supportedExtensions = () => SUPPORTED_FORMATS.map(format => format.extension).join(', ');
+
 // Routes
 
-// Health check
-app.get('/api/health', (req, res) => {
-  res.json({ status: 'OK', message: 'Server is running' });
+// Health check, including the ML API's state from the last keepalive ping
+app.get('/api/health', async (req, res) => {
+  // Until the first ping has finished (right after a start) check once instead of answering "unknown"
+  const ml = mlClient.getHealth().checked_at ? mlClient.getHealth() : await mlClient.checkHealth();
+  res.json({ status: 'OK', message: 'Server is running', ml });
 });
 
 app.get("/ping", (req, res) => {
@@ -104,11 +279,43 @@ app.get('/api', (req, res) => {
     version: '1.0.0',
     description: 'Backend API for integrating with ML services',
     endpoints: {
-      'GET /api/health': 'Health check endpoint',
+      'GET /api/health': 'Health check endpoint; `ml` reports the ML API status (ok, warming_up, unavailable), latency and circuit breaker state',
       'GET /api': 'This endpoint - API documentation',
+      'POST /api/auth/register': 'Create an account ({ username, password }) and receive tokens',
+      'POST /api/auth/login': 'Log in ({ username, password }) and receive an access and a refresh token',
+      'POST /api/auth/refresh': 'Exchange a refresh token for new tokens',
+      'POST /api/auth/logout': 'Revoke the refresh tokens of the current user',
+      'GET /api/auth/me': 'The logged-in user',
       'POST /hackrx/upload': 'Upload PDF and create embeddings/index (returns pdf_id)',
-      'POST /hackrx/query': 'Query PDF using pdf_id and question',
-      'POST /api/chat': 'General chat/conversation endpoint (legacy)'
+      'GET /hackrx/upload/formats': 'List the upload formats the server accepts (non-PDF formats are converted to PDF)',
+      'GET /hackrx/upload/lookup/:hash': 'Find an already indexed PDF by SHA-256 content hash',
+      'GET /hackrx/documents': 'List indexed PDFs',
+      'GET /hackrx/documents/:pdf_id': 'Inspect an indexed PDF (metadata, indexedAt, original filename, size)',
+      'DELETE /hackrx/documents/:pdf_id': 'Delete an indexed PDF, its stored file and the ML index when supported',
+      'GET /hackrx/documents/:pdf_id/file': 'Download the original uploaded PDF (used by the viewer)',
+      'POST /hackrx/query': 'Query one or more PDFs using pdf_id(s) and question',
+      'POST /hackrx/query/stream': 'Query a PDF and stream the answer as Server-Sent Events',
+      'GET /hackrx/review/checklist': 'The legal review checklist (clauses, questions and risk rules)',
+      'POST /hackrx/review': 'Run the legal review checklist against a PDF and return a found/missing report with risk flags',
+      'POST /hackrx/compare': 'Ask two PDFs the same questions and return the answers side by side with differences flagged',
+      'POST /api/chat': 'Chat with server-side history; routes document questions to document QA when pdf_ids are sent',
+      'POST /api/chat/stream': 'Same as /api/chat, streaming the reply as Server-Sent Events',
+      'GET /api/chat/:conversation_id/history': 'Recorded turns of a conversation, including rewritten standalone questions',
+      'POST /api/transcript/pdf': 'Render a conversation transcript ({ title, exported_at, documents, messages }) as a PDF download',
+      [`POST ${ANALYSIS_ROUTES.upload}`]: 'Store a document for ad-hoc analysis and receive a file_id (expires after a while)',
+      [`POST ${ANALYSIS_ROUTES.processText}`]: 'Analyze pasted text ({ text, question? }) without uploading a file',
+      [`POST ${ANALYSIS_ROUTES.processFileQuestion}`]: 'Ask one question about a file (or file_id) in a single request',
+      [`POST ${ANALYSIS_ROUTES.analyzeDocument}`]: `Ask up to ${ANALYSIS_LIMITS.maxQuestions} questions about a file (or file_id) in a single request`
+    },
+    errors: 'Errors are { error } with a 4xx/5xx status. Invalid request bodies get 400 with code "invalid_request" and issues [{ path, message }] (see the @legalease/contract schemas); failed or unexpected ML API replies get 502 with code "upstream_error"; while the ML API is down (circuit breaker open) calls get 503 with code "ml_unavailable" and a Retry-After header',
+    authentication: 'Routes under /hackrx, /api/chat, /api/transcript and the analysis routes require "Authorization: Bearer <access_token>" and only see the caller\'s own documents and conversations',
+    rate_limits: {
+      description: 'Uploads, queries, reviews, comparisons, analyses and chat messages are rate limited; over a limit the API answers 429 with a Retry-After header (seconds) and { error, code: "rate_limited", limit, retry_after }',
+      window_seconds: RATE_LIMIT_WINDOW_SECONDS,
+      requests_per_ip: RATE_LIMIT_PER_IP,
+      requests_per_user: RATE_LIMIT_PER_USER,
+      uploads_per_day: DAILY_UPLOAD_QUOTA,
+      questions_per_day: DAILY_QUESTION_QUOTA
     },
     ml_api: {
       endpoint: process.env.ML_API_URL,
@@ -121,11 +328,13 @@ app.get('/api', (req, res) => {
         description: 'Upload PDF, create embeddings and BM25 index, store in cache',
         content_type: 'multipart/form-data',
         parameters: {
-          file: 'PDF file to upload and index (REQUIRED)'
+          file: `Document to upload and index (REQUIRED): ${supportedExtensions()}. Non-PDF files are converted to PDF first`
         },
         response: {
           pdf_id: 'Unique identifier for the uploaded PDF',
-          message: 'Success message'
+          message: 'Success message',
+          reused: 'true when identical content was already indexed and its pdf_id is returned',
+          ocr: '{ applied, average_confidence, pages: [{ page, confidence, characters }] } (only when the upload was an image or a scanned PDF)'
         },
         example: {
           curl: `curl -X POST -F "file=@policy.pdf" ${req.protocol}://${req.get('host')}/hackrx/upload`
@@ -134,38 +343,249 @@ app.get('/api', (req, res) => {
       'hackrx-query': {
         method: 'POST',
         url: '/hackrx/query',
-        description: 'Query uploaded PDF using pdf_id and natural language question',
+        description: 'Query uploaded PDF(s) using pdf_id and natural language question',
         content_type: 'multipart/form-data',
         parameters: {
-          pdf_id: 'PDF identifier from upload response (REQUIRED)',
-          question: 'Natural language question (REQUIRED)'
+          pdf_id: 'PDF identifier from upload response (REQUIRED, repeat the field to query several PDFs)',
+          question: 'Natural language question (REQUIRED)',
+          conversation_id: 'Conversation the question belongs to (optional); follow-ups are resolved against its earlier turns'
         },
         response: {
           answer: {
-            answer: 'Generated answer based on PDF content'
-          }
+            answer: 'Generated answer based on PDF content',
+            sources: 'Source passages [{ text, page, score, pdf_id, filename }] (when the ML API provides them)',
+            standalone_question: 'The rewritten question actually sent to the ML API (only when a follow-up was rewritten)'
+          },
+          answers: 'Per-document answers [{ pdf_id, filename, answer, sources, standalone_question | error }] (only when several pdf_id values are sent)'
         },
         example: {
           curl: `curl -X POST -F "pdf_id=policy123.pdf" -F "question=What is the waiting period for pre-existing diseases?" ${req.protocol}://${req.get('host')}/hackrx/query`
         }
       },
+      'hackrx-query-stream': {
+        method: 'POST',
+        url: '/hackrx/query/stream',
+        description: 'Query an uploaded PDF and receive the answer incrementally as Server-Sent Events',
+        content_type: 'multipart/form-data',
+        parameters: {
+          pdf_id: 'PDF identifier from upload response (REQUIRED)',
+          question: 'Natural language question (REQUIRED)'
+        },
+        response: {
+          'event: token': '{ token } - next piece of the answer',
+          'event: done': '{ answer, sources } - the complete answer and its source passages',
+          'event: error': '{ error, code?, retry_after?, status } - the query failed'
+        },
+        example: {
+          curl: `curl -N -X POST -F "pdf_id=policy123.pdf" -F "question=What is the waiting period?" ${req.protocol}://${req.get('host')}/hackrx/query/stream`
+        }
+      },
+      'hackrx-review': {
+        method: 'POST',
+        url: '/hackrx/review',
+        description: 'Run the legal review checklist against an uploaded PDF',
+        content_type: 'multipart/form-data or application/json',
+        parameters: {
+          pdf_id: 'PDF identifier from upload response (REQUIRED)'
+        },
+        response: {
+          pdf_id: 'Reviewed PDF identifier',
+          filename: 'Original filename',
+          checklist_version: 'Version of the checklist used',
+          generated_at: 'When the review ran',
+          summary: '{ found, missing, errors, overall_risk }',
+          clauses: '[{ id, title, question, status: "found" | "missing" | "error", text, sources, risk: "low" | "medium" | "high", risk_reasons, error }]'
+        },
+        example: {
+          curl: `curl -X POST -F "pdf_id=policy123.pdf" ${req.protocol}://${req.get('host')}/hackrx/review`
+        }
+      },
+      'hackrx-compare': {
+        method: 'POST',
+        url: '/hackrx/compare',
+        description: 'Ask two uploaded PDFs (e.g. an old and a new policy version) the same questions',
+        content_type: 'application/json or multipart/form-data',
+        parameters: {
+          pdf_ids: 'Exactly two PDF identifiers (REQUIRED; or repeat pdf_id in form data)',
+          questions: `Questions to ask both PDFs (REQUIRED, at most ${COMPARE_MAX_QUESTIONS}; or repeat question in form data)`
+        },
+        response: {
+          documents: '[{ pdf_id, filename }] in the order sent',
+          comparisons: '[{ question, answers: [{ answer, sources } | { error }] (one per document), identical, similarity }]',
+          summary: '{ questions, differing, errors }'
+        },
+        example: {
+          curl: `curl -X POST -H "Content-Type: application/json" -d '{"pdf_ids":["policy-2024.pdf","policy-2025.pdf"],"questions":["What is the waiting period?"]}' ${req.protocol}://${req.get('host')}/hackrx/compare`
+        }
+      },
+      'hackrx-documents': {
+        method: 'GET',
+        url: '/hackrx/documents',
+        description: 'List indexed PDFs, most recently indexed first',
+        response: {
+          count: 'Number of indexed PDFs',
+          documents: '[{ pdf_id, filename, mimetype, size, content_hash, indexedAt, expiresAt, file_available }]'
+        },
+        example: {
+          curl: `curl ${req.protocol}://${req.get('host')}/hackrx/documents`
+        }
+      },
+      'hackrx-document': {
+        method: 'GET',
+        url: '/hackrx/documents/:pdf_id',
+        description: 'Inspect an indexed PDF',
+        response: {
+          pdf_id: 'PDF identifier',
+          filename: 'Original filename',
+          size: 'File size in bytes',
+          indexedAt: 'When the PDF was indexed',
+          expiresAt: 'When the PDF expires from the registry (null if never)',
+          ml_api_response: 'Response returned by the ML API when indexing'
+        },
+        example: {
+          curl: `curl ${req.protocol}://${req.get('host')}/hackrx/documents/policy123.pdf`
+        }
+      },
+      'hackrx-document-delete': {
+        method: 'DELETE',
+        url: '/hackrx/documents/:pdf_id',
+        description: 'Delete an indexed PDF and its stored file; also drops the ML index when the ML API supports it',
+        response: {
+          pdf_id: 'Deleted PDF identifier',
+          message: 'Success message',
+          ml_index_deleted: 'Whether the ML API dropped its index'
+        },
+        example: {
+          curl: `curl -X DELETE ${req.protocol}://${req.get('host')}/hackrx/documents/policy123.pdf`
+        }
+      },
+      'api-chat': {
+        method: 'POST',
+        url: '/api/chat',
+        description: 'Chat with history kept per conversation_id. With pdf_ids, document questions go to document QA and small talk to the chat provider',
+        content_type: 'application/json',
+        parameters: {
+          message: 'User message (REQUIRED)',
+          conversation_id: 'Conversation to continue (optional, a new one is created otherwise)',
+          pdf_ids: 'Active document ids (optional)'
+        },
+        response: {
+          response: 'Reply text',
+          route: '"chat" or "document"',
+          provider: 'Chat provider name, or "document-qa"',
+          sources: 'Source passages (document route only)',
+          answers: 'Per-document answers (document route with several pdf_ids)',
+          conversation_id: 'Conversation identifier to send with the next message'
+        },
+        example: {
+          curl: `curl -X POST -H "Content-Type: application/json" -d '{"message":"What is the waiting period?","pdf_ids":["policy123.pdf"]}' ${req.protocol}://${req.get('host')}/api/chat`
+        }
+      },
+    }
+  });
+});
+
+// Auth endpoints - Register, log in and refresh tokens
+app.post('/api/auth/register', validateBody(registerRequestSchema), async (req, res) => {
+  try {
+    if (!AUTH_ALLOW_REGISTRATION) {
+      return res.status(403).json({ error: 'Registration is disabled' });
+    }
+    
+    const { username, password } = req.body;
+    if (users.findByUsername(username)) {
+      return res.status(409).json({ error: `Username "${username}" is already taken` });
+    }
+    
+    const user = await users.create(username, password);
+    logger.info('User registered', { user_id: user.id, username: user.username });
+    
+    res.status(201).json({ user: toPublicUser(user), ...auth.issueTokens(user) });
+  } catch (error) {
+    if (error.code === 'username_taken') {
+      return res.status(409).json({ error: error.message });
     }
+    logger.error('Registration failed', { error });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/auth/login', validateBody(loginRequestSchema), async (req, res) => {
+  try {
+    const { username, password } = req.body;
+    const user = await users.verify(username, password);
+    if (!user) {
+      return res.status(401).json({ error: 'Invalid username or password' });
+    }
+    
+    logger.info('User logged in', { user_id: user.id, username: user.username });
+    res.json({ user: toPublicUser(user), ...auth.issueTokens(user) });
+  } catch (error) {
+    logger.error('Login failed', { error });
+    res.status(500).json({ error: error.message });
+  }
+});
+
+app.post('/api/auth/refresh', validateBody(refreshRequestSchema), (req, res) => {
+  const user = auth.userFromRefreshToken(req.body.refresh_token);
+  
+  if (!user) {
+    return res.status(401).json({ error: 'Session expired. Please log in again.' });
+  }
+  
+  res.json({ user: toPublicUser(user), ...auth.issueTokens(user) });
+});
+
+app.post('/api/auth/logout', auth.requireAuth, (req, res) => {
+  users.revokeRefreshTokens(req.user.id);
+  logger.info('User logged out', { user_id: req.user.id, username: req.user.username });
+  res.json({ message: 'Logged out' });
+});
+
+app.get('/api/auth/me', auth.requireAuth, (req, res) => {
+  res.json({ user: toPublicUser(req.user) });
+});
+
+// HackRX Upload lookup endpoint - Find an already indexed PDF by its SHA-256 content hash
+app.get('/hackrx/upload/lookup/:hash', (req, res) => {
+  const existing = pdfCache.findByHash(req.params.hash.toLowerCase());
+  
+  // Only the caller's own documents: knowing a hash must not grant access to someone else's upload
+  if (!existing || !isDocumentOwner(existing[1], req.user)) {
+    return res.status(404).json({ error: 'No indexed PDF matches this content hash' });
+  }
+  
+  const [pdf_id, record] = existing;
+  res.json({
+    pdf_id: pdf_id,
+    message: `♻️ PDF already indexed as "${record.originalFilename}", reusing existing index`,
+    reused: true
   });
 });
 
 // HackRX Upload PDF endpoint - Upload PDF and create embeddings/BM25 index
-app.post('/hackrx/upload', upload.single('file'), async (req, res) => {
+app.get('/hackrx/upload/formats', (req, res) => {
+  res.json({
+    formats: SUPPORTED_FORMATS,
+    max_size_bytes: MAX_UPLOAD_SIZE
+  });
+});
+
+app.post('/hackrx/upload', limitUploads, upload.single('file'), async (req, res) => {
+  let convertedFileInfo = null;
+  
   try {
-    if (!req.file) {
-      return res.status(400).json({ error: 'No PDF file uploaded' });
+    if (req.unsupportedFileType) {
+      return res.status(400).json({
+        error: `Unsupported file type "${req.unsupportedFileType}". Supported formats: ${supportedExtensions()}`
+      });
     }
 
-    // Validate that it's a PDF file
-    if (req.file.mimetype !== 'application/pdf' && !req.file.originalname.toLowerCase().endsWith('.pdf')) {
-      return res.status(400).json({ error: 'Only PDF files are supported' });
+    if (!req.file) {
+      return res.status(400).json({ error: 'No file uploaded' });
     }
 
-    const fileInfo = {
+    let fileInfo = {
       filename: req.file.filename,
       originalName: req.file.originalname,
       mimetype: req.file.mimetype,
@@ -173,23 +593,65 @@ app.post('/hackrx/upload', upload.single('file'), async (req, res) => {
       path: req.file.path
     };
 
-    console.log(`📤 Uploading PDF to ML API for indexing: ${req.file.originalname}`);
+    const contentHash = await hashFile(req.file.path);
+    
+    // Skip the expensive indexing when the same content was already indexed
+    // Uploading the same content proves the caller holds the document, so another user's index is shared
+    const existing = pdfCache.findByHash(contentHash);
+    if (existing) {
+      const [existingPdfId, existingRecord] = existing;
+      logger.info('PDF content already indexed, reusing existing index', { pdf_id: existingPdfId });
+      
+      fs.unlinkSync(req.file.path);
+      
+      const alreadyOwned = isDocumentOwner(existingRecord, req.user);
+      if (!alreadyOwned) {
+        pdfCache.set(existingPdfId, { ...existingRecord, owners: [...(existingRecord.owners || []), req.user.id] });
+      }
+      
+      return res.json({
+        pdf_id: existingPdfId,
+        message: alreadyOwned
+          ? `♻️ PDF already indexed as "${existingRecord.originalFilename}", reusing existing index`
+          : '♻️ PDF already indexed, reusing existing index',
+        reused: true,
+        ...(existingRecord.ocr && { ocr: existingRecord.ocr })
+      });
+    }
+    
+    // The original upload is no longer needed once it was OCRed or converted
+    const searchable = await toSearchablePDF(fileInfo);
+    const ocr = searchable.ocr;
+    convertedFileInfo = searchable.converted;
+    
+    if (convertedFileInfo) {
+      fs.unlinkSync(req.file.path);
+      fileInfo = convertedFileInfo;
+    }
+    
+    logger.info('Uploading PDF to ML API for indexing', { filename: req.file.originalname, size: req.file.size });
     
     // Call ML API to upload and index the PDF
     const mlResponse = await uploadPDFToMLAPI(fileInfo);
     
-    // Extract pdf_id from ML API response
+    // Extract pdf_id from ML API response (checked against the contract by uploadPDFToMLAPI)
     const pdf_id = mlResponse.pdf_id;
     
-    if (!pdf_id) {
-      throw new Error('ML API did not return a pdf_id in response');
-    }
-    
-    console.log(`✅ ML API returned pdf_id: ${pdf_id}`);
+    logger.info('ML API returned pdf_id', { pdf_id });
     
     // Check if this PDF is already indexed in cache (by pdf_id from ML API)
     if (pdfCache.has(pdf_id)) {
-      console.log(`📋 PDF ${pdf_id} already indexed, updating cache`);
+      logger.info('PDF already indexed, updating cache', { pdf_id });
+      
+      // Replace the previously kept copy of the file
+      const previousPath = pdfCache.get(pdf_id).fileInfo.path;
+      if (previousPath !== fileInfo.path && fs.existsSync(previousPath)) {
+        try {
+          fs.unlinkSync(previousPath);
+        } catch (cleanupError) {
+          logger.warn('Failed to clean up previous file', { path: previousPath, error: cleanupError });
+        }
+      }
     }
     
     // Store the PDF info in cache with the ML API response
@@ -197,203 +659,1125 @@ app.post('/hackrx/upload', upload.single('file'), async (req, res) => {
       fileInfo: fileInfo,
       indexedAt: new Date().toISOString(),
       mlApiResponse: mlResponse,
-      originalFilename: req.file.originalname
+      originalFilename: req.file.originalname,
+      contentHash: contentHash,
+      owners: [req.user.id],
+      ...(ocr && { ocr })
     });
     
-    console.log(`✅ PDF ${pdf_id} successfully indexed and cached`);
+    logger.info('PDF indexed and cached', { pdf_id });
     
-    // Clean up uploaded file after successful processing
-    try {
-      fs.unlinkSync(req.file.path);
-    } catch (cleanupError) {
-      console.warn('Failed to cleanup uploaded file:', cleanupError.message);
-    }
+    // The uploaded file is kept so the viewer can serve it via /hackrx/documents/:pdf_id/file
     
     // Return the exact format specified in requirements
     res.json({
       pdf_id: pdf_id,
-      message: "✅ PDF uploaded & indexed"
+      message: "✅ PDF uploaded & indexed",
+      ...(ocr && { ocr })
     });
   } catch (error) {
-    console.error('PDF upload error:', error.message);
+    logger.error('PDF upload failed', { error });
     
-    // Clean up uploaded file on error
-    if (req.file && req.file.path && fs.existsSync(req.file.path)) {
-      try {
-        fs.unlinkSync(req.file.path);
-      } catch (cleanupError) {
-        console.warn('Failed to cleanup file after error:', cleanupError.message);
+    // Clean up the uploaded file (and its converted PDF) on error
+    [req.file && req.file.path, convertedFileInfo && convertedFileInfo.path].forEach(filePath => {
+      if (filePath && fs.existsSync(filePath)) {
+        try {
+          fs.unlinkSync(filePath);
+        } catch (cleanupError) {
+          logger.warn('Failed to clean up file after error', { path: filePath, error: cleanupError });
+        }
       }
-    }
+    });
     
-    res.status(500).json({ error: error.message });
+    sendError(res, error);
+  }
+});
+
+// HackRX Documents endpoint - List every indexed PDF
+app.get('/hackrx/documents', (req, res) => {
+  const documents = pdfCache.entries()
+    .filter(([, record]) => isDocumentOwner(record, req.user))
+    .map(([pdf_id, record]) => toDocumentSummary(pdf_id, record))
+    .sort((a, b) => b.indexedAt.localeCompare(a.indexedAt));
+  
+  res.json({
+    count: documents.length,
+    documents: documents
+  });
+});
+
+// HackRX Document endpoint - Inspect one indexed PDF
+app.get('/hackrx/documents/:pdf_id', (req, res) => {
+  const { pdf_id } = req.params;
+  
+  if (!ownsDocument(req.user, pdf_id)) {
+    return res.status(404).json({ 
+      error: `PDF with id '${pdf_id}' not found. Please upload the PDF first using /hackrx/upload.` 
+    });
   }
+  
+  const record = pdfCache.get(pdf_id);
+  res.json({
+    ...toDocumentSummary(pdf_id, record),
+    ml_api_response: record.mlApiResponse
+  });
 });
 
-// HackRX Query endpoint - Query PDF using pdf_id and question
-app.post('/hackrx/query', upload.none(), async (req, res) => {
+// HackRX Document endpoint - Delete an indexed PDF, its stored file and (when supported) the ML index
+app.delete('/hackrx/documents/:pdf_id', async (req, res) => {
   try {
-    const { pdf_id, question } = req.body;
-    
-    // Validate required parameters
-    if (!pdf_id) {
-      return res.status(400).json({ error: 'pdf_id is required' });
-    }
-    
-    if (!question || !question.trim()) {
-      return res.status(400).json({ error: 'question is required' });
-    }
+    const { pdf_id } = req.params;
     
-    // Check if PDF exists in cache
-    if (!pdfCache.has(pdf_id)) {
+    if (!ownsDocument(req.user, pdf_id)) {
       return res.status(404).json({ 
         error: `PDF with id '${pdf_id}' not found. Please upload the PDF first using /hackrx/upload.` 
       });
     }
     
-    console.log(`🔍 Querying PDF ${pdf_id} with question: "${question.trim()}"`);
+    const record = pdfCache.get(pdf_id);
     
-    // Get cached PDF info
-    const cachedPDF = pdfCache.get(pdf_id);
+    // A document shared by several users stays indexed until its last owner deletes it
+    const otherOwners = record.owners.filter(id => id !== req.user.id);
+    if (otherOwners.length > 0) {
+      pdfCache.set(pdf_id, { ...record, owners: otherOwners });
+      logger.info('PDF removed for user, still used by other users', { pdf_id, other_owners: otherOwners.length });
+      return res.json({
+        pdf_id: pdf_id,
+        message: `🗑️ PDF "${record.originalFilename}" deleted`,
+        ml_index_deleted: false
+      });
+    }
     
-    // Call ML API to query the PDF
-    const mlResponse = await queryPDFFromMLAPI(pdf_id, question.trim(), cachedPDF);
+    const mlIndexDeleted = await deletePDFFromMLAPI(pdf_id);
     
-    console.log(`✅ Query completed for PDF ${pdf_id}`);
+    pdfCache.delete(pdf_id);
+    removeDocumentFiles([[pdf_id, record]]);
     
-    // Return the exact format specified in requirements
-    // Handle different possible response structures from ML API
-    let answerText;
-    if (mlResponse.answer && mlResponse.answer.answer) {
-      // If ML API returns { answer: { answer: "text" } }
-      answerText = mlResponse.answer.answer;
-    } else if (mlResponse.answer) {
-      // If ML API returns { answer: "text" }
-      answerText = mlResponse.answer;
-    } else if (mlResponse.response) {
-      // If ML API returns { response: "text" }
-      answerText = mlResponse.response;
-    } else {
-      // Fallback to the full response
-      answerText = typeof mlResponse === 'string' ? mlResponse : JSON.stringify(mlResponse);
-    }
+    logger.info('PDF deleted', { pdf_id, ml_index_deleted: mlIndexDeleted });
     
     res.json({
-      answer: {
-        answer: answerText
-      }
+      pdf_id: pdf_id,
+      message: `🗑️ PDF "${record.originalFilename}" deleted`,
+      ml_index_deleted: mlIndexDeleted
     });
   } catch (error) {
-    console.error('PDF query error:', error.message);
-    res.status(500).json({ error: error.message });
+    logger.error('PDF delete failed', { error });
+    sendError(res, error);
   }
 });
 
+// HackRX Document file endpoint - Serve the original uploaded PDF for the viewer
+app.get('/hackrx/documents/:pdf_id/file', (req, res) => {
+  const { pdf_id } = req.params;
+  
+  if (!ownsDocument(req.user, pdf_id)) {
+    return res.status(404).json({ 
+      error: `PDF with id '${pdf_id}' not found. Please upload the PDF first using /hackrx/upload.` 
+    });
+  }
+  
+  const { fileInfo, originalFilename } = pdfCache.get(pdf_id);
+  
+  if (!fileInfo.path || !fs.existsSync(fileInfo.path)) {
+    return res.status(404).json({ error: `The original file for PDF '${pdf_id}' is no longer available.` });
+  }
+  
+  res.set('Content-Type', 'application/pdf');
+  res.set('Content-Disposition', `inline; filename="${encodeURIComponent(originalFilename)}"`);
+  res.sendFile(path.resolve(fileInfo.path));
+});
 
-// Chat endpoint for general conversations
-app.post('/api/chat', async (req, res) => {
+// HackRX Query endpoint - Query one or more PDFs using pdf_id(s) and question
+app.post('/hackrx/query', upload.none(), validateBody(queryRequestSchema), limitQuestions(req => req.body.pdf_ids.length), async (req, res) => {
   try {
-    const { message, conversation_id } = req.body;
-
-    if (!message) {
-      return res.status(400).json({ error: 'Message is required' });
+    const { pdf_ids: pdfIds, question } = req.body;
+    
+    // Check if every PDF exists in cache
+    const missingIds = pdfIds.filter(id => !ownsDocument(req.user, id));
+    if (missingIds.length > 0) {
+      return res.status(404).json({ 
+        error: `PDF with id '${missingIds.join("', '")}' not found. Please upload the PDF first using /hackrx/upload.` 
+      });
     }
-
-    console.log('💬 General chat message:', message);
     
-    // For general chat, provide a simple response without requiring ML API
-    const responses = [
-      `Thank you for your message: "${message}". This is a general chat response.`,
-      `I received your message about "${message}". For document analysis, please upload a PDF file first.`,
-      `Hello! You said: "${message}". I'm ready to help with document analysis if you upload a PDF.`,
-      `I understand you're asking about "${message}". Upload a PDF document and I can provide detailed analysis.`
-    ];
+    logger.info('Querying PDFs', { pdf_ids: pdfIds, question: logger.redact(question) });
+    
+    const result = await queryDocuments(pdfIds, question, conversationKey(req.user, req.body.conversation_id));
     
-    const mlResponse = responses[Math.floor(Math.random() * responses.length)];
+    logger.info('Query completed', { pdf_ids: pdfIds });
+    
+    res.json(result);
+  } catch (error) {
+    logger.error('PDF query failed', { error });
+    sendError(res, error);
+  }
+});
 
-    res.json({
-      success: true,
-      response: mlResponse,
-      conversation_id: conversation_id || generateConversationId(),
-      timestamp: new Date().toISOString()
+// HackRX streaming Query endpoint - Relay the answer for a single PDF as Server-Sent Events
+// The body is validated before switching to an event stream
+app.post('/hackrx/query/stream', upload.none(), validateBody(queryStreamRequestSchema), limitQuestions(), async (req, res) => {
+  const { pdf_id, question, conversation_id } = req.body;
+  
+  if (!ownsDocument(req.user, pdf_id)) {
+    return res.status(404).json({ 
+      error: `PDF with id '${pdf_id}' not found. Please upload the PDF first using /hackrx/upload.` 
     });
+  }
+  
+  const { sendEvent, signal } = openEventStream(res, `PDF ${pdf_id}`);
+  
+  try {
+    logger.info('Streaming query', { pdf_id, question: logger.redact(question) });
+    
+    const done = await streamDocumentAnswer(pdf_id, question, conversationKey(req.user, conversation_id), sendEvent, signal);
+    
+    logger.info('Streaming query completed', { pdf_id });
+    sendEvent('done', done);
+  } catch (error) {
+    if (signal.aborted) {
+      return;
+    }
+    logger.error('PDF streaming query failed', { error });
+    sendEvent('error', errorEvent(error));
+  }
+  res.end();
+});
+
+// HackRX Review checklist endpoint - Serve the checklist the legal team maintains
+app.get('/hackrx/review/checklist', (req, res) => {
+  try {
+    res.json(loadChecklist(LEGAL_CHECKLIST_PATH));
   } catch (error) {
-    console.error('Chat error:', error.message);
+    logger.error('Legal checklist could not be loaded', { error });
     res.status(500).json({ error: error.message });
   }
 });
 
-// HackRX ML API integration functions
+// Questions a review sends to the ML API, for the daily question quota
+function checklistQuestionCount() {
+  try {
+    return loadChecklist(LEGAL_CHECKLIST_PATH).items.length;
+  } catch (error) {
+    return 1; // The review itself reports the broken checklist
+  }
+}
 
-// Upload PDF to ML API for indexing (creates embeddings + BM25 index)
-async function uploadPDFToMLAPI(fileInfo) {
+// HackRX Review endpoint - Run the legal checklist against a PDF and report each clause as found or missing
+app.post('/hackrx/review', upload.none(), validateBody(reviewRequestSchema), limitQuestions(checklistQuestionCount), async (req, res) => {
   try {
-    if (!fileInfo || !fileInfo.path) {
-      throw new Error('File information is required for ML API upload');
-    }
+    const { pdf_id } = req.body;
     
-    const formData = new FormData();
+    if (!ownsDocument(req.user, pdf_id)) {
+      return res.status(404).json({ 
+        error: `PDF with id '${pdf_id}' not found. Please upload the PDF first using /hackrx/upload.` 
+      });
+    }
     
-    // Add PDF file
-    const fileStream = fs.createReadStream(fileInfo.path);
-    formData.append('file', fileStream, fileInfo.originalName);
+    const checklist = loadChecklist(LEGAL_CHECKLIST_PATH);
+    const cachedPDF = pdfCache.get(pdf_id);
+    const documentInfo = { pdf_id: pdf_id, filename: cachedPDF.originalFilename };
     
-    console.log(`📤 Uploading PDF to ML API: ${fileInfo.originalName}`);
-    console.log('ML API URL:', process.env.ML_API_URL + '/hackrx/upload');
+    logger.info('Reviewing PDF against the checklist', { pdf_id, clauses: checklist.items.length });
     
-    const response = await axios.post(process.env.ML_API_URL + '/hackrx/upload', formData, {
-      headers: {
-        ...formData.getHeaders(),
-        'Accept': 'application/json'
-      },
-      timeout: 120000 // 2 minute timeout for indexing
+    const { summary, clauses } = await reviewDocument({
+      checklist,
+      ask: async question => {
+        const mlResponse = await queryPDFFromMLAPI(pdf_id, question, cachedPDF);
+        return { answer: mlResponse.answer, sources: extractSources(mlResponse.payload, documentInfo) };
+      }
     });
     
-    console.log('📥 ML API Upload Response Status:', response.status);
-    console.log('📥 ML API Upload Response Data:', JSON.stringify(response.data, null, 2));
+    if (summary.errors === clauses.length) {
+      return res.status(502).json({ error: `Review failed: ${clauses[0].error}` });
+    }
+    
+    logger.info('Review completed', { pdf_id, found: summary.found, missing: summary.missing, overall_risk: summary.overall_risk });
     
-    return response.data;
+    res.json({
+      ...documentInfo,
+      checklist_version: checklist.version || null,
+      generated_at: new Date().toISOString(),
+      summary,
+      clauses
+    });
   } catch (error) {
-    console.error('ML API Upload Error:', error.response?.data || error.message);
-    throw new Error(`ML API upload failed: ${error.response?.data?.error || error.message}`);
+    logger.error('PDF review failed', { error });
+    sendError(res, error);
+  }
+});
+
+// HackRX Compare endpoint - Ask two PDFs the same questions and pair up the answers
+// Runs before the question quota is charged, so an oversized comparison costs nothing
+function checkCompareSize(req, res, next) {
+  if (req.body.questions.length > COMPARE_MAX_QUESTIONS) {
+    return res.status(400).json({ error: `At most ${COMPARE_MAX_QUESTIONS} questions can be compared at once`, code: 'invalid_request' });
   }
+  next();
 }
 
-// Query PDF from ML API using pdf_id and question
-async function queryPDFFromMLAPI(pdf_id, question, cachedPDF) {
+app.post('/hackrx/compare', upload.none(), validateBody(compareRequestSchema), checkCompareSize, limitQuestions(req => req.body.questions.length * 2), async (req, res) => {
   try {
-    if (!pdf_id || !question) {
-      throw new Error('PDF ID and question are required for ML API query');
+    const { pdf_ids: pdfIds, questions } = req.body;
+    
+    const missingIds = pdfIds.filter(id => !ownsDocument(req.user, id));
+    if (missingIds.length > 0) {
+      return res.status(404).json({ 
+        error: `PDF with id '${missingIds.join("', '")}' not found. Please upload the PDF first using /hackrx/upload.` 
+      });
     }
     
-    const formData = new FormData();
+    const documents = pdfIds.map(id => ({ pdf_id: id, filename: pdfCache.get(id).originalFilename }));
     
-    // Add pdf_id and question as specified in the requirements
-    formData.append('pdf_id', pdf_id);
-    formData.append('question', question);
+    logger.info('Comparing PDFs', { pdf_ids: pdfIds, questions: questions.length });
     
-    console.log(`🔍 Querying ML API with pdf_id: ${pdf_id}`);
-    console.log('Question:', question);
-    console.log('ML API URL:', process.env.ML_API_URL + '/hackrx/query');
+    const askDocument = async (documentInfo, question) => {
+      try {
+        const mlResponse = await queryPDFFromMLAPI(documentInfo.pdf_id, question, pdfCache.get(documentInfo.pdf_id));
+        return { answer: mlResponse.answer, sources: extractSources(mlResponse.payload, documentInfo) };
+      } catch (error) {
+        return { error: error.message };
+      }
+    };
     
-    const response = await axios.post(process.env.ML_API_URL + '/hackrx/query', formData, {
-      headers: {
-        ...formData.getHeaders(),
-        'Accept': 'application/json'
-      },
-      timeout: 60000 // 1 minute timeout for queries
+    const comparisons = await mapWithConcurrency(questions, COMPARE_CONCURRENCY, async question => {
+      const answers = await Promise.all(documents.map(documentInfo => askDocument(documentInfo, question)));
+      const failed = answers.some(answer => answer.error);
+      return {
+        question,
+        answers,
+        ...(failed ? { identical: null, similarity: null } : compareAnswers(answers[0].answer, answers[1].answer))
+      };
+    });
+    
+    const summary = {
+      questions: comparisons.length,
+      differing: comparisons.filter(comparison => comparison.identical === false).length,
+      errors: comparisons.filter(comparison => comparison.identical === null).length
+    };
+    
+    if (summary.errors === comparisons.length) {
+      const firstError = comparisons[0].answers.find(answer => answer.error).error;
+      return res.status(502).json({ error: `Comparison failed: ${firstError}` });
+    }
+    
+    logger.info('Comparison completed', { differing: summary.differing, questions: summary.questions });
+    
+    res.json({ documents, comparisons, summary });
+  } catch (error) {
+    logger.error('PDF compare failed', { error });
+    sendError(res, error);
+  }
+});
+
+// Ask every PDF the same question in parallel and build the /hackrx/query response:
+// { answer } for a single document, or a combined answer plus per-document `answers`
+async function queryDocuments(pdfIds, question, conversationId) {
+  const results = await Promise.allSettled(
+    pdfIds.map(async id => {
+      const { standaloneQuestion, history } = await prepareDocumentQuestion(conversationId, id, question);
+      const mlResponse = await queryPDFFromMLAPI(id, standaloneQuestion, pdfCache.get(id), history);
+      return { standaloneQuestion, mlResponse };
+    })
+  );
+  
+  const answers = results.map((result, index) => {
+    const id = pdfIds[index];
+    const answer = {
+      pdf_id: id,
+      filename: pdfCache.get(id).originalFilename
+    };
+    if (result.status === 'fulfilled') {
+      const { standaloneQuestion, mlResponse } = result.value;
+      answer.answer = mlResponse.answer;
+      answer.sources = extractSources(mlResponse.payload, answer);
+      Object.assign(answer, standaloneQuestionField(question, standaloneQuestion));
+      recordDocumentTurn(conversationId, id, question, standaloneQuestion, answer.answer);
+    } else {
+      answer.error = result.reason.message;
+    }
+    return answer;
+  });
+  
+  if (answers.every(answer => answer.error)) {
+    throw results[0].reason;
+  }
+  
+  // Single document: keep the exact format specified in requirements
+  if (answers.length === 1) {
+    const { answer, sources, standalone_question } = answers[0];
+    return {
+      answer: withSources({ answer, ...(standalone_question && { standalone_question }) }, sources)
+    };
+  }
+  
+  // Multiple documents: combined answer plus the per-document parts
+  const combinedAnswer = answers
+    .map(answer => `📄 ${answer.filename}:\n${answer.error ? `⚠️ ${answer.error}` : answer.answer}`)
+    .join('\n\n');
+  
+  return {
+    answer: withSources(
+      { answer: combinedAnswer },
+      answers.flatMap(answer => answer.sources || [])
+    ),
+    answers: answers.map(({ sources, ...answer }) => withSources(answer, sources))
+  };
+}
+
+// Stream one PDF's answer as token events and resolve with the done payload, resolving follow-ups first
+async function streamDocumentAnswer(pdf_id, question, conversationId, sendEvent, signal) {
+  const { standaloneQuestion, history } = await prepareDocumentQuestion(conversationId, pdf_id, question);
+  const { answer, sources } = await streamPDFQueryFromMLAPI(
+    pdf_id,
+    standaloneQuestion,
+    token => sendEvent('token', { token }),
+    signal,
+    pdfCache.get(pdf_id),
+    history
+  );
+  
+  if (!signal.aborted) {
+    recordDocumentTurn(conversationId, pdf_id, question, standaloneQuestion, answer);
+  }
+  return withSources({ answer, ...standaloneQuestionField(question, standaloneQuestion) }, sources);
+}
+
+// Resolve a question for one PDF against the earlier turns of the conversation. Returns the
+// question to send to the ML API, plus the raw history when the ML API accepts it instead.
+async function prepareDocumentQuestion(conversationId, pdf_id, question) {
+  const turns = conversationId ? documentQAHistory.get(documentHistoryKey(conversationId, pdf_id)) : [];
+  
+  if (ML_QUERY_HISTORY) {
+    return {
+      standaloneQuestion: question,
+      history: turns.map(turn => ({ question: turn.standalone_question || turn.question, answer: turn.answer }))
+    };
+  }
+  
+  const standaloneQuestion = await questionRewriter.rewrite(question, turns);
+  if (standaloneQuestion !== question) {
+    logger.info('Follow-up rewritten', { pdf_id, standalone_question: logger.redact(standaloneQuestion) });
+  }
+  return { standaloneQuestion };
+}
+
+function recordDocumentTurn(conversationId, pdf_id, question, standaloneQuestion, answer) {
+  if (conversationId) {
+    documentQAHistory.append(documentHistoryKey(conversationId, pdf_id), {
+      question,
+      standalone_question: standaloneQuestion,
+      answer
+    });
+  }
+}
+
+function documentHistoryKey(conversationId, pdf_id) {
+  return `${conversationId}::${pdf_id}`;
+}
+
+// { standalone_question } when a follow-up was rewritten, so clients can show what was asked
+function standaloneQuestionField(question, standaloneQuestion) {
+  return standaloneQuestion && standaloneQuestion !== question ? { standalone_question: standaloneQuestion } : {};
+}
+
+// Switch a response to Server-Sent Events. The returned signal aborts when the client goes away.
+function openEventStream(res, description) {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    'Connection': 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  
+  // Abort the upstream request when the client goes away (e.g. the Stop button)
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) {
+      logger.info('Client closed stream', { stream: description });
+      controller.abort();
+    }
+  });
+  
+  const sendEvent = (event, data) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+  
+  return { sendEvent, signal: controller.signal };
+}
+
+// Public view of a registry record
+// Documents indexed before authentication existed have no owners and stay hidden
+function isDocumentOwner(record, user) {
+  return Boolean(record && Array.isArray(record.owners) && record.owners.includes(user.id));
+}
+
+function ownsDocument(user, pdf_id) {
+  return isDocumentOwner(pdfCache.get(pdf_id), user);
+}
+
+// History keys are scoped to the user so a conversation_id cannot be replayed from another account
+function conversationKey(user, conversationId) {
+  return conversationId ? `${user.id}:${conversationId}` : undefined;
+}
+
+function toDocumentSummary(pdf_id, record) {
+  return {
+    pdf_id: pdf_id,
+    filename: record.originalFilename,
+    mimetype: record.fileInfo.mimetype,
+    size: record.fileInfo.size,
+    content_hash: record.contentHash,
+    indexedAt: record.indexedAt,
+    expiresAt: pdfCache.expiresAt(record),
+    file_available: Boolean(record.fileInfo.path && fs.existsSync(record.fileInfo.path))
+  };
+}
+
+// Images and scanned PDFs are OCRed into a searchable PDF; DOCX/TXT/XLSX/PPTX are converted to PDF
+// locally. Resolves with the new PDF's fileInfo (null when the upload already was a text PDF) and
+// the OCR report when OCR ran.
+async function toSearchablePDF(fileInfo) {
+  const format = findFormat(fileInfo.originalName);
+  
+  if (format.ocr || (!format.converted && await isScannedPDF(fileInfo.path))) {
+    logger.info('Running OCR', { filename: fileInfo.originalName });
+    const ocrResult = await ocrToSearchablePDF(fileInfo);
+    logger.info('OCR finished', { pages: ocrResult.pages.length, average_confidence: ocrResult.averageConfidence });
+    return {
+      converted: ocrResult.fileInfo,
+      ocr: {
+        applied: true,
+        average_confidence: ocrResult.averageConfidence,
+        pages: ocrResult.pages
+      }
+    };
+  }
+  
+  if (format.converted) {
+    logger.info('Converting document to PDF', { filename: fileInfo.originalName });
+    return { converted: await convertToPDF(fileInfo), ocr: null };
+  }
+  
+  return { converted: null, ocr: null };
+}
+
+// Scan detection must never block an upload: if the PDF cannot be parsed here, let the ML API try it
+async function isScannedPDF(filePath) {
+  try {
+    return await isImageOnlyPDF(filePath);
+  } catch (error) {
+    logger.warn('Could not check PDF for a text layer, skipping OCR', { error });
+    return false;
+  }
+}
+
+// Extract source passages (text, page number, relevance score) when the ML API provides them.
+// Accepts the common shapes: sources / citations / source_documents / context, at the top level or under answer.
+function extractSources(mlResponse, documentInfo = {}) {
+  if (!mlResponse || typeof mlResponse !== 'object') {
+    return [];
+  }
+  
+  const nested = mlResponse.answer && typeof mlResponse.answer === 'object' ? mlResponse.answer : {};
+  const candidates = [
+    mlResponse.sources, mlResponse.citations, mlResponse.source_documents, mlResponse.context,
+    nested.sources, nested.citations, nested.source_documents, nested.context
+  ];
+  const rawSources = candidates.find(Array.isArray) || [];
+  
+  return rawSources
+    .map(source => {
+      if (typeof source === 'string') {
+        return { text: source };
+      }
+      if (!source || typeof source !== 'object') {
+        return null;
+      }
+      const metadata = source.metadata || {};
+      const text = source.text ?? source.content ?? source.passage ?? source.page_content ?? source.chunk;
+      if (typeof text !== 'string' || !text.trim()) {
+        return null;
+      }
+      const normalised = { text: text.trim() };
+      const page = Number(source.page ?? source.page_number ?? metadata.page ?? metadata.page_number);
+      if (Number.isFinite(page)) {
+        normalised.page = page;
+      }
+      const score = Number(source.score ?? source.relevance ?? source.similarity ?? metadata.score);
+      if (Number.isFinite(score)) {
+        normalised.score = score;
+      }
+      return normalised;
+    })
+    .filter(Boolean)
+    .map(source => ({
+      ...source,
+      ...(documentInfo.pdf_id && { pdf_id: documentInfo.pdf_id }),
+      ...(documentInfo.filename && { filename: documentInfo.filename })
+    }));
+}
+
+// Attach sources to an answer object only when there are any
+function withSources(answer, sources) {
+  return sources && sources.length > 0 ? { ...answer, sources } : answer;
+}
+
+
+// Analysis upload endpoint - Store a document for ad-hoc analysis and hand out a file_id
+app.post(ANALYSIS_ROUTES.upload, limitUploads, upload.single(ANALYSIS_FIELDS.file), async (req, res) => {
+  if (req.unsupportedFileType) {
+    return res.status(400).json({
+      error: `Unsupported file type "${req.unsupportedFileType}". Supported formats: ${supportedExtensions()}`
+    });
+  }
+  
+  if (!req.file) {
+    return res.status(400).json({ error: 'No file uploaded' });
+  }
+  
+  let searchable = { converted: null };
+  try {
+    // Convert once here so every later analysis of the file_id can send the PDF straight away
+    searchable = await toSearchablePDF(uploadedFileInfo(req.file));
+    if (searchable.converted) {
+      removeFiles([req.file.path]);
+    }
+    
+    const file_id = path.parse(req.file.filename).name;
+    const stored = {
+      fileInfo: searchable.converted || uploadedFileInfo(req.file),
+      original: { originalName: req.file.originalname, mimetype: req.file.mimetype, size: req.file.size },
+      owner: req.user.id,
+      expiresAt: new Date(Date.now() + ANALYSIS_FILE_TTL_MINUTES * 60 * 1000).toISOString()
+    };
+    analysisFiles.set(file_id, stored);
+    
+    logger.info('Stored file for analysis', { file_id, filename: req.file.originalname });
+    
+    res.status(201).json({
+      success: true,
+      file: { file_id, ...stored.original, expires_at: stored.expiresAt },
+      message: `File stored. Send file_id to ${ANALYSIS_ROUTES.processFileQuestion} or ${ANALYSIS_ROUTES.analyzeDocument} to analyze it.`
+    });
+  } catch (error) {
+    logger.error('Analysis upload failed', { error });
+    removeFiles([req.file.path, searchable.converted && searchable.converted.path]);
+    res.status(500).json({ error: error.message });
+  }
+});
+
+// Text analysis endpoint - Analyze pasted text by sending it to the ML API as a generated PDF
+app.post(ANALYSIS_ROUTES.processText, validateBody(processTextRequestSchema), limitQuestions(), async (req, res) => {
+  const { text } = req.body;
+  const question = req.body.question || ANALYSIS_DEFAULT_QUESTION;
+  
+  const textPath = path.join(uploadDir, `text-${Date.now()}-${Math.round(Math.random() * 1E9)}.txt`);
+  let pdfInfo = null;
+  try {
+    fs.writeFileSync(textPath, text);
+    pdfInfo = await convertToPDF({ originalName: 'text.txt', path: textPath });
+    
+    logger.info('Analyzing text', { characters: text.length });
+    
+    const answers = await analyzeWithMLAPI(pdfInfo, [question]);
+    res.json(analysisResponse(answers, [question]));
+  } catch (error) {
+    logger.error('Text analysis failed', { error });
+    sendError(res, error);
+  } finally {
+    removeFiles([textPath, pdfInfo && pdfInfo.path]);
+  }
+});
+
+// File question endpoint - Ask one question about a file (or a stored file_id) in a single request
+app.post(
+  ANALYSIS_ROUTES.processFileQuestion,
+  upload.single(ANALYSIS_FIELDS.file),
+  validateBody(processFileQuestionRequestSchema),
+  limitQuestions(),
+  async (req, res) => {
+    await runAnalysis(req, res, [req.body.question]);
+  }
+);
+
+// Document analysis endpoint - Ask several questions about a file (or a stored file_id) in a single request
+app.post(
+  ANALYSIS_ROUTES.analyzeDocument,
+  upload.single(ANALYSIS_FIELDS.file),
+  validateBody(analyzeDocumentRequestSchema),
+  limitQuestions(req => req.body.questions.length),
+  async (req, res) => {
+    await runAnalysis(req, res, req.body.questions);
+  }
+);
+
+// Send the request's document (an upload or a stored file_id) and questions to the ML API and answer
+// with the analysis response; uploaded files only live for the duration of the request
+async function runAnalysis(req, res, questions) {
+  const temporaryFiles = [req.file && req.file.path];
+  
+  try {
+    let fileInfo;
+    let original;
+    if (req.unsupportedFileType) {
+      return res.status(400).json({
+        error: `Unsupported file type "${req.unsupportedFileType}". Supported formats: ${supportedExtensions()}`
+      });
+    } else if (req.file) {
+      const searchable = await toSearchablePDF(uploadedFileInfo(req.file));
+      temporaryFiles.push(searchable.converted && searchable.converted.path);
+      fileInfo = searchable.converted || uploadedFileInfo(req.file);
+      original = { originalName: req.file.originalname, mimetype: req.file.mimetype, size: req.file.size };
+    } else {
+      const fileId = req.body[ANALYSIS_FIELDS.fileId];
+      const stored = fileId && analysisFiles.get(fileId);
+      if (!fileId) {
+        return res.status(400).json({ error: 'A file or a file_id is required' });
+      }
+      if (!stored || stored.owner !== req.user.id) {
+        return res.status(404).json({ error: `File '${fileId}' not found or expired. Upload it again using ${ANALYSIS_ROUTES.upload}.` });
+      }
+      ({ fileInfo, original } = stored);
+    }
+    
+    logger.info('Analyzing document', { filename: original.originalName, questions: questions.length });
+    
+    const answers = await analyzeWithMLAPI(fileInfo, questions);
+    res.json(analysisResponse(answers, questions, original));
+  } catch (error) {
+    logger.error('Document analysis failed', { error });
+    sendError(res, error);
+  } finally {
+    removeFiles(temporaryFiles);
+  }
+}
+
+function uploadedFileInfo(file) {
+  return {
+    filename: file.filename,
+    originalName: file.originalname,
+    mimetype: file.mimetype,
+    size: file.size,
+    path: file.path
+  };
+}
+
+// Ask the ML API's one-shot endpoint every question about a PDF; resolves with [{ question, answer }]
+async function analyzeWithMLAPI(fileInfo, questions) {
+  const answers = await callMLAPI(questions, fileInfo);
+  
+  if (answers.length !== questions.length) {
+    const error = new Error(`ML API returned ${answers.length} answer(s) for ${questions.length} question(s)`);
+    error.upstream = true;
+    throw error;
+  }
+  
+  return questions.map((question, index) => ({ question, answer: answers[index] }));
+}
+
+function analysisResponse(answers, questions, original) {
+  return {
+    success: true,
+    response: { answers },
+    questions,
+    ...(original && { file: original }),
+    timestamp: new Date().toISOString()
+  };
+}
+
+// A document chat message asks every selected PDF, like /hackrx/query
+function chatQuestionCount(req) {
+  return Math.max(1, req.body.pdf_ids.length);
+}
+
+// Chat endpoint - general conversation with server-side history. When pdf_ids are sent,
+// document questions are routed to document QA and small talk stays with the chat provider.
+app.post('/api/chat', validateBody(chatRequestSchema), limitQuestions(chatQuestionCount), async (req, res) => {
+  try {
+    const turn = prepareChatTurn(req.body, req.user);
+    if (turn.error) {
+      return res.status(turn.status).json({ error: turn.error });
+    }
+    
+    const { message, conversationId, historyKey, pdfIds, route } = turn;
+    logger.info('Chat message', { conversation_id: conversationId, route, message: logger.redact(message) });
+    
+    let reply;
+    if (route === 'document') {
+      const result = await queryDocuments(pdfIds, message, historyKey);
+      reply = {
+        response: result.answer.answer,
+        sources: result.answer.sources,
+        answers: result.answers,
+        standalone_question: result.answer.standalone_question
+      };
+    } else {
+      reply = { response: await chatProvider.reply(buildChatMessages(historyKey, message)) };
+    }
+    
+    recordChatTurn(historyKey, message, reply.response, route, reply.standalone_question);
+    
+    res.json({
+      success: true,
+      response: reply.response,
+      ...(reply.sources && { sources: reply.sources }),
+      ...(reply.answers && { answers: reply.answers }),
+      ...(reply.standalone_question && { standalone_question: reply.standalone_question }),
+      route: route,
+      provider: route === 'document' ? 'document-qa' : chatProvider.name,
+      conversation_id: conversationId,
+      timestamp: new Date().toISOString()
+    });
+  } catch (error) {
+    logger.error('Chat failed', { error });
+    sendError(res, error);
+  }
+});
+
+// Streaming chat endpoint - same routing as /api/chat, reply relayed as Server-Sent Events
+app.post('/api/chat/stream', validateBody(chatRequestSchema), limitQuestions(chatQuestionCount), async (req, res) => {
+  const turn = prepareChatTurn(req.body, req.user);
+  if (turn.error) {
+    return res.status(turn.status).json({ error: turn.error });
+  }
+  
+  const { message, conversationId, historyKey, pdfIds, route } = turn;
+  const { sendEvent, signal } = openEventStream(res, `conversation ${conversationId}`);
+  const sendTokens = text => chunkAnswer(text).forEach(token => sendEvent('token', { token }));
+  
+  try {
+    logger.info('Streaming chat message', { conversation_id: conversationId, route, message: logger.redact(message) });
+    
+    let done;
+    if (route === 'document' && pdfIds.length === 1) {
+      done = await streamDocumentAnswer(pdfIds[0], message, historyKey, sendEvent, signal);
+    } else if (route === 'document') {
+      const result = await queryDocuments(pdfIds, message, historyKey);
+      sendTokens(result.answer.answer);
+      done = { ...result.answer, ...(result.answers && { answers: result.answers }) };
+    } else {
+      const reply = await chatProvider.reply(buildChatMessages(historyKey, message));
+      sendTokens(reply);
+      done = { answer: reply };
+    }
+    
+    if (signal.aborted) {
+      return;
+    }
+    recordChatTurn(historyKey, message, done.answer, route, done.standalone_question);
+    sendEvent('done', { ...done, route: route, conversation_id: conversationId });
+  } catch (error) {
+    if (signal.aborted) {
+      return;
+    }
+    logger.error('Chat streaming failed', { error });
+    sendEvent('error', errorEvent(error));
+  }
+  res.end();
+});
+
+// Recorded turns of a conversation (user messages carry standalone_question when a follow-up was rewritten)
+app.get('/api/chat/:conversation_id/history', (req, res) => {
+  res.json({
+    conversation_id: req.params.conversation_id,
+    messages: chatHistory.get(conversationKey(req.user, req.params.conversation_id))
+  });
+});
+
+// Transcript endpoint - Render an exported conversation as a PDF
+app.post('/api/transcript/pdf', validateBody(transcriptSchema), (req, res) => {
+  const transcript = req.body;
+  
+  logger.info('Rendering transcript PDF', { messages: transcript.messages.length });
+  
+  try {
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', 'attachment; filename="transcript.pdf"');
+    writeTranscriptPdf(transcript, res);
+  } catch (error) {
+    logger.error('Transcript PDF failed', { error });
+    if (res.headersSent) {
+      return res.end();
+    }
+    res.removeHeader('Content-Disposition');
+    res.status(500).json({ error: `Could not render transcript: ${error.message}` });
+  }
+});
+
+// Check the documents of a validated chat request body ({ message, conversation_id?, pdf_ids }) and pick its route
+function prepareChatTurn(body, user) {
+  const { message, pdf_ids: pdfIds } = body;
+  const missingIds = pdfIds.filter(id => !ownsDocument(user, id));
+  if (missingIds.length > 0) {
+    return {
+      status: 404,
+      error: `PDF with id '${missingIds.join("', '")}' not found. Please upload the PDF first using /hackrx/upload.`
+    };
+  }
+  
+  const conversationId = body.conversation_id || generateConversationId();
+  return {
+    message,
+    pdfIds,
+    conversationId,
+    historyKey: conversationKey(user, conversationId),
+    route: routeChatMessage(message, { hasDocuments: pdfIds.length > 0 })
+  };
+}
+
+// System prompt, stored history and the new user message, in provider format
+function buildChatMessages(conversationId, message) {
+  return [
+    { role: 'system', content: CHAT_SYSTEM_PROMPT },
+    ...chatHistory.get(conversationId).map(({ role, content }) => ({ role, content })),
+    { role: 'user', content: message }
+  ];
+}
+
+function recordChatTurn(conversationId, message, reply, route, standaloneQuestion) {
+  chatHistory.append(
+    conversationId,
+    { role: 'user', content: message, ...(standaloneQuestion && { standalone_question: standaloneQuestion }) },
+    { role: 'assistant', content: reply, route: route }
+  );
+}
+
+// HackRX ML API integration functions
+
+// Upload PDF to ML API for indexing (creates embeddings + BM25 index)
+async function uploadPDFToMLAPI(fileInfo) {
+  try {
+    if (!fileInfo || !fileInfo.path) {
+      throw new Error('File information is required for ML API upload');
+    }
+    
+    logger.info('Uploading PDF to ML API', { filename: fileInfo.originalName });
+    
+    const response = await mlClient.request('upload', () => {
+      // The file stream is consumed by each attempt, so the form is rebuilt every time
+      const formData = new FormData();
+      formData.append('file', fs.createReadStream(fileInfo.path), fileInfo.originalName);
+      
+      return {
+        method: 'post',
+        path: '/hackrx/upload',
+        data: formData,
+        headers: {
+          ...formData.getHeaders(),
+          'Accept': 'application/json'
+        }
+      };
+    });
+    
+    logger.debug('ML API upload reply', { status: response.status, data: response.data });
+    
+    return parseUpstreamReply(mlUploadReplySchema, response.data, 'upload');
+  } catch (error) {
+    if (error.upstream) {
+      throw error;
+    }
+    logger.error('ML API upload failed', { status: error.response?.status, reply: error.response?.data, error });
+    const mlError = new Error(`ML API upload failed: ${error.response?.data?.error || error.message}`);
+    mlError.upstream = true;
+    throw mlError;
+  }
+}
+
+// Query PDF from ML API using pdf_id and question
+async function queryPDFFromMLAPI(pdf_id, question, cachedPDF, history) {
+  try {
+    if (!pdf_id || !question) {
+      throw new Error('PDF ID and question are required for ML API query');
+    }
+    
+    logger.info('Querying ML API', { pdf_id, question: logger.redact(question) });
+    
+    const response = await mlClient.request('query', () => {
+      const formData = new FormData();
+      
+      // Add pdf_id and question as specified in the requirements
+      formData.append('pdf_id', pdf_id);
+      formData.append('question', question);
+      if (history && history.length > 0) {
+        formData.append('history', JSON.stringify(history));
+      }
+      
+      return {
+        method: 'post',
+        path: '/hackrx/query',
+        data: formData,
+        headers: {
+          ...formData.getHeaders(),
+          'Accept': 'application/json'
+        }
+      };
+    });
+    
+    logger.debug('ML API query reply', { status: response.status, data: response.data });
+    
+    return parseUpstreamReply(mlQueryReplySchema, response.data, 'query');
+  } catch (error) {
+    if (error.upstream) {
+      throw error;
+    }
+    logger.error('ML API query failed', { status: error.response?.status, reply: error.response?.data, error });
+    const mlError = new Error(`ML API query failed: ${error.response?.data?.error || error.message}`);
+    mlError.upstream = true;
+    throw mlError;
+  }
+}
+
+// Ask the ML API to drop the index of a PDF. Resolves false when the ML API
+// does not support deleting indexes (404/405/501), so the caller can still clean up locally.
+async function deletePDFFromMLAPI(pdf_id) {
+  try {
+    logger.info('Deleting ML API index', { pdf_id });
+    
+    await mlClient.request('delete', () => ({
+      method: 'delete',
+      path: '/hackrx/documents/' + encodeURIComponent(pdf_id),
+      headers: {
+        'Accept': 'application/json'
+      }
+    }));
+    
+    return true;
+  } catch (error) {
+    if (error.upstream) {
+      throw error;
+    }
+    const status = error.response?.status;
+    if (status === 404 || status === 405 || status === 501) {
+      logger.info('ML API does not support deleting indexes', { pdf_id, status });
+      return false;
+    }
+    logger.error('ML API delete failed', { status: error.response?.status, reply: error.response?.data, error });
+    const mlError = new Error(`ML API delete failed: ${error.response?.data?.error || error.message}`);
+    mlError.upstream = true;
+    throw mlError;
+  }
+}
+
+// Stream an answer from the ML API, calling onToken for every piece of text.
+// Falls back to chunking the complete answer when the upstream does not stream.
+// Resolves with the complete answer and any source passages.
+async function streamPDFQueryFromMLAPI(pdf_id, question, onToken, signal, cachedPDF, history) {
+  try {
+    if (!pdf_id || !question) {
+      throw new Error('PDF ID and question are required for ML API query');
+    }
+    
+    logger.info('Streaming from ML API', { pdf_id, question: logger.redact(question) });
+    
+    const response = await mlClient.request('stream', () => {
+      const formData = new FormData();
+      formData.append('pdf_id', pdf_id);
+      formData.append('question', question);
+      formData.append('stream', 'true');
+      if (history && history.length > 0) {
+        formData.append('history', JSON.stringify(history));
+      }
+      return {
+        method: 'post',
+        path: '/hackrx/query',
+        data: formData,
+        headers: {
+          ...formData.getHeaders(),
+          'Accept': 'text/event-stream, application/json'
+        },
+        responseType: 'stream',
+        signal
+      };
     });
     
-    console.log('📥 ML API Query Response Status:', response.status);
-    console.log('📥 ML API Query Response Data:', JSON.stringify(response.data, null, 2));
+    const contentType = response.headers['content-type'] || '';
+    const documentInfo = { pdf_id, filename: cachedPDF && cachedPDF.originalFilename };
+    
+    if (contentType.includes('text/event-stream')) {
+      let answer = '';
+      let sources = [];
+      let buffer = '';
+      
+      const handleEvent = event => {
+        const data = event
+          .split(/\r?\n/)
+          .filter(line => line.startsWith('data:'))
+          .map(line => line.slice(5).replace(/^ /, ''))
+          .join('\n');
+        
+        if (!data || data === '[DONE]') return;
+        
+        const { token, payload } = parseStreamEvent(data);
+        if (token) {
+          answer += token;
+          onToken(token);
+        }
+        const eventSources = extractSources(payload, documentInfo);
+        if (eventSources.length > 0) {
+          sources = eventSources;
+        }
+      };
+      
+      for await (const chunk of response.data) {
+        buffer += chunk.toString('utf8');
+        const events = buffer.split(/\r?\n\r?\n/);
+        buffer = events.pop();
+        events.forEach(handleEvent);
+      }
+      // The last event may end with the stream instead of a blank line
+      if (buffer.trim()) {
+        handleEvent(buffer);
+      }
+      
+      return { answer, sources };
+    }
+    
+    // Upstream answered in one piece: read it fully and emit it in chunks
+    let body = '';
+    for await (const chunk of response.data) {
+      body += chunk.toString('utf8');
+    }
+    
+    let mlResponse;
+    try {
+      mlResponse = JSON.parse(body);
+    } catch (parseError) {
+      mlResponse = body;
+    }
     
-    return response.data;
+    const { answer, payload } = parseUpstreamReply(mlQueryReplySchema, mlResponse, 'query');
+    chunkAnswer(answer).forEach(onToken);
+    
+    return { answer, sources: extractSources(payload, documentInfo) };
   } catch (error) {
-    console.error('ML API Query Error:', error.response?.data || error.message);
-    throw new Error(`ML API query failed: ${error.response?.data?.error || error.message}`);
+    if (axios.isCancel(error) || error.upstream) {
+      throw error;
+    }
+    logger.error('ML API streaming query failed', { status: error.response?.status, error });
+    const mlError = new Error(`ML API query failed: ${error.message}`);
+    mlError.upstream = true;
+    throw mlError;
   }
 }
 
+// Parse one upstream stream event: its text ({ token }, { delta }, { text } or plain text)
+// and the JSON payload, which may carry sources on the final event
+function parseStreamEvent(data) {
+  try {
+    const parsed = JSON.parse(data);
+    if (typeof parsed === 'string') return { token: parsed, payload: null };
+    return { token: parsed.token ?? parsed.delta ?? parsed.text ?? '', payload: parsed };
+  } catch (parseError) {
+    return { token: data, payload: null };
+  }
+}
+
+// Split a complete answer into word-sized chunks, keeping the whitespace
+function chunkAnswer(answer) {
+  return String(answer).match(/\S+\s*|\s+/g) || [];
+}
+
 // ML API integration function
 async function callMLAPI(questions, fileInfo = null) {
   try {
@@ -431,45 +1815,30 @@ async function callMLAPI(questions, fileInfo = null) {
       throw new Error('No valid questions provided');
     }
     
-    console.log(`📤 Calling ML API with file: ${fileInfo.originalName}, questions: ${validQuestions.length}`);
-    console.log('Questions:', validQuestions);
-    console.log('ML API URL:', process.env.ML_API_URL);
+    logger.info('Calling ML API for analysis', { filename: fileInfo.originalName, questions: logger.redact(validQuestions) });
     
-    const response = await axios.post(process.env.ML_API_URL, formData, {
+    const response = await mlClient.request('analyze', () => ({
+      method: 'post',
+      path: ML_ANALYZE_PATH,
+      data: formData,
       headers: {
         ...formData.getHeaders(),
         'Accept': 'application/json'
-      },
-      timeout: 60000 // 60 second timeout for large files
-    });
+      }
+    }));
     
-    console.log('📥 ML API Response Status:', response.status);
-    console.log('📥 ML API Response Data:', JSON.stringify(response.data, null, 2));
+    logger.debug('ML API analysis reply', { status: response.status, data: response.data });
     
-    return response.data;
+    return parseUpstreamReply(mlRunReplySchema, response.data, 'analysis');
   } catch (error) {
-    console.error('ML API Error:', error.response?.data || error.message);
-    throw new Error(`ML API request failed: ${error.response?.data?.error || error.message}`);
-  }
-}
-
-// Legacy support function for backward compatibility
-async function simulateMLAPI(text, question, fileInfo = null) {
-  // Convert to new format and call ML API
-  const questions = [];
-  if (question) questions.push(question);
-  if (text && !question) questions.push(text);
-  
-  // ML API requires both file and questions
-  if (!fileInfo) {
-    throw new Error('File is required. Please upload a document to analyze.');
-  }
-  
-  if (questions.length === 0) {
-    throw new Error('At least one question is required for analysis.');
+    if (error.upstream) {
+      throw error;
+    }
+    logger.error('ML API analysis failed', { status: error.response?.status, reply: error.response?.data, error });
+    const mlError = new Error(`ML API request failed: ${error.response?.data?.error || error.message}`);
+    mlError.upstream = true;
+    throw mlError;
   }
-  
-  return await callMLAPI(questions, fileInfo);
 }
 
 // Generate conversation ID
@@ -479,33 +1848,124 @@ function generateConversationId() {
 
 // Error handling middleware
 app.use((error, req, res, next) => {
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ error: 'Request body is not valid JSON', code: 'invalid_request' });
+  }
   if (error instanceof multer.MulterError) {
     if (error.code === 'LIMIT_FILE_SIZE') {
       return res.status(400).json({ error: 'File too large' });
     }
   }
+  logger.error('Unhandled error', { error });
   res.status(500).json({ error: error.message });
 });
 
-const ML_API_URL = process.env.ML_API_URL || "https://your-ml-service.onrender.com";
+// Delete temporary files, skipping empty entries and files that are already gone
+function removeFiles(filePaths) {
+  filePaths.forEach(filePath => {
+    if (filePath && fs.existsSync(filePath)) {
+      try {
+        fs.unlinkSync(filePath);
+      } catch (cleanupError) {
+        logger.warn('Failed to clean up file', { path: filePath, error: cleanupError });
+      }
+    }
+  });
+}
 
-function pingHealth() {
-  axios.get(`${ML_API_URL}/health`)
-    .then(res => console.log(`[ML_API Keepalive] Health check: ${res.status}`))
-    .catch(err => console.error("[ML_API Keepalive] Health check failed:", err.message));
+// Forget files stored through /api/upload once they expire
+function cleanupExpiredAnalysisFiles() {
+  const now = new Date().toISOString();
+  analysisFiles.forEach((stored, file_id) => {
+    if (stored.expiresAt <= now) {
+      removeFiles([stored.fileInfo.path]);
+      analysisFiles.delete(file_id);
+    }
+  });
 }
 
-// call every 10 minutes
-setInterval(pingHealth, 10 * 60 * 1000);
+// Delete the stored files of [pdf_id, record] pairs removed from the registry
+function removeDocumentFiles(entries) {
+  entries.forEach(([pdf_id, record]) => {
+    const filePath = record.fileInfo && record.fileInfo.path;
+    if (filePath && fs.existsSync(filePath)) {
+      try {
+        fs.unlinkSync(filePath);
+      } catch (cleanupError) {
+        logger.warn('Failed to clean up file of PDF', { pdf_id, error: cleanupError });
+      }
+    }
+  });
+}
 
-// run once at startup
-pingHealth();
+// Remove expired documents from the registry together with their stored files
+function cleanupExpiredDocuments() {
+  const expired = pdfCache.purgeExpired();
+  removeDocumentFiles(expired);
+  if (expired.length > 0) {
+    logger.info('Removed expired documents', { pdf_ids: expired.map(([pdf_id]) => pdf_id) });
+  }
+}
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`Server is running on port ${PORT}`);
-  console.log(`Health check: http://localhost:${PORT}/api/health`);
-  keepAlive();
-});
+// Reload the registry and clean up whatever expired while the server was down
+removeDocumentFiles(pdfCache.load());
+logger.info('Loaded document registry', { documents: pdfCache.size, path: DOCUMENT_REGISTRY_PATH });
+logger.info('Loaded user accounts', { users: users.load(), path: USER_STORE_PATH });
+
+// Periodic cleanup of expired documents, conversations, rate limit counters and analysis files
+function startCleanupJobs() {
+  if (DOCUMENT_TTL_HOURS > 0) {
+    setInterval(cleanupExpiredDocuments, DOCUMENT_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  }
+  
+  if (CHAT_HISTORY_TTL_MINUTES > 0) {
+    setInterval(() => {
+      chatHistory.purgeExpired();
+      documentQAHistory.purgeExpired();
+    }, DOCUMENT_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  }
+  
+  setInterval(() => {
+    [...requestLimiters, uploadQuota, questionQuota].forEach(limiter => limiter.purgeExpired());
+  }, DOCUMENT_CLEANUP_INTERVAL_MINUTES * 60 * 1000);
+  
+  setInterval(cleanupExpiredAnalysisFiles, 5 * 60 * 1000);
+}
+
+logger.info('Chat provider selected', { provider: chatProvider.name });
+
+// Log every keepalive ping and each change of the ML API's status
+let lastMLStatus = null;
+function logHealthCheck(health) {
+  if (health.status === 'ok') {
+    logger.info('ML API health check ok', { latency_ms: health.latency_ms });
+  } else {
+    logger.warn('ML API health check failed', { status: health.status, error: health.error });
+  }
+  if (lastMLStatus && health.status !== lastMLStatus) {
+    logger.info('ML API status changed', { from: lastMLStatus, to: health.status });
+  }
+  lastMLStatus = health.status;
+}
+
+// Start the server when run directly; the integration tests require the app without listening
+if (require.main === module) {
+  startCleanupJobs();
+  
+  if (process.env.ML_API_URL) {
+    // run once at startup, then every ML_HEALTH_INTERVAL_SECONDS (more often while the ML API is down)
+    mlClient.startHealthChecks({
+      intervalMs: ML_HEALTH_INTERVAL_SECONDS * 1000,
+      retryIntervalMs: ML_HEALTH_RETRY_SECONDS * 1000,
+      onCheck: logHealthCheck
+    });
+  } else {
+    logger.warn('ML_API_URL is not set, so uploads and questions will fail. Run "npm run mock-ml" for a local ML API.');
+  }
+  
+  app.listen(PORT, () => {
+    logger.info('Server is running', { port: Number(PORT), health_check: `http://localhost:${PORT}/api/health` });
+  });
+}
 
 module.exports = app;
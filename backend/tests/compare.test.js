@@ -0,0 +1,25 @@
+const { compareAnswers } = require("../utils/compare");
+
+describe("compareAnswers", () => {
+  test("treats answers differing only in case, punctuation and citations as identical", () => {
+    expect(compareAnswers("The waiting period is 36 months [1].", "the waiting period is 36 months"))
+      .toEqual({ identical: true, similarity: 1 });
+  });
+
+  test("keeps decimal points, so different amounts differ", () => {
+    const result = compareAnswers("The deductible is 2.5%.", "The deductible is 25%.");
+
+    expect(result.identical).toBe(false);
+    expect(result.similarity).toBe(0.6);
+  });
+
+  test("scores the word overlap of different answers", () => {
+    expect(compareAnswers("Dental is covered", "Dental is excluded")).toEqual({ identical: false, similarity: 0.5 });
+    expect(compareAnswers("Covered", "Excluded")).toEqual({ identical: false, similarity: 0 });
+  });
+
+  test("treats two empty or missing answers as identical and one empty answer as different", () => {
+    expect(compareAnswers("", undefined)).toEqual({ identical: true, similarity: 1 });
+    expect(compareAnswers("Covered", "")).toEqual({ identical: false, similarity: 0 });
+  });
+});
@@ -0,0 +1,96 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const ExcelJS = require("exceljs");
+const JSZip = require("jszip");
+const { convertToPDF, findFormat } = require("../utils/documentConverter");
+const { extractPageTexts } = require("../mock-ml/retrieval");
+
+let workDir;
+
+beforeAll(() => {
+  workDir = fs.mkdtempSync(path.join(os.tmpdir(), "legalease-convert-"));
+});
+
+afterAll(() => {
+  fs.rmSync(workDir, { recursive: true, force: true });
+});
+
+// Write `content` to the work directory and convert it, returning the text of each page of the PDF
+async function convert(originalName, content) {
+  const filePath = path.join(workDir, `${Date.now()}-${originalName}`);
+  fs.writeFileSync(filePath, content);
+  const pdf = await convertToPDF({ originalName, path: filePath });
+  return { pdf, pages: await extractPageTexts(fs.readFileSync(pdf.path)) };
+}
+
+// The smallest DOCX mammoth reads: one paragraph per line
+function buildDocx(lines) {
+  const zip = new JSZip();
+  zip.file("[Content_Types].xml", '<?xml version="1.0"?><Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>');
+  zip.file("_rels/.rels", '<?xml version="1.0"?><Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>');
+  const paragraphs = lines.map(line => `<w:p><w:r><w:t>${line}</w:t></w:r></w:p>`).join("");
+  zip.file("word/document.xml", `<?xml version="1.0"?><w:document xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:body>${paragraphs}</w:body></w:document>`);
+  return zip.generateAsync({ type: "nodebuffer" });
+}
+
+describe("findFormat", () => {
+  test("matches by extension regardless of case", () => {
+    expect(findFormat("Policy.DOCX")).toMatchObject({ extension: ".docx", converted: true });
+    expect(findFormat("scan.png")).toMatchObject({ ocr: true });
+  });
+
+  test("returns undefined for unsupported or missing names", () => {
+    expect(findFormat("notes.odt")).toBeUndefined();
+    expect(findFormat(undefined)).toBeUndefined();
+  });
+});
+
+describe("convertToPDF", () => {
+  test("converts a text file and names the PDF after the original", async () => {
+    const { pdf, pages } = await convert("notes.txt", "Clause 1. Notice period is 30 days.");
+
+    expect(pdf).toMatchObject({ originalName: "notes.pdf", mimetype: "application/pdf" });
+    expect(pages[0]).toContain("Notice period is 30 days.");
+  });
+
+  test("keeps non-Latin text of a DOCX", async () => {
+    const { pages } = await convert("contract.docx", await buildDocx(["Срок уведомления 30 дней", "Προθεσμία ειδοποίησης"]));
+
+    expect(pages[0]).toContain("Срок уведомления 30 дней");
+    expect(pages[0]).toContain("Προθεσμία ειδοποίησης");
+  });
+
+  test("puts every sheet of a workbook on its own page", async () => {
+    const workbook = new ExcelJS.Workbook();
+    workbook.addWorksheet("Premiums").addRow(["Plan", "Premium"]);
+    workbook.addWorksheet("Limits").addRow(["Dental", "Não coberto"]);
+
+    const { pages } = await convert("rates.xlsx", await workbook.xlsx.writeBuffer());
+
+    expect(pages).toHaveLength(2);
+    expect(pages[0]).toContain("Sheet: Premiums");
+    expect(pages[1]).toContain("Dental | Não coberto");
+  });
+
+  test("warns about characters the font cannot render", async () => {
+    const lines = [];
+    const spy = jest.spyOn(console, "error").mockImplementation(line => lines.push(JSON.parse(line)));
+    try {
+      await convert("hindi.txt", "Notice: सूचना");
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(lines.find(entry => entry.msg.includes("cannot render"))).toMatchObject({ level: "warn", filename: "hindi.txt", count: 5 });
+  });
+
+  test("rejects unsupported formats", async () => {
+    await expect(convertToPDF({ originalName: "notes.odt", path: path.join(workDir, "notes.odt") }))
+      .rejects.toThrow("Cannot convert notes.odt to PDF");
+  });
+
+  test("rejects files without text", async () => {
+    await expect(convert("empty.txt", "  \n ")).rejects.toThrow("No text could be extracted from empty.txt");
+  });
+});
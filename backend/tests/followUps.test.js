@@ -0,0 +1,76 @@
+const { createQuestionRewriter, isFollowUpQuestion } = require("../utils/followUps");
+
+const turn = (question, standalone_question, answer = "An answer.") => ({ question, standalone_question, answer });
+
+describe("isFollowUpQuestion", () => {
+  test.each([
+    "And for dependents?",
+    "What about maternity?",
+    "Is it covered?",
+    "does that include dental"
+  ])("treats %p as a follow-up", question => {
+    expect(isFollowUpQuestion(question)).toBe(true);
+  });
+
+  test.each([
+    "What is the waiting period for pre-existing diseases?",
+    "Who are the parties to this agreement and what are their obligations under it?",
+    ""
+  ])("treats %p as standalone", question => {
+    expect(isFollowUpQuestion(question)).toBe(false);
+  });
+});
+
+describe("heuristic rewriter", () => {
+  const rewriter = createQuestionRewriter();
+
+  test("leaves the first question of a conversation unchanged", async () => {
+    expect(await rewriter.rewrite("And for dependents?", [])).toBe("And for dependents?");
+  });
+
+  test("leaves standalone questions unchanged", async () => {
+    const question = "What is the notice period for termination?";
+    expect(await rewriter.rewrite(question, [turn("What is the sum insured?")])).toBe(question);
+  });
+
+  test("grafts an opener follow-up onto the previous question", async () => {
+    const rewritten = await rewriter.rewrite("What about dependents?", [turn("What is the waiting period for maternity?")]);
+
+    expect(rewritten).toBe("What is the waiting period for maternity, dependents?");
+  });
+
+  test("adds the previous question as context to a pronoun follow-up", async () => {
+    const rewritten = await rewriter.rewrite("Is it covered?", [turn("What does the policy say about dental treatment?")]);
+
+    expect(rewritten).toBe("Is it covered? (regarding: What does the policy say about dental treatment)");
+  });
+
+  test("anchors follow-ups of follow-ups on the last standalone question", async () => {
+    const turns = [
+      turn("What is the waiting period for maternity?"),
+      turn("And for dependents?", "What is the waiting period for maternity, for dependents?")
+    ];
+
+    expect(await rewriter.rewrite("Also newborns?", turns)).toBe("What is the waiting period for maternity, newborns?");
+  });
+});
+
+describe("LLM rewriter", () => {
+  const turns = [turn("What is the waiting period for maternity?", undefined, "Nine months.")];
+
+  test("uses the first line of the provider's reply without quotes", async () => {
+    const llmProvider = { reply: jest.fn().mockResolvedValue("\"What is the waiting period for dependents?\"\nExtra text") };
+    const rewriter = createQuestionRewriter({ llmProvider });
+
+    expect(await rewriter.rewrite("And dependents?", turns)).toBe("What is the waiting period for dependents?");
+    expect(llmProvider.reply.mock.calls[0][0][1].content).toContain("A: Nine months.");
+  });
+
+  test("falls back to the heuristic when the provider fails or replies empty", async () => {
+    const failing = createQuestionRewriter({ llmProvider: { reply: jest.fn().mockRejectedValue(new Error("down")) } });
+    const empty = createQuestionRewriter({ llmProvider: { reply: jest.fn().mockResolvedValue("") } });
+
+    expect(await failing.rewrite("And dependents?", turns)).toBe("What is the waiting period for maternity, dependents?");
+    expect(await empty.rewrite("And dependents?", turns)).toBe("What is the waiting period for maternity, dependents?");
+  });
+});
@@ -0,0 +1,19 @@
+const { once } = require("events");
+const { createMockMLServer } = require("../../mock-ml/server");
+
+const servers = [];
+
+// Start `app` (the mock ML API by default) on a free port and return its base URL
+async function startMockML(options, app = createMockMLServer(options)) {
+  const server = app.listen(0, "127.0.0.1");
+  await once(server, "listening");
+  servers.push(server);
+  return `http://127.0.0.1:${server.address().port}`;
+}
+
+// Close every server started by startMockML, for afterAll
+function stopMockMLServers() {
+  return Promise.all(servers.splice(0).map(server => new Promise(resolve => server.close(resolve))));
+}
+
+module.exports = { startMockML, stopMockMLServers };
@@ -0,0 +1,316 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const express = require("express");
+const request = require("supertest");
+const PDFDocument = require("pdfkit");
+const { createMockMLServer } = require("../mock-ml/server");
+const { startMockML, stopMockMLServers } = require("./helpers/mockML");
+
+// The server reads its configuration when it is required, so point it at throwaway stores first
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "legalease-test-"));
+process.env.DOCUMENT_REGISTRY_PATH = path.join(dataDir, "documents.json");
+process.env.USER_STORE_PATH = path.join(dataDir, "users.json");
+process.env.JWT_SECRET = "integration-test-secret";
+process.env.ML_RETRIES = "0";
+process.env.RATE_LIMIT_PER_IP = "0";
+process.env.RATE_LIMIT_PER_USER = "0";
+process.env.CHAT_PROVIDER = "echo";
+
+const app = require("../server");
+
+// A two-page policy whose clauses the questions below refer to
+function buildPolicyPdf(title) {
+  return new Promise(resolve => {
+    const doc = new PDFDocument();
+    const chunks = [];
+    doc.on("data", chunk => chunks.push(chunk));
+    doc.on("end", () => resolve(Buffer.concat(chunks)));
+    doc.text(title);
+    doc.text("Clause 1. The policy covers hospitalisation expenses up to the sum insured.");
+    doc.text("Clause 2. Pre-existing diseases are covered after a waiting period of 36 months.");
+    doc.addPage();
+    doc.text("Clause 7. Either party may terminate this agreement with 30 days written notice.");
+    doc.end();
+  });
+}
+
+let token;
+let healthyML;
+const uploadedIds = new Set();
+
+const upload = (pdf, filename = "policy.pdf") => request(app)
+  .post("/hackrx/upload")
+  .set("Authorization", `Bearer ${token}`)
+  .attach("file", pdf, filename);
+
+const query = (pdf_id, question) => request(app)
+  .post("/hackrx/query")
+  .set("Authorization", `Bearer ${token}`)
+  .send({ pdf_id, question });
+
+beforeAll(async () => {
+  healthyML = await startMockML();
+  process.env.ML_API_URL = healthyML;
+
+  const response = await request(app)
+    .post("/api/auth/register")
+    .send({ username: "integration", password: "integration-password" });
+  token = response.body.access_token;
+});
+
+beforeEach(() => {
+  process.env.ML_API_URL = healthyML;
+});
+
+afterAll(async () => {
+  // Deleting through the API also removes the stored uploads
+  process.env.ML_API_URL = healthyML;
+  for (const pdf_id of uploadedIds) {
+    await request(app).delete(`/hackrx/documents/${pdf_id}`).set("Authorization", `Bearer ${token}`);
+  }
+  await stopMockMLServers();
+  fs.rmSync(dataDir, { recursive: true, force: true });
+});
+
+describe("health", () => {
+  test("reports the ML API's status and latency", async () => {
+    const response = await request(app).get("/api/health");
+
+    expect(response.status).toBe(200);
+    expect(response.body.ml).toMatchObject({ status: "ok", circuit: "closed", latency_ms: expect.any(Number) });
+  });
+});
+
+describe("registration", () => {
+  test("registers only one of two concurrent requests for the same username", async () => {
+    const register = () => request(app)
+      .post("/api/auth/register")
+      .send({ username: "concurrent", password: "concurrent-password" });
+    const responses = await Promise.all([register(), register()]);
+
+    expect(responses.map(response => response.status).sort()).toEqual([201, 409]);
+  });
+});
+
+describe("upload", () => {
+  test("indexes a PDF and returns the ML API's pdf_id", async () => {
+    const response = await upload(await buildPolicyPdf("Upload policy"));
+
+    expect(response.status).toBe(200);
+    expect(response.body.pdf_id).toMatch(/^mock-[0-9a-f]{16}$/);
+    uploadedIds.add(response.body.pdf_id);
+
+    const documents = await request(app).get("/hackrx/documents").set("Authorization", `Bearer ${token}`);
+    expect(documents.body.documents.map(document => document.pdf_id)).toContain(response.body.pdf_id);
+  });
+
+  test("reuses the index when the same content is uploaded again", async () => {
+    const pdf = await buildPolicyPdf("Reused policy");
+    const first = await upload(pdf);
+    const second = await upload(pdf, "copy.pdf");
+    uploadedIds.add(first.body.pdf_id);
+
+    expect(second.status).toBe(200);
+    expect(second.body).toMatchObject({ pdf_id: first.body.pdf_id, reused: true });
+  });
+
+  test("rejects a request without a file", async () => {
+    const response = await request(app).post("/hackrx/upload").set("Authorization", `Bearer ${token}`);
+
+    expect(response.status).toBe(400);
+  });
+});
+
+describe("query", () => {
+  let pdf_id;
+
+  beforeAll(async () => {
+    process.env.ML_API_URL = healthyML;
+    pdf_id = (await upload(await buildPolicyPdf("Query policy"))).body.pdf_id;
+    uploadedIds.add(pdf_id);
+  });
+
+  test("answers from the matching passage with its page as source", async () => {
+    const response = await query(pdf_id, "How long is the waiting period for pre-existing diseases?");
+
+    expect(response.status).toBe(200);
+    expect(response.body.answer.answer).toContain("waiting period of 36 months");
+    expect(response.body.answer.sources[0]).toMatchObject({ page: 1, pdf_id, filename: "policy.pdf" });
+  });
+
+  test("finds passages on later pages", async () => {
+    const response = await query(pdf_id, "How much notice is needed to terminate the agreement?");
+
+    expect(response.status).toBe(200);
+    expect(response.body.answer.answer).toContain("30 days written notice");
+    expect(response.body.answer.sources[0].page).toBe(2);
+  });
+
+  test("gives the same answer to the same question", async () => {
+    const question = "What expenses does the policy cover?";
+    const [first, second] = [await query(pdf_id, question), await query(pdf_id, question)];
+
+    expect(first.body.answer.answer).toBe(second.body.answer.answer);
+  });
+
+  test("returns 404 for an unknown pdf_id", async () => {
+    const response = await query("mock-0000000000000000", "What is the waiting period?");
+
+    expect(response.status).toBe(404);
+    expect(response.body.error).toMatch(/not found/);
+  });
+
+  test("returns 400 without a question", async () => {
+    const response = await query(pdf_id, "  ");
+
+    expect(response.status).toBe(400);
+    expect(response.body.code).toBe("invalid_request");
+  });
+});
+
+describe("request tracing", () => {
+  let pdf_id;
+
+  beforeAll(async () => {
+    process.env.ML_API_URL = healthyML;
+    pdf_id = (await upload(await buildPolicyPdf("Traced policy"))).body.pdf_id;
+    uploadedIds.add(pdf_id);
+  });
+
+  test("returns a request id and reuses one sent by the client", async () => {
+    const generated = await request(app).get("/api/health");
+    const forwarded = await request(app).get("/api/health").set("X-Request-Id", "proxy-1234");
+
+    expect(generated.headers["x-request-id"]).toMatch(/^[0-9a-f-]{36}$/);
+    expect(forwarded.headers["x-request-id"]).toBe("proxy-1234");
+  });
+
+  test("passes the request id on to the ML API", async () => {
+    const seen = [];
+    const tracingML = express();
+    tracingML.use((req, res, next) => {
+      seen.push(req.get("X-Request-Id"));
+      next();
+    });
+    tracingML.use(createMockMLServer());
+    process.env.ML_API_URL = await startMockML({}, tracingML);
+
+    const response = await query(pdf_id, "What is the waiting period?").set("X-Request-Id", "trace-5678");
+
+    expect(response.headers["x-request-id"]).toBe("trace-5678");
+    expect(seen).toContain("trace-5678");
+  });
+
+  test("logs questions redacted with the request id", async () => {
+    const lines = [];
+    const spy = jest.spyOn(console, "log").mockImplementation(line => lines.push(line));
+    try {
+      await query(pdf_id, "Is dental treatment covered?").set("X-Request-Id", "redact-1");
+    } finally {
+      spy.mockRestore();
+    }
+
+    const entries = lines.map(line => JSON.parse(line)).filter(entry => entry.request_id === "redact-1");
+    expect(entries.find(entry => entry.msg === "Querying PDFs").question).toBe("[redacted 28 chars]");
+    expect(entries.find(entry => entry.msg === "Request completed")).toMatchObject({ status: 200, path: "/hackrx/query" });
+    expect(lines.join("\n")).not.toContain("dental");
+  });
+});
+
+describe("streaming", () => {
+  let pdf_id;
+
+  beforeAll(async () => {
+    process.env.ML_API_URL = healthyML;
+    pdf_id = (await upload(await buildPolicyPdf("Streamed policy"))).body.pdf_id;
+    uploadedIds.add(pdf_id);
+  });
+
+  test("relays the last upstream event when the stream ends without a blank line", async () => {
+    const streamingML = express();
+    streamingML.post("/hackrx/query", (req, res) => {
+      res.set("Content-Type", "text/event-stream");
+      res.end('data: {"token":"Thirty "}\n\ndata: {"token":"days."}');
+    });
+    process.env.ML_API_URL = await startMockML({}, streamingML);
+
+    const response = await request(app)
+      .post("/api/chat/stream")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ message: "What is the notice period?", pdf_ids: [pdf_id] });
+
+    const doneEvent = response.text.split("\n\n").find(event => event.startsWith("event: done"));
+    expect(JSON.parse(doneEvent.split("data: ")[1]).answer).toBe("Thirty days.");
+  });
+});
+
+describe("upstream errors", () => {
+  let pdf_id;
+
+  beforeAll(async () => {
+    process.env.ML_API_URL = healthyML;
+    pdf_id = (await upload(await buildPolicyPdf("Upstream policy"))).body.pdf_id;
+    uploadedIds.add(pdf_id);
+  });
+
+  test("upload answers 502 when the ML API fails", async () => {
+    process.env.ML_API_URL = await startMockML({ failureRate: 1, failureStatus: 503 });
+    const response = await upload(await buildPolicyPdf("Failed upload"));
+
+    expect(response.status).toBe(502);
+    expect(response.body.code).toBe("upstream_error");
+    expect(response.body.error).toMatch(/Injected failure/);
+  });
+
+  test("upload answers 502 with issues when the ML API reply is malformed", async () => {
+    process.env.ML_API_URL = await startMockML({ failureRate: 1, failureMode: "malformed" });
+    const response = await upload(await buildPolicyPdf("Malformed upload"));
+
+    expect(response.status).toBe(502);
+    expect(response.body.code).toBe("upstream_error");
+    expect(response.body.issues[0].path).toBe("pdf_id");
+  });
+
+  test("query answers 502 when the ML API fails", async () => {
+    process.env.ML_API_URL = await startMockML({ failureRate: 1, failRoutes: ["/hackrx/query"], failureStatus: 500 });
+    const response = await query(pdf_id, "What is the waiting period?");
+
+    expect(response.status).toBe(502);
+    expect(response.body.code).toBe("upstream_error");
+  });
+
+  test("query answers 502 when the ML API drops the connection", async () => {
+    process.env.ML_API_URL = await startMockML({ failureRate: 1, failureMode: "disconnect" });
+    const response = await query(pdf_id, "What is the waiting period?");
+
+    expect(response.status).toBe(502);
+    expect(response.body.code).toBe("upstream_error");
+  });
+
+  test("query answers 502 when the ML API lost the index", async () => {
+    process.env.ML_API_URL = await startMockML();
+    const response = await query(pdf_id, "What is the waiting period?");
+
+    expect(response.status).toBe(502);
+    expect(response.body.error).toMatch(/Unknown pdf_id/);
+  });
+
+  test("chat stream reports the error code when the ML API stops mid-request", async () => {
+    const stoppingML = express();
+    stoppingML.post("/hackrx/query", req => {
+      const server = req.socket.server;
+      server.closeAllConnections();
+      server.close();
+    });
+    process.env.ML_API_URL = await startMockML({}, stoppingML);
+
+    const response = await request(app)
+      .post("/api/chat/stream")
+      .set("Authorization", `Bearer ${token}`)
+      .send({ message: "What is the waiting period?", pdf_ids: [pdf_id] });
+
+    const errorEvent = response.text.split("\n\n").find(event => event.startsWith("event: error"));
+    expect(JSON.parse(errorEvent.split("data: ")[1])).toMatchObject({ code: "upstream_error", status: 502 });
+  });
+});
@@ -0,0 +1,116 @@
+const fs = require("fs");
+const os = require("os");
+const path = require("path");
+const { loadChecklist, reviewDocument } = require("../utils/legalReview");
+
+const checklist = {
+  version: "test",
+  not_found_patterns: ["\\bnot found\\b", "\\bno (such )?clause\\b"],
+  items: [
+    {
+      id: "termination",
+      title: "Termination",
+      question: "Quote the termination clause.",
+      missing_risk: "high",
+      red_flags: [
+        { pattern: "without cause", risk: "medium", reason: "Termination without cause is allowed" },
+        { pattern: "\\bimmediate(ly)?\\b", risk: "high", reason: "Termination can take effect immediately" }
+      ]
+    },
+    { id: "governing_law", title: "Governing law", question: "Quote the governing law clause.", missing_risk: "low", found_risk: "low" }
+  ]
+};
+
+// Review `checklist` with a fixed answer per question
+const review = (answers, list = checklist) => reviewDocument({
+  checklist: list,
+  ask: async question => {
+    const answer = answers[question];
+    if (answer instanceof Error) throw answer;
+    return { answer, sources: [] };
+  }
+});
+
+describe("reviewDocument", () => {
+  test("marks a clause found with the risk of its worst red flag", async () => {
+    const { clauses } = await review({
+      "Quote the termination clause.": "Either party may terminate without cause, effective immediately.",
+      "Quote the governing law clause.": "This agreement is governed by the laws of India."
+    });
+
+    expect(clauses[0]).toMatchObject({
+      status: "found",
+      risk: "high",
+      risk_reasons: ["Termination without cause is allowed", "Termination can take effect immediately"]
+    });
+    expect(clauses[1]).toMatchObject({ status: "found", risk: "low", risk_reasons: [] });
+  });
+
+  test("marks a clause missing when the answer opens with not-found wording or is empty", async () => {
+    const { clauses, summary } = await review({
+      "Quote the termination clause.": "NOT FOUND. The document only covers payment terms.",
+      "Quote the governing law clause.": "  "
+    });
+
+    expect(clauses[0]).toMatchObject({ status: "missing", risk: "high", risk_reasons: ["No termination clause found"] });
+    expect(clauses[1]).toMatchObject({ status: "missing", risk: "low" });
+    expect(summary).toEqual({ found: 0, missing: 2, errors: 0, overall_risk: "high" });
+  });
+
+  test("only checks the opening sentence for not-found wording", async () => {
+    const { clauses } = await review({
+      "Quote the termination clause.": "Clause 9 allows termination on 30 days notice. A breach not found within a year is waived.",
+      "Quote the governing law clause.": "Indian law applies."
+    });
+
+    expect(clauses[0].status).toBe("found");
+  });
+
+  test("reports failed questions as errors without an overall risk", async () => {
+    const { clauses, summary } = await review({
+      "Quote the termination clause.": new Error("ML API query failed"),
+      "Quote the governing law clause.": new Error("ML API query failed")
+    });
+
+    expect(clauses[0]).toMatchObject({ status: "error", risk: null, error: "ML API query failed" });
+    expect(summary).toEqual({ found: 0, missing: 0, errors: 2, overall_risk: null });
+  });
+});
+
+describe("loadChecklist", () => {
+  let workDir;
+
+  beforeAll(() => {
+    workDir = fs.mkdtempSync(path.join(os.tmpdir(), "legalease-checklist-"));
+  });
+
+  afterAll(() => {
+    fs.rmSync(workDir, { recursive: true, force: true });
+  });
+
+  const writeChecklist = (content) => {
+    const filePath = path.join(workDir, `checklist-${Math.random().toString(36).slice(2)}.json`);
+    fs.writeFileSync(filePath, typeof content === "string" ? content : JSON.stringify(content));
+    return filePath;
+  };
+
+  test("loads the checklist shipped with the server", () => {
+    const shipped = loadChecklist(path.join(__dirname, "../config/legal-checklist.json"));
+
+    expect(shipped.items.length).toBeGreaterThan(0);
+  });
+
+  test.each([
+    ["an empty item list", { items: [] }, /items must be a non-empty array/],
+    ["a missing question", { items: [{ id: "a", title: "A", missing_risk: "low" }] }, /items\[0\]\.question is required/],
+    ["an unknown risk", { items: [{ id: "a", title: "A", question: "Q?", missing_risk: "severe" }] }, /items\[0\]\.missing_risk must be one of/],
+    ["a duplicated id", { items: [checklist.items[1], checklist.items[1]] }, /items\[1\]\.id "governing_law" is duplicated/],
+    ["an invalid pattern", { not_found_patterns: ["("], items: checklist.items }, /not_found_patterns\[0\] is not a valid regular expression/]
+  ])("rejects %s", (description, content, message) => {
+    expect(() => loadChecklist(writeChecklist(content))).toThrow(message);
+  });
+
+  test("rejects a file that is not JSON", () => {
+    expect(() => loadChecklist(writeChecklist("{ items"))).toThrow(/Cannot read legal checklist/);
+  });
+});
@@ -0,0 +1,132 @@
+const { createMLClient } = require("../utils/mlClient");
+const { startMockML, stopMockMLServers } = require("./helpers/mockML");
+
+// Fail the first `count` requests, then succeed (failureRate 0.5 fails while random() returns 0)
+const failFirst = count => {
+  let calls = 0;
+  return () => (calls++ < count ? 0 : 1);
+};
+
+const deleteDocument = () => ({ method: "delete", path: "/hackrx/documents/unknown" });
+const runAnalysis = () => ({ method: "post", path: "/hackrx/run" });
+
+afterAll(stopMockMLServers);
+
+describe("retries", () => {
+  test("retries idempotent operations after transient failures", async () => {
+    const baseUrl = await startMockML({ failureRate: 0.5, random: failFirst(2) });
+    const onRetry = jest.fn();
+    const client = createMLClient({ baseUrl, retries: 2, baseDelayMs: 1, onRetry });
+
+    // The mock answers 404 for an unknown document once it stops failing
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(onRetry).toHaveBeenCalledTimes(2);
+    expect(onRetry.mock.calls[0][0]).toBe("delete");
+  });
+
+  test("does not retry other operations", async () => {
+    const baseUrl = await startMockML({ failureRate: 0.5, random: failFirst(1) });
+    const onRetry = jest.fn();
+    const client = createMLClient({ baseUrl, retries: 2, baseDelayMs: 1, onRetry });
+
+    await expect(client.request("analyze", runAnalysis)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(onRetry).not.toHaveBeenCalled();
+  });
+
+  test("applies the operation's timeout", async () => {
+    const baseUrl = await startMockML({ latencyMs: 200 });
+    const client = createMLClient({ baseUrl, retries: 0, timeouts: { delete: 50 } });
+
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ code: "ECONNABORTED" });
+  });
+});
+
+describe("circuit breaker", () => {
+  test("fails fast while open and closes after a successful call", async () => {
+    let time = 0;
+    const failing = await startMockML({ failureRate: 1 });
+    const healthy = await startMockML();
+    let baseUrl = failing;
+    const client = createMLClient({
+      baseUrl: () => baseUrl,
+      retries: 0,
+      failureThreshold: 2,
+      cooldownMs: 30000,
+      now: () => time
+    });
+
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 503 } });
+    expect(client.getHealth().circuit).toBe("open");
+
+    baseUrl = healthy;
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({
+      code: "ml_unavailable",
+      status: 503,
+      retryAfter: 30
+    });
+
+    time = 30000;
+    expect(client.getHealth().circuit).toBe("half_open");
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(client.getHealth().circuit).toBe("closed");
+  });
+
+  test("lets a single trial call through while half-open", async () => {
+    let time = 0;
+    let baseUrl = await startMockML({ failureRate: 1 });
+    const client = createMLClient({ baseUrl: () => baseUrl, retries: 0, failureThreshold: 1, cooldownMs: 1000, now: () => time });
+
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 503 } });
+    baseUrl = await startMockML({ latencyMs: 50 });
+    time = 1000;
+
+    const trial = client.request("delete", deleteDocument);
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ code: "ml_unavailable" });
+    await expect(trial).rejects.toMatchObject({ response: { status: 404 } });
+    expect(client.getHealth().circuit).toBe("closed");
+  });
+
+  test("does not count client errors as failures", async () => {
+    const baseUrl = await startMockML();
+    const client = createMLClient({ baseUrl, retries: 0, failureThreshold: 1 });
+
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(client.getHealth().circuit).toBe("closed");
+  });
+});
+
+describe("health", () => {
+  test("reports ok with the ping latency", async () => {
+    const client = createMLClient({ baseUrl: await startMockML({ latencyMs: 20 }) });
+
+    expect(client.getHealth().status).toBe("unknown");
+    const health = await client.checkHealth();
+
+    expect(health).toMatchObject({ status: "ok", circuit: "closed" });
+    expect(health.latency_ms).toBeGreaterThanOrEqual(15);
+    expect(health.checked_at).toEqual(expect.any(String));
+  });
+
+  test("reports warming up, then unavailable while pings keep failing", async () => {
+    let time = 0;
+    const baseUrl = await startMockML({ failureRate: 1, failRoutes: ["/health"] });
+    const client = createMLClient({ baseUrl, warmupMs: 60000, now: () => time });
+
+    expect((await client.checkHealth()).status).toBe("warming_up");
+    time = 59000;
+    expect((await client.checkHealth()).status).toBe("warming_up");
+    time = 60000;
+    const health = await client.checkHealth();
+
+    expect(health.status).toBe("unavailable");
+    expect(health.error).toBe("Health check returned 503");
+  });
+
+  test("reports not_configured without a base URL", async () => {
+    const client = createMLClient({ baseUrl: () => undefined });
+
+    expect((await client.checkHealth()).status).toBe("not_configured");
+    await expect(client.request("delete", deleteDocument)).rejects.toMatchObject({ code: "ml_unavailable" });
+  });
+});
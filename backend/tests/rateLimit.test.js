@@ -0,0 +1,60 @@
+const express = require("express");
+const request = require("supertest");
+const { createLimiter, rateLimit } = require("../utils/rateLimit");
+
+// An app whose single route costs `questions` from the daily quota and answers 404 for ?missing
+function quotaApp(quota, perUser) {
+  const app = express();
+  app.use((req, res, next) => {
+    req.user = { id: "user-1" };
+    next();
+  });
+  app.post("/ask", rateLimit([perUser, quota].filter(Boolean), req => Number(req.query.questions || 1)), (req, res) => {
+    if (req.query.missing) {
+      return res.status(404).json({ error: "not found" });
+    }
+    res.json({ ok: true });
+  });
+  return app;
+}
+
+const dailyQuota = max => createLimiter({ name: "daily-questions", max, daily: true, weighted: true, key: req => req.user.id, message: () => "quota" });
+
+describe("rateLimit", () => {
+  test("answers 429 with retry_after once the quota is used up", async () => {
+    const app = quotaApp(dailyQuota(3));
+
+    expect((await request(app).post("/ask?questions=2")).status).toBe(200);
+    const blocked = await request(app).post("/ask?questions=2");
+
+    expect(blocked.status).toBe(429);
+    expect(blocked.body).toMatchObject({ code: "rate_limited", limit: "daily-questions", retry_after: expect.any(Number) });
+    expect(blocked.headers["retry-after"]).toBe(String(blocked.body.retry_after));
+  });
+
+  test("rejects a single request heavier than the whole quota", async () => {
+    const app = quotaApp(dailyQuota(3));
+
+    const response = await request(app).post("/ask?questions=4");
+
+    expect(response.status).toBe(400);
+    expect(response.body).toMatchObject({ code: "limit_exceeded", limit: "daily-questions" });
+    expect((await request(app).post("/ask?questions=3")).status).toBe(200);
+  });
+
+  test("refunds the daily quota for requests the route rejects", async () => {
+    const app = quotaApp(dailyQuota(2));
+
+    expect((await request(app).post("/ask?questions=2&missing=1")).status).toBe(404);
+    expect((await request(app).post("/ask?questions=2&missing=1")).status).toBe(404);
+    expect((await request(app).post("/ask?questions=2")).status).toBe(200);
+  });
+
+  test("still counts rejected requests against per-window limits", async () => {
+    const perUser = createLimiter({ name: "user", max: 1, windowMs: 60000, key: req => req.user.id, message: () => "slow down" });
+    const app = quotaApp(dailyQuota(10), perUser);
+
+    expect((await request(app).post("/ask?missing=1")).status).toBe(404);
+    expect((await request(app).post("/ask")).status).toBe(429);
+  });
+});
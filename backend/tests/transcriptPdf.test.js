@@ -0,0 +1,52 @@
+const { PassThrough } = require("stream");
+const { writeTranscriptPdf } = require("../utils/transcriptPdf");
+const { extractPageTexts } = require("../mock-ml/retrieval");
+
+// Render a transcript and return the text of its pages
+async function renderTranscript(transcript) {
+  const output = new PassThrough();
+  const chunks = [];
+  output.on("data", chunk => chunks.push(chunk));
+  const finished = new Promise(resolve => output.on("end", resolve));
+  writeTranscriptPdf(transcript, output);
+  await finished;
+  return (await extractPageTexts(Buffer.concat(chunks))).join("\n");
+}
+
+const transcript = (messages, title = "Policy questions") => ({
+  title,
+  exported_at: "2025-09-19T09:13:00.000Z",
+  documents: [{ name: "Полис.pdf", pdf_id: "mock-1" }],
+  messages
+});
+
+describe("writeTranscriptPdf", () => {
+  test("keeps non-Latin text in messages, citations and document names", async () => {
+    const text = await renderTranscript(transcript([
+      { role: "user", content: "Каков срок ожидания?", timestamp: "2025-09-19T09:13:00.000Z" },
+      {
+        role: "assistant",
+        content: "Ο χρόνος αναμονής είναι 36 μήνες.",
+        timestamp: "2025-09-19T09:13:05.000Z",
+        citations: [{ number: 1, document: "Полис.pdf", page: 2, text: "36 месяцев" }]
+      }
+    ]));
+
+    expect(text).toContain("Каков срок ожидания?");
+    expect(text).toContain("Ο χρόνος αναμονής είναι 36 μήνες.");
+    expect(text).toContain("36 месяцев");
+    expect(text).toContain("Полис.pdf");
+  });
+
+  test("warns about characters the font cannot render", async () => {
+    const lines = [];
+    const spy = jest.spyOn(console, "error").mockImplementation(line => lines.push(JSON.parse(line)));
+    try {
+      await renderTranscript(transcript([{ role: "user", content: "सूचना", timestamp: "2025-09-19T09:13:00.000Z" }]));
+    } finally {
+      spy.mockRestore();
+    }
+
+    expect(lines.find(entry => entry.msg.includes("cannot render"))).toMatchObject({ level: "warn", count: 5 });
+  });
+});
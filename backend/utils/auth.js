@@ -0,0 +1,59 @@
+const crypto = require("crypto");
+const jwt = require("jsonwebtoken");
+const { logger } = require("./logger");
+
+/**
+ * JWT authentication. Access tokens are short-lived and sent as
+ * `Authorization: Bearer <token>`; refresh tokens carry the user's
+ * tokenVersion so they stop working once the user logs out.
+ */
+function createAuth({ users, secret, accessTokenTtlSeconds = 900, refreshTokenTtlSeconds = 7 * 24 * 3600 }) {
+  const signingSecret = secret || crypto.randomBytes(32).toString("hex");
+  if (!secret) {
+    logger.warn("JWT_SECRET is not set; using a random secret, so tokens will not survive a restart");
+  }
+
+  const verify = (token, type) => {
+    try {
+      const payload = jwt.verify(token, signingSecret);
+      return payload.type === type ? payload : null;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  return {
+    issueTokens(user) {
+      return {
+        access_token: jwt.sign({ sub: user.id, type: "access" }, signingSecret, { expiresIn: accessTokenTtlSeconds }),
+        refresh_token: jwt.sign({ sub: user.id, type: "refresh", ver: user.tokenVersion }, signingSecret, {
+          expiresIn: refreshTokenTtlSeconds,
+        }),
+        token_type: "Bearer",
+        expires_in: accessTokenTtlSeconds,
+      };
+    },
+
+    // The user a refresh token belongs to, or null when it is invalid, expired or revoked
+    userFromRefreshToken(token) {
+      const payload = verify(token, "refresh");
+      const user = payload && users.get(payload.sub);
+      return user && user.tokenVersion === payload.ver ? user : null;
+    },
+
+    // Express middleware: sets req.user or answers 401
+    requireAuth(req, res, next) {
+      const [scheme, token] = (req.get("Authorization") || "").split(" ");
+      const payload = scheme === "Bearer" && token ? verify(token, "access") : null;
+      const user = payload && users.get(payload.sub);
+
+      if (!user) {
+        return res.status(401).json({ error: "Authentication required. Please log in." });
+      }
+      req.user = user;
+      next();
+    },
+  };
+}
+
+module.exports = { createAuth };
@@ -0,0 +1,55 @@
+/**
+ * In-memory chat history keyed by conversation_id. Each conversation keeps
+ * its last `maxMessages` messages ({ role, content, timestamp }) and is
+ * dropped after `ttlMs` without activity (0 keeps conversations forever).
+ */
+function createChatHistoryStore({ maxMessages = 20, ttlMs = 0 } = {}) {
+  const conversations = new Map();
+
+  const isExpired = (conversation, now = Date.now()) => ttlMs > 0 && conversation.updatedAt + ttlMs <= now;
+
+  return {
+    // Messages of a conversation, oldest first (empty when unknown or expired)
+    get(conversationId) {
+      const conversation = conversations.get(conversationId);
+      if (!conversation || isExpired(conversation)) {
+        conversations.delete(conversationId);
+        return [];
+      }
+      return [...conversation.messages];
+    },
+
+    append(conversationId, ...messages) {
+      const history = this.get(conversationId);
+      const timestamp = new Date().toISOString();
+      history.push(...messages.map((message) => ({ timestamp, ...message })));
+      conversations.set(conversationId, {
+        messages: history.slice(-maxMessages),
+        updatedAt: Date.now(),
+      });
+    },
+
+    delete(conversationId) {
+      return conversations.delete(conversationId);
+    },
+
+    get size() {
+      return conversations.size;
+    },
+
+    // Drop idle conversations; returns how many were removed
+    purgeExpired() {
+      const now = Date.now();
+      let removed = 0;
+      conversations.forEach((conversation, conversationId) => {
+        if (isExpired(conversation, now)) {
+          conversations.delete(conversationId);
+          removed++;
+        }
+      });
+      return removed;
+    },
+  };
+}
+
+module.exports = { createChatHistoryStore };
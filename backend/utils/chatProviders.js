@@ -0,0 +1,79 @@
+const axios = require("axios");
+
+/**
+ * Chat provider interface used by /api/chat:
+ *   name             -> identifier reported in chat responses
+ *   reply(messages)  -> Promise of the assistant's reply text, where messages
+ *                       is [{ role: "system" | "user" | "assistant", content }]
+ *                       ending with the new user message
+ */
+
+// Deterministic provider for local development and tests: repeats the last user message
+function createEchoProvider() {
+  return {
+    name: "echo",
+    async reply(messages) {
+      const userMessages = messages.filter((message) => message.role === "user");
+      const lastMessage = userMessages[userMessages.length - 1];
+      return `Echo: ${lastMessage ? lastMessage.content : ""} (message ${userMessages.length} in this conversation)`;
+    },
+  };
+}
+
+// Extract the reply from OpenAI-compatible, Ollama-style or plain { response } payloads
+function extractReply(data) {
+  const reply =
+    data?.choices?.[0]?.message?.content ?? data?.message?.content ?? data?.response ?? data?.reply;
+  if (typeof reply !== "string") {
+    throw new Error("LLM endpoint returned no reply text");
+  }
+  return reply.trim();
+}
+
+// Forwards the conversation to an HTTP LLM endpoint (OpenAI-compatible chat completions by default)
+function createLLMProvider({ url, apiKey, model, timeoutMs = 60000 }) {
+  return {
+    name: "llm",
+    async reply(messages) {
+      try {
+        const response = await axios.post(
+          url,
+          { model, messages: messages.map(({ role, content }) => ({ role, content })) },
+          {
+            headers: {
+              "Content-Type": "application/json",
+              ...(apiKey && { Authorization: `Bearer ${apiKey}` }),
+            },
+            timeout: timeoutMs,
+          }
+        );
+        return extractReply(response.data);
+      } catch (error) {
+        const detail = error.response?.data?.error?.message || error.response?.data?.error || error.message;
+        throw new Error(`LLM chat request failed: ${detail}`);
+      }
+    },
+  };
+}
+
+/**
+ * Build the provider selected by `provider` ("echo" or "llm"). Without an
+ * explicit choice the LLM provider is used when an endpoint is configured.
+ */
+function createChatProvider({ provider, llmUrl, apiKey, model, timeoutMs }) {
+  const name = provider || (llmUrl ? "llm" : "echo");
+
+  switch (name) {
+    case "echo":
+      return createEchoProvider();
+    case "llm":
+      if (!llmUrl) {
+        throw new Error("CHAT_LLM_URL is required for the llm chat provider");
+      }
+      return createLLMProvider({ url: llmUrl, apiKey, model, timeoutMs });
+    default:
+      throw new Error(`Unknown chat provider "${name}" (expected "echo" or "llm")`);
+  }
+}
+
+module.exports = { createChatProvider, createEchoProvider, createLLMProvider };
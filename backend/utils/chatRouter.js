@@ -0,0 +1,24 @@
+// Messages that are conversation rather than questions about a document
+const SMALL_TALK_PATTERNS = [
+  /^(hi|hello|hey|hiya|good (morning|afternoon|evening))\b/i,
+  /^(thanks|thank you|thx|cheers|great|ok(ay)?|cool|nice|perfect)\b[\s!.]*$/i,
+  /^(bye|goodbye|see you)\b/i,
+  /\b(who|what) are you\b/i,
+  /\bwhat can you do\b/i,
+  /^help[\s!?.]*$/i,
+];
+
+/**
+ * Decide how /api/chat answers a message: "document" sends it to document QA
+ * for the active documents, "chat" to the chat provider. Without active
+ * documents everything is chat; with them, only small talk stays in chat.
+ */
+function routeChatMessage(message, { hasDocuments }) {
+  if (!hasDocuments) {
+    return "chat";
+  }
+  const text = message.trim();
+  return SMALL_TALK_PATTERNS.some((pattern) => pattern.test(text)) ? "chat" : "document";
+}
+
+module.exports = { routeChatMessage };
@@ -0,0 +1,30 @@
+// Normalize an answer for comparison: drop citation markers, case, punctuation and extra whitespace
+const normalizeAnswer = (text) =>
+  (text || "")
+    .replace(/\[\d+\]/g, " ")
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}%$€£.\s]/gu, " ")
+    .replace(/\.(?!\d)/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+
+/**
+ * Compare the answers two documents gave to the same question. `identical`
+ * ignores citation markers, case and punctuation; `similarity` is the Jaccard
+ * overlap of the answers' words (0-1) so clients can rank how far they drifted.
+ */
+function compareAnswers(left, right) {
+  const a = normalizeAnswer(left);
+  const b = normalizeAnswer(right);
+  if (a === b) {
+    return { identical: true, similarity: 1 };
+  }
+
+  const wordsA = new Set(a.split(" ").filter(Boolean));
+  const wordsB = new Set(b.split(" ").filter(Boolean));
+  const shared = [...wordsA].filter((word) => wordsB.has(word)).length;
+  const union = new Set([...wordsA, ...wordsB]).size;
+  return { identical: false, similarity: union > 0 ? Math.round((shared / union) * 100) / 100 : 0 };
+}
+
+module.exports = { compareAnswers };
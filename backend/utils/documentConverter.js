@@ -0,0 +1,172 @@
+const fs = require("fs");
+const path = require("path");
+const mammoth = require("mammoth");
+const ExcelJS = require("exceljs");
+const JSZip = require("jszip");
+const PDFDocument = require("pdfkit");
+const { pdfFonts, warnUnsupportedCharacters } = require("./pdfFonts");
+
+/**
+ * Upload formats the server accepts. Everything other than PDF is converted
+ * to a PDF locally before it is sent to the ML API; `ocr` formats are images
+ * that go through utils/ocr instead of a text extractor. The list is served
+ * from GET /hackrx/upload/formats so the frontend validates against the same data.
+ */
+const SUPPORTED_FORMATS = [
+  { extension: ".pdf", label: "PDF", mimetypes: ["application/pdf"], converted: false },
+  { extension: ".jpg", label: "JPEG image", mimetypes: ["image/jpeg"], converted: true, ocr: true },
+  { extension: ".jpeg", label: "JPEG image", mimetypes: ["image/jpeg"], converted: true, ocr: true },
+  { extension: ".png", label: "PNG image", mimetypes: ["image/png"], converted: true, ocr: true },
+  {
+    extension: ".docx",
+    label: "Word",
+    mimetypes: ["application/vnd.openxmlformats-officedocument.wordprocessingml.document"],
+    converted: true,
+  },
+  { extension: ".txt", label: "Text", mimetypes: ["text/plain"], converted: true },
+  {
+    extension: ".xlsx",
+    label: "Excel",
+    mimetypes: ["application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"],
+    converted: true,
+  },
+  {
+    extension: ".pptx",
+    label: "PowerPoint",
+    mimetypes: ["application/vnd.openxmlformats-officedocument.presentationml.presentation"],
+    converted: true,
+  },
+];
+
+// Match by extension; browsers often send an empty or generic mimetype for Office files
+function findFormat(filename) {
+  const extension = path.extname(filename || "").toLowerCase();
+  return SUPPORTED_FORMATS.find((format) => format.extension === extension);
+}
+
+const decodeXmlEntities = (text) =>
+  text
+    .replace(/&#x([0-9a-f]+);/gi, (match, hex) => String.fromCodePoint(parseInt(hex, 16)))
+    .replace(/&#(\d+);/g, (match, dec) => String.fromCodePoint(Number(dec)))
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, "&");
+
+/*
+ * Text extractors. Each returns sections of { title?, text }; every section
+ * starts on a new PDF page so sheet and slide numbers stay recognisable.
+ */
+async function extractText(filePath) {
+  return [{ text: await fs.promises.readFile(filePath, "utf8") }];
+}
+
+async function extractDocx(filePath) {
+  const result = await mammoth.extractRawText({ path: filePath });
+  return [{ text: result.value }];
+}
+
+async function extractXlsx(filePath) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.readFile(filePath);
+
+  const sections = [];
+  workbook.eachSheet((worksheet) => {
+    const lines = [];
+    worksheet.eachRow((row) => {
+      const cells = [];
+      row.eachCell({ includeEmpty: true }, (cell) => cells.push(cell.text));
+      if (cells.some((cell) => cell.trim())) {
+        lines.push(cells.join(" | "));
+      }
+    });
+    sections.push({ title: `Sheet: ${worksheet.name}`, text: lines.join("\n") });
+  });
+  return sections;
+}
+
+async function extractPptx(filePath) {
+  const zip = await JSZip.loadAsync(await fs.promises.readFile(filePath));
+  const slideNumber = (name) => Number(name.match(/slide(\d+)\.xml$/)[1]);
+  const slideFiles = Object.keys(zip.files)
+    .filter((name) => /^ppt\/slides\/slide\d+\.xml$/.test(name))
+    .sort((a, b) => slideNumber(a) - slideNumber(b));
+
+  return Promise.all(
+    slideFiles.map(async (name) => {
+      const xml = await zip.file(name).async("string");
+      // One line per <a:p> paragraph, made of its <a:t> text runs
+      const paragraphs = xml
+        .split("</a:p>")
+        .map((paragraph) => [...paragraph.matchAll(/<a:t>([^<]*)<\/a:t>/g)].map((match) => match[1]).join(""))
+        .filter((line) => line.trim())
+        .map(decodeXmlEntities);
+      return { title: `Slide ${slideNumber(name)}`, text: paragraphs.join("\n") };
+    })
+  );
+}
+
+const EXTRACTORS = {
+  ".txt": extractText,
+  ".docx": extractDocx,
+  ".xlsx": extractXlsx,
+  ".pptx": extractPptx,
+};
+
+function writePdf(sections, outputPath, fonts) {
+  return new Promise((resolve, reject) => {
+    const doc = new PDFDocument({ margin: 50 });
+    const output = fs.createWriteStream(outputPath);
+    output.on("finish", resolve);
+    output.on("error", reject);
+    doc.pipe(output);
+
+    sections.forEach((section, index) => {
+      if (index > 0) doc.addPage();
+      if (section.title) {
+        doc.font(fonts.bold).fontSize(14).text(section.title).moveDown(0.5);
+      }
+      doc.font(fonts.regular).fontSize(11).text(section.text.trim() || "(empty)");
+    });
+    doc.end();
+  });
+}
+
+/**
+ * Convert an uploaded non-PDF file into a PDF next to it and return the
+ * fileInfo of the new PDF. The original file is left for the caller to remove.
+ */
+async function convertToPDF(fileInfo) {
+  const format = findFormat(fileInfo.originalName);
+  const extract = format && EXTRACTORS[format.extension];
+  if (!extract) {
+    throw new Error(`Cannot convert ${fileInfo.originalName} to PDF`);
+  }
+
+  const sections = await extract(fileInfo.path);
+  if (!sections.some((section) => section.text.trim())) {
+    throw new Error(`No text could be extracted from ${fileInfo.originalName}`);
+  }
+
+  const parsedPath = path.parse(fileInfo.path);
+  const pdfPath = path.join(parsedPath.dir, `${parsedPath.name}.pdf`);
+  const fonts = pdfFonts();
+  warnUnsupportedCharacters(
+    sections.flatMap((section) => [section.title, section.text]),
+    fonts,
+    "Converted PDF is missing characters its font cannot render",
+    { filename: fileInfo.originalName }
+  );
+  await writePdf(sections, pdfPath, fonts);
+
+  return {
+    filename: path.basename(pdfPath),
+    originalName: `${path.parse(fileInfo.originalName).name}.pdf`,
+    mimetype: "application/pdf",
+    size: fs.statSync(pdfPath).size,
+    path: pdfPath,
+  };
+}
+
+module.exports = { SUPPORTED_FORMATS, findFormat, convertToPDF };
@@ -0,0 +1,117 @@
+const fs = require("fs");
+const path = require("path");
+const { logger } = require("./logger");
+
+/**
+ * Storage interface used by the document registry (and the user store):
+ *   load()        -> array of [id, record] pairs persisted earlier
+ *   save(entries) -> persist the full array of [id, record] pairs
+ *
+ * createJsonFileStore is the default implementation, keeping the entries
+ * under `key` in a JSON file; another backend (e.g. SQLite) only has to
+ * provide the same two methods.
+ */
+function createJsonFileStore(filePath, key = "documents") {
+  return {
+    load() {
+      if (!fs.existsSync(filePath)) {
+        return [];
+      }
+      const data = JSON.parse(fs.readFileSync(filePath, "utf8"));
+      return Array.isArray(data[key]) ? data[key] : [];
+    },
+
+    save(entries) {
+      fs.mkdirSync(path.dirname(filePath), { recursive: true });
+      // Write to a temp file first so a crash never leaves a truncated registry
+      const tempPath = `${filePath}.tmp`;
+      fs.writeFileSync(tempPath, JSON.stringify({ [key]: entries }, null, 2));
+      fs.renameSync(tempPath, filePath);
+    },
+  };
+}
+
+/**
+ * Registry of indexed documents keyed by pdf_id, with a Map-like API.
+ * Records are persisted through `store` on every change and expire
+ * `ttlMs` after they were indexed (0 disables expiry).
+ */
+function createDocumentRegistry({ store, ttlMs = 0 }) {
+  const documents = new Map();
+
+  const isExpired = (record, now = Date.now()) =>
+    ttlMs > 0 && new Date(record.indexedAt).getTime() + ttlMs <= now;
+
+  const persist = () => {
+    try {
+      store.save([...documents.entries()]);
+    } catch (error) {
+      logger.error("Failed to persist document registry", { error });
+    }
+  };
+
+  return {
+    // Load persisted records, dropping any that expired while the server was down
+    load() {
+      let entries = [];
+      try {
+        entries = store.load();
+      } catch (error) {
+        logger.error("Failed to load document registry", { error });
+      }
+      documents.clear();
+      entries.forEach(([pdf_id, record]) => documents.set(pdf_id, record));
+      return this.purgeExpired();
+    },
+
+    has(pdf_id) {
+      return this.get(pdf_id) !== undefined;
+    },
+
+    get(pdf_id) {
+      const record = documents.get(pdf_id);
+      return record && !isExpired(record) ? record : undefined;
+    },
+
+    set(pdf_id, record) {
+      documents.set(pdf_id, record);
+      persist();
+      return this;
+    },
+
+    delete(pdf_id) {
+      const deleted = documents.delete(pdf_id);
+      if (deleted) persist();
+      return deleted;
+    },
+
+    // Live (non-expired) [pdf_id, record] pairs
+    entries() {
+      return [...documents.entries()].filter(([, record]) => !isExpired(record));
+    },
+
+    // Live [pdf_id, record] pair whose file content hash matches, if any
+    findByHash(contentHash) {
+      return this.entries().find(([, record]) => record.contentHash === contentHash);
+    },
+
+    get size() {
+      return this.entries().length;
+    },
+
+    expiresAt(record) {
+      return ttlMs > 0 ? new Date(new Date(record.indexedAt).getTime() + ttlMs).toISOString() : null;
+    },
+
+    // Remove expired records and return them so callers can clean up their files
+    purgeExpired() {
+      const now = Date.now();
+      const expired = [...documents.entries()].filter(([, record]) => isExpired(record, now));
+      expired.forEach(([pdf_id]) => documents.delete(pdf_id));
+      if (expired.length > 0) persist();
+      return expired;
+    },
+  };
+}
+
+module.exports = { createDocumentRegistry, createJsonFileStore };
@@ -0,0 +1,15 @@
+const crypto = require("crypto");
+const fs = require("fs");
+
+// SHA-256 of a file's contents, streamed so large uploads are not buffered in memory
+function hashFile(filePath) {
+  return new Promise((resolve, reject) => {
+    const hash = crypto.createHash("sha256");
+    fs.createReadStream(filePath)
+      .on("data", (chunk) => hash.update(chunk))
+      .on("end", () => resolve(hash.digest("hex")))
+      .on("error", reject);
+  });
+}
+
+module.exports = hashFile;
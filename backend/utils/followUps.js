@@ -0,0 +1,74 @@
+const { logger } = require("./logger");
+
+// Openers and references that only make sense after an earlier question
+const FOLLOW_UP_OPENERS = /^(and|also|but|so|what about|how about|and what about|what if|same for|is that|does that|does it|is it|are they|do they)\b/i;
+const CONTEXT_REFERENCES = /\b(it|its|that|this|those|these|they|them|their|there|the same|above|previous)\b/i;
+
+function isFollowUpQuestion(question) {
+  const text = question.trim();
+  return FOLLOW_UP_OPENERS.test(text) || (text.split(/\s+/).length <= 6 && CONTEXT_REFERENCES.test(text));
+}
+
+// Deterministic rewrite: graft the follow-up onto the previous standalone question
+function rewriteWithHeuristic(question, previousQuestion) {
+  const text = question.trim().replace(/[?.!\s]+$/, "");
+  const previous = previousQuestion.trim().replace(/[?.!\s]+$/, "");
+
+  const opener = text.match(/^(and what about|what about|how about|and|also|same for)\s+/i);
+  if (opener) {
+    return `${previous}, ${text.slice(opener[0].length)}?`;
+  }
+  return `${text}? (regarding: ${previous})`;
+}
+
+/**
+ * Rewrites follow-up questions into standalone ones using the earlier turns
+ * ({ question, standalone_question, answer }) of the same conversation and PDF.
+ * With an LLM chat provider the rewrite is delegated to it; otherwise (or if
+ * it fails) a deterministic heuristic is used for questions that look like follow-ups.
+ */
+function createQuestionRewriter({ llmProvider = null } = {}) {
+  const rewriteWithLLM = async (question, turns) => {
+    const transcript = turns
+      .map((turn) => `Q: ${turn.standalone_question || turn.question}\nA: ${turn.answer}`)
+      .join("\n\n");
+    const reply = await llmProvider.reply([
+      {
+        role: "system",
+        content:
+          "Rewrite the user's follow-up question into a single standalone question that can be understood without the conversation. " +
+          "If it is already standalone, return it unchanged. Reply with the question only.",
+      },
+      { role: "user", content: `Conversation:\n${transcript}\n\nFollow-up question: ${question}` },
+    ]);
+    return reply.split("\n")[0].replace(/^["']|["']$/g, "").trim();
+  };
+
+  return {
+    async rewrite(question, turns) {
+      if (turns.length === 0) {
+        return question;
+      }
+
+      if (llmProvider) {
+        try {
+          const rewritten = await rewriteWithLLM(question, turns);
+          if (rewritten) return rewritten;
+        } catch (error) {
+          logger.warn("Follow-up rewrite via LLM failed, using heuristic", { error });
+        }
+      }
+
+      if (!isFollowUpQuestion(question)) {
+        return question;
+      }
+      // Anchor on the latest question that was asked standalone so follow-ups of follow-ups don't pile up
+      const anchor =
+        [...turns].reverse().find((turn) => !turn.standalone_question || turn.standalone_question === turn.question) ||
+        turns[turns.length - 1];
+      return rewriteWithHeuristic(question, anchor.standalone_question || anchor.question);
+    },
+  };
+}
+
+module.exports = { createQuestionRewriter, isFollowUpQuestion };
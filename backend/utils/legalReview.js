@@ -0,0 +1,107 @@
+const fs = require("fs");
+const { mapWithConcurrency } = require("./concurrency");
+
+const RISK_LEVELS = ["low", "medium", "high"];
+
+const higherRisk = (a, b) => (RISK_LEVELS.indexOf(b) > RISK_LEVELS.indexOf(a) ? b : a);
+
+/**
+ * Load and validate the legal review checklist. The file is maintained by
+ * hand, so problems are reported with the offending item rather than failing
+ * later during a review:
+ *   { version, not_found_patterns: [regex], items: [{ id, title, question,
+ *     missing_risk, found_risk?, red_flags: [{ pattern, risk, reason }] }] }
+ */
+function loadChecklist(filePath) {
+  let checklist;
+  try {
+    checklist = JSON.parse(fs.readFileSync(filePath, "utf8"));
+  } catch (error) {
+    throw new Error(`Cannot read legal checklist ${filePath}: ${error.message}`);
+  }
+
+  const fail = (message) => {
+    throw new Error(`Invalid legal checklist ${filePath}: ${message}`);
+  };
+  const checkRisk = (risk, where) => {
+    if (!RISK_LEVELS.includes(risk)) fail(`${where} must be one of ${RISK_LEVELS.join(", ")}`);
+  };
+  const checkPattern = (pattern, where) => {
+    try {
+      new RegExp(pattern, "i");
+    } catch (error) {
+      fail(`${where} is not a valid regular expression (${error.message})`);
+    }
+  };
+
+  if (!Array.isArray(checklist.items) || checklist.items.length === 0) fail("items must be a non-empty array");
+  (checklist.not_found_patterns || []).forEach((pattern, index) => checkPattern(pattern, `not_found_patterns[${index}]`));
+
+  const ids = new Set();
+  checklist.items.forEach((item, index) => {
+    const where = `items[${index}]`;
+    ["id", "title", "question"].forEach((field) => {
+      if (typeof item[field] !== "string" || !item[field].trim()) fail(`${where}.${field} is required`);
+    });
+    if (ids.has(item.id)) fail(`${where}.id "${item.id}" is duplicated`);
+    ids.add(item.id);
+    checkRisk(item.missing_risk, `${where}.missing_risk`);
+    if (item.found_risk !== undefined) checkRisk(item.found_risk, `${where}.found_risk`);
+    (item.red_flags || []).forEach((flag, flagIndex) => {
+      checkPattern(flag.pattern, `${where}.red_flags[${flagIndex}].pattern`);
+      checkRisk(flag.risk, `${where}.red_flags[${flagIndex}].risk`);
+    });
+  });
+
+  return checklist;
+}
+
+// Decide whether an answer found the clause and how risky it looks.
+// Only the opening sentence is checked for "not found" wording so that quoted
+// clause text ("... does not include ...") is not mistaken for a miss.
+function assessClause(item, answer, notFoundPatterns) {
+  const opening = answer.trim().split(/(?<=[.!?])\s/)[0].slice(0, 200);
+  const missing = !answer.trim() || notFoundPatterns.some((pattern) => new RegExp(pattern, "i").test(opening));
+
+  if (missing) {
+    return { status: "missing", risk: item.missing_risk, risk_reasons: [`No ${item.title.toLowerCase()} clause found`] };
+  }
+
+  const flags = (item.red_flags || []).filter((flag) => new RegExp(flag.pattern, "i").test(answer));
+  return {
+    status: "found",
+    risk: flags.reduce((risk, flag) => higherRisk(risk, flag.risk), item.found_risk || "low"),
+    risk_reasons: flags.map((flag) => flag.reason),
+  };
+}
+
+/**
+ * Run every checklist question through `ask(question)` (resolving to
+ * { answer, sources }) with at most `concurrency` in flight, and build the
+ * report: one entry per clause plus found/missing counts and the overall risk.
+ */
+async function reviewDocument({ checklist, ask, concurrency = 3 }) {
+  const notFoundPatterns = checklist.not_found_patterns || [];
+  const clauses = await mapWithConcurrency(checklist.items, concurrency, async (item) => {
+    const clause = { id: item.id, title: item.title, question: item.question };
+    try {
+      const { answer, sources } = await ask(item.question);
+      return Object.assign(clause, { text: answer, sources }, assessClause(item, answer, notFoundPatterns));
+    } catch (error) {
+      return Object.assign(clause, { status: "error", risk: null, risk_reasons: [], error: error.message });
+    }
+  });
+
+  const assessed = clauses.filter((clause) => clause.status !== "error");
+  return {
+    summary: {
+      found: clauses.filter((clause) => clause.status === "found").length,
+      missing: clauses.filter((clause) => clause.status === "missing").length,
+      errors: clauses.length - assessed.length,
+      overall_risk: assessed.length > 0 ? assessed.reduce((risk, clause) => higherRisk(risk, clause.risk), "low") : null,
+    },
+    clauses,
+  };
+}
+
+module.exports = { RISK_LEVELS, loadChecklist, reviewDocument };
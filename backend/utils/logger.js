@@ -0,0 +1,113 @@
+const crypto = require("crypto");
+const { AsyncLocalStorage } = require("async_hooks");
+
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Request context ({ requestId }) of the code currently running, set by requestLogger()
+const requestContext = new AsyncLocalStorage();
+
+// Incoming X-Request-Id values are reused when they look like an id, so a proxy's id carries through
+const REQUEST_ID_PATTERN = /^[\w.:-]{1,128}$/;
+
+// LOG_LEVEL is read on every call because dotenv is loaded after this module
+const currentLevel = () => {
+  const level = (process.env.LOG_LEVEL || "info").toLowerCase();
+  return LEVELS[level] ? level : "info";
+};
+
+const isDebug = () => currentLevel() === "debug";
+
+const getRequestId = () => requestContext.getStore()?.requestId;
+
+// Error objects are not JSON-serialisable, so keep their message (and stack when debugging)
+const serialise = (fields) => {
+  const entry = {};
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value instanceof Error) {
+      entry[key] = isDebug() ? { message: value.message, stack: value.stack } : value.message;
+    } else if (value !== undefined) {
+      entry[key] = value;
+    }
+  });
+  return entry;
+};
+
+/**
+ * Write one JSON line { time, level, msg, request_id?, ...fields } when
+ * `level` is at or above LOG_LEVEL (debug, info, warn, error; default info).
+ * The request id of the request being handled is added automatically.
+ * debug and info go to stdout, warn and error to stderr.
+ */
+function log(level, msg, fields = {}) {
+  if (LEVELS[level] < LEVELS[currentLevel()]) {
+    return;
+  }
+
+  const requestId = getRequestId();
+  const line = JSON.stringify({
+    time: new Date().toISOString(),
+    level,
+    msg,
+    ...(requestId && { request_id: requestId }),
+    ...serialise(fields)
+  });
+  if (LEVELS[level] >= LEVELS.warn) {
+    console.error(line);
+  } else {
+    console.log(line);
+  }
+}
+
+// User-provided content such as questions and chat messages, kept in full only when LOG_LEVEL=debug
+function redact(text) {
+  if (isDebug() || text === undefined || text === null) {
+    return text;
+  }
+  const value = Array.isArray(text) ? text.join(" ") : String(text);
+  return `[redacted ${value.length} chars]`;
+}
+
+/**
+ * Express middleware giving every request a correlation id: the incoming
+ * X-Request-Id header when valid, otherwise a new UUID. The id is sent back
+ * as X-Request-Id, added to every log line written while the request is
+ * handled, and available to other modules through getRequestId(). Each
+ * request is logged once it has finished.
+ */
+function requestLogger() {
+  return (req, res, next) => {
+    const incoming = req.get("X-Request-Id");
+    const requestId = incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : crypto.randomUUID();
+    const startedAt = process.hrtime.bigint();
+
+    req.id = requestId;
+    res.set("X-Request-Id", requestId);
+
+    res.on("finish", () => {
+      const fields = {
+        method: req.method,
+        path: req.originalUrl.split("?")[0],
+        status: res.statusCode,
+        duration_ms: Math.round(Number(process.hrtime.bigint() - startedAt) / 1e6),
+        user_id: req.user?.id
+      };
+      if (isDebug()) {
+        Object.assign(fields, { origin: req.get("Origin"), user_agent: req.get("User-Agent"), content_type: req.get("Content-Type") });
+      }
+      requestContext.run({ requestId }, () => log(res.statusCode >= 500 ? "error" : "info", "Request completed", fields));
+    });
+
+    requestContext.run({ requestId }, next);
+  };
+}
+
+const logger = {
+  debug: (msg, fields) => log("debug", msg, fields),
+  info: (msg, fields) => log("info", msg, fields),
+  warn: (msg, fields) => log("warn", msg, fields),
+  error: (msg, fields) => log("error", msg, fields),
+  isDebug,
+  redact
+};
+
+module.exports = { logger, requestLogger, getRequestId };
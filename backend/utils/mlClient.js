@@ -0,0 +1,215 @@
+const axios = require("axios");
+const { withRetry, isTransientError } = require("./retry");
+
+// Timeouts per operation in milliseconds; "stream" is the time until the answer starts
+const DEFAULT_TIMEOUTS = {
+  health: 10000,
+  upload: 120000,
+  query: 60000,
+  stream: 60000,
+  delete: 30000,
+  analyze: 60000
+};
+
+// Operations that can safely be sent again after a transient failure. Re-uploading
+// a file only rebuilds the same index; streamed and one-shot analysis answers are not retried.
+const IDEMPOTENT_OPERATIONS = new Set(["health", "upload", "query", "delete"]);
+
+/*
+ * Circuit breaker: after `failureThreshold` consecutive transient failures the
+ * circuit opens and calls fail immediately for `cooldownMs`. Afterwards it is
+ * half-open: a single trial call (or health ping) closes it on success and
+ * opens it again on failure; other calls fail until the trial has settled.
+ */
+function createCircuitBreaker({ failureThreshold, cooldownMs, now }) {
+  let failures = 0;
+  let openedAt = null;
+  let trialInFlight = false;
+
+  const state = () => {
+    if (openedAt === null) return "closed";
+    return now() - openedAt < cooldownMs ? "open" : "half_open";
+  };
+
+  return {
+    state,
+    failures: () => failures,
+    retryAfterMs: () => (state() === "open" ? cooldownMs - (now() - openedAt) : 0),
+    // Claim the half-open trial; false while another call is already the trial
+    startTrial() {
+      if (trialInFlight) return false;
+      trialInFlight = true;
+      return true;
+    },
+    endTrial() {
+      trialInFlight = false;
+    },
+    recordSuccess() {
+      failures = 0;
+      openedAt = null;
+    },
+    recordFailure() {
+      failures++;
+      if (openedAt !== null || failures >= failureThreshold) {
+        openedAt = now();
+      }
+    }
+  };
+}
+
+// Error for calls refused without contacting the ML API; sendError() answers it with 503
+function unavailableError(message, retryAfterMs) {
+  const error = new Error(message);
+  error.upstream = true;
+  error.status = 503;
+  error.code = "ml_unavailable";
+  if (retryAfterMs > 0) {
+    error.retryAfter = Math.ceil(retryAfterMs / 1000);
+  }
+  return error;
+}
+
+/**
+ * Client for the ML API. `request(operation, makeConfig)` sends the axios
+ * config returned by `makeConfig()` ({ method, path, data, headers, ... }) to
+ * `baseUrl` with the operation's timeout, retries idempotent operations with
+ * backoff and goes through the circuit breaker. `makeConfig` is called again
+ * for every attempt, so it must rebuild single-use bodies such as form streams.
+ *
+ * The health state comes from `checkHealth()`, run by `startHealthChecks()` as
+ * the keepalive ping: "ok", "warming_up" while checks have failed for less than
+ * `warmupMs` (the service is usually just starting), then "unavailable".
+ * `baseUrl` may be a function so the URL is read when a call is made, and
+ * `headers()` returns extra headers for every call (e.g. a correlation id).
+ */
+function createMLClient({
+  baseUrl,
+  timeouts = {},
+  retries = 2,
+  baseDelayMs = 1000,
+  failureThreshold = 5,
+  cooldownMs = 30000,
+  warmupMs = 120000,
+  headers = () => ({}),
+  onRetry,
+  now = Date.now
+} = {}) {
+  const resolveBaseUrl = typeof baseUrl === "function" ? baseUrl : () => baseUrl;
+  const operationTimeouts = { ...DEFAULT_TIMEOUTS, ...timeouts };
+  const breaker = createCircuitBreaker({ failureThreshold, cooldownMs, now });
+  let health = { status: "unknown", latencyMs: null, checkedAt: null, error: null, failingSince: null };
+
+  // Timeouts, dropped connections and 5xx count against the circuit; any other answer shows the service is up
+  const recordOutcome = (error) => {
+    if (error && isTransientError(error)) {
+      breaker.recordFailure();
+    } else {
+      breaker.recordSuccess();
+    }
+  };
+
+  async function request(operation, makeConfig) {
+    const url = resolveBaseUrl();
+    if (!url) {
+      throw unavailableError("ML API is not configured (ML_API_URL is not set)");
+    }
+    const circuit = breaker.state();
+    if (circuit === "open") {
+      throw unavailableError(
+        `ML API is unavailable after ${breaker.failures()} failed requests, try again shortly`,
+        breaker.retryAfterMs()
+      );
+    }
+    const isTrial = circuit === "half_open";
+    if (isTrial && !breaker.startTrial()) {
+      throw unavailableError("ML API is recovering and a trial request is in progress, try again shortly");
+    }
+
+    try {
+      const response = await withRetry(() => {
+        const { path, ...config } = makeConfig();
+        return axios({
+          ...config,
+          url: url + path,
+          headers: { ...config.headers, ...headers() },
+          timeout: operationTimeouts[operation]
+        });
+      }, {
+        retries: IDEMPOTENT_OPERATIONS.has(operation) ? retries : 0,
+        baseDelayMs,
+        onRetry: onRetry && ((error, attempt, delayMs) => onRetry(operation, error, attempt, delayMs))
+      });
+      recordOutcome(null);
+      return response;
+    } catch (error) {
+      if (!axios.isCancel(error)) {
+        recordOutcome(error);
+      }
+      throw error;
+    } finally {
+      if (isTrial) breaker.endTrial();
+    }
+  }
+
+  // Ping GET /health, update the health state and return getHealth()
+  async function checkHealth() {
+    const url = resolveBaseUrl();
+    const startedAt = now();
+    if (!url) {
+      health = { status: "not_configured", latencyMs: null, checkedAt: startedAt, error: "ML_API_URL is not set", failingSince: null };
+      return getHealth();
+    }
+
+    try {
+      await axios.get(url + "/health", { headers: headers(), timeout: operationTimeouts.health });
+      health = { status: "ok", latencyMs: now() - startedAt, checkedAt: startedAt, error: null, failingSince: null };
+      recordOutcome(null);
+    } catch (error) {
+      const failingSince = health.failingSince ?? startedAt;
+      health = {
+        status: startedAt - failingSince < warmupMs ? "warming_up" : "unavailable",
+        latencyMs: null,
+        checkedAt: startedAt,
+        error: error.response ? `Health check returned ${error.response.status}` : error.message,
+        failingSince
+      };
+      recordOutcome(error);
+    }
+    return getHealth();
+  }
+
+  // Health as reported by GET /api/health; an open circuit overrides a passing ping
+  function getHealth() {
+    const circuit = breaker.state();
+    const retryAfterMs = breaker.retryAfterMs();
+    return {
+      status: health.status === "ok" && circuit === "open" ? "unavailable" : health.status,
+      latency_ms: health.latencyMs,
+      checked_at: health.checkedAt === null ? null : new Date(health.checkedAt).toISOString(),
+      circuit,
+      ...(retryAfterMs > 0 && { retry_after: Math.ceil(retryAfterMs / 1000) }),
+      ...(health.error && { error: health.error })
+    };
+  }
+
+  // Ping every `intervalMs` while healthy and every `retryIntervalMs` otherwise; returns a stop function
+  function startHealthChecks({ intervalMs, retryIntervalMs, onCheck }) {
+    let timer = null;
+    let stopped = false;
+    const run = async () => {
+      const result = await checkHealth();
+      if (stopped) return;
+      if (onCheck) onCheck(result);
+      timer = setTimeout(run, result.status === "ok" ? intervalMs : retryIntervalMs);
+    };
+    run();
+    return () => {
+      stopped = true;
+      clearTimeout(timer);
+    };
+  }
+
+  return { request, checkHealth, getHealth, startHealthChecks };
+}
+
+module.exports = { createMLClient };
@@ -0,0 +1,159 @@
+const fs = require("fs");
+const path = require("path");
+const { PNG } = require("pngjs");
+const { PDFDocument } = require("pdf-lib");
+const { createWorker } = require("tesseract.js");
+const engData = require("@tesseract.js-data/eng");
+const { logger } = require("./logger");
+const { loadPdfjs } = require("./pdfjs");
+
+// Average extracted characters per page below which a PDF is treated as a scan
+const MIN_TEXT_CHARS_PER_PAGE = Number(process.env.OCR_MIN_TEXT_CHARS_PER_PAGE || 25);
+// Pages after this limit are kept as they are, without OCR
+const MAX_OCR_PAGES = Number(process.env.OCR_MAX_PAGES || 50);
+
+async function openPdf(filePath) {
+  const { getDocument } = loadPdfjs();
+  const data = new Uint8Array(await fs.promises.readFile(filePath));
+  return getDocument({ data, verbosity: 0, disableFontFace: true }).promise;
+}
+
+// True when the PDF has (almost) no text layer, i.e. it is a scan
+async function isImageOnlyPDF(filePath) {
+  const pdf = await openPdf(filePath);
+  try {
+    let textChars = 0;
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const page = await pdf.getPage(pageNumber);
+      const content = await page.getTextContent();
+      textChars += content.items.reduce((total, item) => total + (item.str || "").trim().length, 0);
+    }
+    return textChars / pdf.numPages < MIN_TEXT_CHARS_PER_PAGE;
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+// Encode a decoded pdf.js image ({ width, height, kind, data }) as PNG
+function imageToPng({ width, height, kind, data }) {
+  const { ImageKind } = loadPdfjs();
+  const png = new PNG({ width, height });
+  const rowBytes = (width + 7) >> 3;
+
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      if (kind === ImageKind.GRAYSCALE_1BPP) {
+        const value = data[y * rowBytes + (x >> 3)] & (128 >> (x & 7)) ? 255 : 0;
+        png.data[target] = png.data[target + 1] = png.data[target + 2] = value;
+      } else {
+        const source = (y * width + x) * (kind === ImageKind.RGBA_32BPP ? 4 : 3);
+        png.data[target] = data[source];
+        png.data[target + 1] = data[source + 1];
+        png.data[target + 2] = data[source + 2];
+      }
+      png.data[target + 3] = 255;
+    }
+  }
+  return PNG.sync.write(png);
+}
+
+// The largest image drawn on a page (the scan itself), as a PNG buffer, or null
+async function largestPageImage(page) {
+  const { OPS } = loadPdfjs();
+  const operators = await page.getOperatorList();
+  const images = await Promise.all(
+    operators.fnArray.map((fn, index) => {
+      if (fn === OPS.paintInlineImageXObject) {
+        return operators.argsArray[index][0];
+      }
+      if (fn !== OPS.paintImageXObject) {
+        return null;
+      }
+      const [image] = operators.argsArray[index];
+      // Images shared between pages live in commonObjs
+      const objects = image.startsWith("g_") ? page.commonObjs : page.objs;
+      return new Promise((resolve) => objects.get(image, resolve));
+    })
+  );
+
+  const largest = images
+    .filter((image) => image && image.data)
+    .sort((a, b) => b.width * b.height - a.width * a.height)[0];
+  return largest ? imageToPng(largest) : null;
+}
+
+/**
+ * OCR an image (JPG/PNG) or a scanned PDF and write a searchable PDF (page
+ * image plus an invisible text layer) next to it. Returns the new PDF's
+ * fileInfo and the per-page confidence (0-100). Pages of a PDF without an
+ * image, or beyond OCR_MAX_PAGES, are copied unchanged.
+ */
+async function ocrToSearchablePDF(fileInfo) {
+  const isPdf = path.extname(fileInfo.originalName).toLowerCase() === ".pdf";
+  const sourcePdf = isPdf ? await PDFDocument.load(await fs.promises.readFile(fileInfo.path)) : null;
+  const output = await PDFDocument.create();
+  const pages = [];
+
+  const worker = await createWorker("eng", 1, {
+    langPath: engData.langPath,
+    gzip: engData.gzip,
+    cacheMethod: "none",
+  });
+
+  try {
+    const recognize = async (image, pageNumber) => {
+      const { data } = await worker.recognize(image, {}, { text: true, pdf: true });
+      const ocrPage = await PDFDocument.load(Uint8Array.from(data.pdf));
+      const [copied] = await output.copyPages(ocrPage, [0]);
+      output.addPage(copied);
+      pages.push({ page: pageNumber, confidence: Math.round(data.confidence), characters: data.text.trim().length });
+    };
+
+    if (!isPdf) {
+      await recognize(await fs.promises.readFile(fileInfo.path), 1);
+    } else {
+      const pdf = await openPdf(fileInfo.path);
+      try {
+        for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+          const image = pageNumber <= MAX_OCR_PAGES ? await largestPageImage(await pdf.getPage(pageNumber)) : null;
+          if (image) {
+            await recognize(image, pageNumber);
+          } else {
+            const [copied] = await output.copyPages(sourcePdf, [pageNumber - 1]);
+            output.addPage(copied);
+          }
+        }
+      } finally {
+        await pdf.destroy();
+      }
+      if (pdf.numPages > MAX_OCR_PAGES) {
+        logger.warn("OCR limited to the first pages", { filename: fileInfo.originalName, ocr_pages: MAX_OCR_PAGES, pages: pdf.numPages });
+      }
+    }
+  } finally {
+    await worker.terminate();
+  }
+
+  const parsedPath = path.parse(fileInfo.path);
+  const pdfPath = path.join(parsedPath.dir, `${parsedPath.name}-ocr.pdf`);
+  await fs.promises.writeFile(pdfPath, await output.save());
+
+  const averageConfidence = pages.length > 0
+    ? Math.round(pages.reduce((total, page) => total + page.confidence, 0) / pages.length)
+    : 0;
+
+  return {
+    fileInfo: {
+      filename: path.basename(pdfPath),
+      originalName: `${path.parse(fileInfo.originalName).name}.pdf`,
+      mimetype: "application/pdf",
+      size: fs.statSync(pdfPath).size,
+      path: pdfPath,
+    },
+    pages,
+    averageConfidence,
+  };
+}
+
+module.exports = { isImageOnlyPDF, ocrToSearchablePDF };
@@ -0,0 +1,55 @@
+const path = require("path");
+const fontkit = require("fontkit");
+const { logger } = require("./logger");
+
+/*
+ * Fonts embedded in the PDFs the server generates (converted uploads and
+ * transcripts). pdfkit's built-in Helvetica only covers Western European
+ * text, so DejaVu Sans is embedded instead (Latin, Greek, Cyrillic, Hebrew,
+ * Arabic, ...). For other scripts point PDF_FONT_PATH, PDF_BOLD_FONT_PATH and
+ * PDF_OBLIQUE_FONT_PATH at TTFs that cover them, e.g. Noto Sans Devanagari.
+ * Read on use because dotenv is loaded after this module.
+ */
+const pdfFonts = () => ({
+  regular: process.env.PDF_FONT_PATH || require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans.ttf"),
+  bold: process.env.PDF_BOLD_FONT_PATH || require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf"),
+  oblique: process.env.PDF_OBLIQUE_FONT_PATH || require.resolve("dejavu-fonts-ttf/ttf/DejaVuSans-Oblique.ttf"),
+});
+
+const loadedFonts = new Map(); // path -> fontkit font
+const loadFont = (fontPath) => {
+  if (!loadedFonts.has(fontPath)) {
+    loadedFonts.set(fontPath, fontkit.openSync(fontPath));
+  }
+  return loadedFonts.get(fontPath);
+};
+
+// Characters of `texts` the font has no glyph for; they would be missing from the PDF
+function unsupportedCharacters(texts, fontPath) {
+  const font = loadFont(fontPath);
+  const missing = new Set();
+  texts.forEach((text) => {
+    for (const char of String(text || "")) {
+      if (!/\s/.test(char) && !font.hasGlyphForCodePoint(char.codePointAt(0))) {
+        missing.add(char);
+      }
+    }
+  });
+  return [...missing];
+}
+
+// Log a warning (with `fields` such as the file name) when the regular font cannot draw some of `texts`
+function warnUnsupportedCharacters(texts, fonts, message, fields = {}) {
+  const missing = unsupportedCharacters(texts, fonts.regular);
+  if (missing.length > 0) {
+    logger.warn(message, {
+      ...fields,
+      characters: missing.slice(0, 20).join(""),
+      count: missing.length,
+      font: path.basename(fonts.regular),
+    });
+  }
+  return missing;
+}
+
+module.exports = { pdfFonts, unsupportedCharacters, warnUnsupportedCharacters };
@@ -0,0 +1,16 @@
+/**
+ * pdf.js, loaded on first use so processes that never read a PDF do not pay
+ * for it. Loading it prints "Cannot polyfill `DOMMatrix`/`Path2D`" warnings
+ * because the optional canvas package is not installed; that only affects
+ * rendering, not the text and image extraction used here.
+ */
+let pdfjsLib = null;
+
+function loadPdfjs() {
+  if (!pdfjsLib) {
+    pdfjsLib = require("pdfjs-dist/legacy/build/pdf.js");
+  }
+  return pdfjsLib;
+}
+
+module.exports = { loadPdfjs };
@@ -0,0 +1,135 @@
+const { logger } = require("./logger");
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// "45s", "12 minutes" or "5 hours", for limit messages
+const formatWait = (seconds) => {
+  if (seconds < 120) return `${seconds}s`;
+  if (seconds < 2 * 3600) return `${Math.ceil(seconds / 60)} minutes`;
+  return `${Math.ceil(seconds / 3600)} hours`;
+};
+
+// Start of the next UTC day, when daily quotas reset
+const nextUtcMidnight = (now) => Math.floor(now / DAY_MS) * DAY_MS + DAY_MS;
+
+/**
+ * In-memory usage counter per key (an IP address or a user id). `windowMs`
+ * gives a fixed window starting at a key's first request; `daily` resets
+ * every key at UTC midnight instead. `key(req)` returning null skips the
+ * limiter, and `max` of 0 disables it. Weighted limiters count the weight
+ * passed to rateLimit() (e.g. questions per request) instead of requests;
+ * `oversizeMessage(amount)` explains a single request heavier than `max`.
+ */
+function createLimiter({
+  name,
+  max,
+  windowMs,
+  daily = false,
+  key,
+  weighted = false,
+  message,
+  oversizeMessage = (amount) => `This request counts ${amount} against a limit of ${max}.`,
+}) {
+  const usage = new Map();
+
+  const current = (id, now) => {
+    const entry = usage.get(id);
+    return entry && entry.resetAt > now ? entry : { used: 0, resetAt: daily ? nextUtcMidnight(now) : now + windowMs };
+  };
+
+  return {
+    name,
+    max,
+    key,
+    daily,
+    weighted,
+    message,
+    oversizeMessage,
+
+    // Milliseconds until `amount` more would fit, 0 when it fits now (amounts above `max` never fit)
+    retryAfterMs(id, amount, now = Date.now()) {
+      const entry = current(id, now);
+      return entry.used + amount > max ? entry.resetAt - now : 0;
+    },
+
+    consume(id, amount, now = Date.now()) {
+      const entry = current(id, now);
+      entry.used += amount;
+      usage.set(id, entry);
+    },
+
+    // Give back what a request consumed, unless its window has already reset
+    refund(id, amount, now = Date.now()) {
+      const entry = usage.get(id);
+      if (entry && entry.resetAt > now) {
+        entry.used = Math.max(0, entry.used - amount);
+      }
+    },
+
+    // Forget expired windows so idle keys do not accumulate
+    purgeExpired(now = Date.now()) {
+      usage.forEach((entry, id) => {
+        if (entry.resetAt <= now) usage.delete(id);
+      });
+    },
+  };
+}
+
+/**
+ * Express middleware enforcing every limiter in `limiters`. A request is only
+ * counted when all of them allow it; otherwise it is answered with 429, a
+ * Retry-After header (seconds) and { error, code, limit, retry_after } for the
+ * limiter that frees up last. A request heavier than a limiter's whole `max`
+ * can never fit and is answered with 400 and code "limit_exceeded". Daily
+ * quotas are refunded when the route then rejects the request with a 4xx
+ * (unknown document, invalid upload, ...), as nothing reached the ML API; the
+ * per-window limits still count it.
+ */
+function rateLimit(limiters, weight = () => 1) {
+  return (req, res, next) => {
+    const now = Date.now();
+    const checks = limiters
+      .filter((limiter) => limiter.max > 0)
+      .map((limiter) => ({ limiter, id: limiter.key(req), amount: limiter.weighted ? weight(req) : 1 }))
+      .filter((check) => check.id);
+
+    const oversize = checks.find((check) => check.amount > check.limiter.max);
+    if (oversize) {
+      logger.warn("Request exceeds a whole limit", { limit: oversize.limiter.name, key: oversize.id, amount: oversize.amount });
+      return res.status(400).json({
+        error: oversize.limiter.oversizeMessage(oversize.amount),
+        code: "limit_exceeded",
+        limit: oversize.limiter.name,
+      });
+    }
+
+    const blocked = checks
+      .map((check) => ({ ...check, waitMs: check.limiter.retryAfterMs(check.id, check.amount, now) }))
+      .filter((check) => check.waitMs > 0)
+      .sort((a, b) => b.waitMs - a.waitMs)[0];
+
+    if (blocked) {
+      const retryAfter = Math.ceil(blocked.waitMs / 1000);
+      logger.warn("Rate limit reached", { limit: blocked.limiter.name, key: blocked.id, retry_after: retryAfter });
+      res.set("Retry-After", String(retryAfter));
+      return res.status(429).json({
+        error: blocked.limiter.message(retryAfter),
+        code: "rate_limited",
+        limit: blocked.limiter.name,
+        retry_after: retryAfter,
+      });
+    }
+
+    checks.forEach((check) => check.limiter.consume(check.id, check.amount, now));
+    res.on("finish", () => {
+      if (res.statusCode >= 400 && res.statusCode < 500) {
+        checks
+          .filter((check) => check.limiter.daily)
+          .forEach((check) => check.limiter.refund(check.id, check.amount));
+      }
+    });
+    next();
+  };
+}
+
+module.exports = { createLimiter, rateLimit, formatWait };
@@ -0,0 +1,35 @@
+const TRANSIENT_ERROR_CODES = ["ECONNABORTED", "ETIMEDOUT", "ECONNRESET", "ECONNREFUSED", "EAI_AGAIN"];
+
+// Timeouts, dropped connections and 5xx responses are worth retrying; 4xx are not
+function isTransientError(error) {
+  const status = error.response?.status;
+  if (status) {
+    return status >= 500;
+  }
+  return TRANSIENT_ERROR_CODES.includes(error.code);
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run `operation(attempt)` and retry it with exponential backoff
+ * (baseDelayMs, 2x, 4x, ... plus jitter) while `shouldRetry(error)` holds.
+ * `operation` is called again from scratch, so it must rebuild anything
+ * single-use such as request bodies and file streams.
+ */
+async function withRetry(operation, { retries = 2, baseDelayMs = 1000, shouldRetry = isTransientError, onRetry } = {}) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > retries || !shouldRetry(error)) {
+        throw error;
+      }
+      const delayMs = baseDelayMs * 2 ** (attempt - 1) + Math.floor(Math.random() * baseDelayMs * 0.2);
+      if (onRetry) onRetry(error, attempt, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+module.exports = { withRetry, isTransientError };
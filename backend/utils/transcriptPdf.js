@@ -0,0 +1,88 @@
+const PDFDocument = require("pdfkit");
+const { pdfFonts, warnUnsupportedCharacters } = require("./pdfFonts");
+
+const printable = (text) => String(text || "").trim();
+
+// Every string in the transcript, to check the font covers them
+const collectTexts = (value) => {
+  if (typeof value === "string") return [value];
+  if (value && typeof value === "object") return Object.values(value).flatMap(collectTexts);
+  return [];
+};
+
+const formatTimestamp = (value) => {
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? "" : date.toISOString().replace("T", " ").slice(0, 19) + " UTC";
+};
+
+function writeCitations(doc, citations = []) {
+  citations.forEach((citation) => {
+    const location = [citation.document, citation.page !== undefined && `p. ${citation.page}`].filter(Boolean).join(", ");
+    doc
+      .font("oblique")
+      .fontSize(9)
+      .fillColor("#555555")
+      .text(`[${citation.number}]${location ? ` (${location})` : ""} ${printable(citation.text)}`, { indent: 12 })
+      .fillColor("black");
+  });
+}
+
+/**
+ * Render a conversation transcript ({ title, exported_at, documents, messages },
+ * as built by the frontend) into a PDF written to `output` (e.g. an HTTP response).
+ */
+function writeTranscriptPdf(transcript, output) {
+  const fonts = pdfFonts();
+  warnUnsupportedCharacters(collectTexts(transcript), fonts, "Transcript PDF is missing characters its font cannot render", {
+    messages: transcript.messages.length,
+  });
+
+  const doc = new PDFDocument({ margin: 50, info: { Title: printable(transcript.title) } });
+  doc.registerFont("regular", fonts.regular);
+  doc.registerFont("bold", fonts.bold);
+  doc.registerFont("oblique", fonts.oblique);
+  doc.pipe(output);
+
+  doc.font("bold").fontSize(16).text(printable(transcript.title) || "Conversation transcript");
+  doc.font("regular").fontSize(9).fillColor("#555555").text(`Exported ${formatTimestamp(transcript.exported_at)}`).fillColor("black");
+  doc.moveDown();
+
+  if (transcript.documents?.length > 0) {
+    doc.font("bold").fontSize(12).text("Documents");
+    transcript.documents.forEach((document) => {
+      doc.font("regular").fontSize(10).text(`• ${printable(document.name)} (pdf_id: ${printable(document.pdf_id)})`);
+    });
+    doc.moveDown();
+  }
+
+  transcript.messages.forEach((message) => {
+    doc
+      .font("bold")
+      .fontSize(10)
+      .text(`${message.role === "user" ? "User" : "Assistant"}  ·  ${formatTimestamp(message.timestamp)}`);
+    if (message.file) doc.font("oblique").fontSize(9).text(`File: ${printable(message.file)}`);
+    if (message.document) {
+      doc.font("oblique").fontSize(9).text(`Document: ${printable(message.document.name)} (pdf_id: ${printable(message.document.pdf_id)})`);
+    }
+    if (message.standalone_question) {
+      doc.font("oblique").fontSize(9).text(`Interpreted as: ${printable(message.standalone_question)}`);
+    }
+    doc.font("regular").fontSize(10).text(printable(message.content));
+    writeCitations(doc, message.citations);
+
+    (message.sections || []).forEach((section) => {
+      doc.moveDown(0.3);
+      doc
+        .font("bold")
+        .fontSize(10)
+        .text(`${printable(section.heading)}${section.pdf_id ? ` (pdf_id: ${printable(section.pdf_id)})` : ""}`, { indent: 12 });
+      doc.font("regular").fontSize(10).text(printable(section.content), { indent: 12 });
+      writeCitations(doc, section.citations);
+    });
+    doc.moveDown();
+  });
+
+  doc.end();
+}
+
+module.exports = { writeTranscriptPdf };
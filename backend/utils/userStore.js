@@ -0,0 +1,104 @@
+const crypto = require("crypto");
+const { promisify } = require("util");
+const { logger } = require("./logger");
+
+const scrypt = promisify(crypto.scrypt);
+const KEY_LENGTH = 64;
+
+async function hashPassword(password, salt = crypto.randomBytes(16).toString("hex")) {
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return { salt, passwordHash: key.toString("hex") };
+}
+
+// Fields that are safe to return to clients
+const toPublicUser = (user) => ({ id: user.id, username: user.username, createdAt: user.createdAt });
+
+/**
+ * User accounts keyed by id, persisted through `store` (see createJsonFileStore).
+ * Passwords are stored as scrypt hashes; `tokenVersion` is embedded in refresh
+ * tokens so bumping it (on logout) revokes every refresh token of the user.
+ */
+function createUserStore({ store }) {
+  const users = new Map();
+
+  const persist = () => {
+    try {
+      store.save([...users.entries()]);
+    } catch (error) {
+      logger.error("Failed to persist users", { error });
+    }
+  };
+
+  return {
+    load() {
+      try {
+        store.load().forEach(([id, user]) => users.set(id, user));
+      } catch (error) {
+        logger.error("Failed to load users", { error });
+      }
+      return users.size;
+    },
+
+    get(id) {
+      return users.get(id);
+    },
+
+    findByUsername(username) {
+      const wanted = username.toLowerCase();
+      return [...users.values()].find((user) => user.username.toLowerCase() === wanted);
+    },
+
+    // Throws an error with code "username_taken" when the name is in use, including
+    // by a registration that finished while this one was hashing its password
+    async create(username, password) {
+      const taken = () => {
+        const error = new Error(`Username "${username}" is already taken`);
+        error.code = "username_taken";
+        return error;
+      };
+      if (this.findByUsername(username)) {
+        throw taken();
+      }
+      const hashed = await hashPassword(password);
+      if (this.findByUsername(username)) {
+        throw taken();
+      }
+      const user = {
+        id: crypto.randomUUID(),
+        username,
+        ...hashed,
+        tokenVersion: 0,
+        createdAt: new Date().toISOString(),
+      };
+      users.set(user.id, user);
+      persist();
+      return user;
+    },
+
+    // The user when the credentials match, otherwise null
+    async verify(username, password) {
+      const user = this.findByUsername(username);
+      if (!user) {
+        await hashPassword(password); // Keep timing similar for unknown usernames
+        return null;
+      }
+      const { passwordHash } = await hashPassword(password, user.salt);
+      const matches = crypto.timingSafeEqual(Buffer.from(passwordHash, "hex"), Buffer.from(user.passwordHash, "hex"));
+      return matches ? user : null;
+    },
+
+    revokeRefreshTokens(id) {
+      const user = users.get(id);
+      if (user) {
+        user.tokenVersion += 1;
+        persist();
+      }
+    },
+
+    get size() {
+      return users.size;
+    },
+  };
+}
+
+module.exports = { createUserStore, toPublicUser };
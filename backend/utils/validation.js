@@ -0,0 +1,81 @@
+const fs = require("fs");
+const { parseContract } = require("@legalease/contract");
+
+/**
+ * Express middleware checking req.body against a contract schema. Valid
+ * bodies are replaced by the parsed value (trimmed strings, normalised
+ * pdf_id and question lists); invalid ones are answered with 400 and
+ * { error, code: "invalid_request", issues }. A file multer already stored
+ * for the rejected request is deleted.
+ */
+function validateBody(schema) {
+  return (req, res, next) => {
+    const result = parseContract(schema, req.body || {});
+    if (result.success) {
+      req.body = result.data;
+      return next();
+    }
+
+    if (req.file) {
+      fs.rm(req.file.path, { force: true }, () => {});
+    }
+    res.status(400).json({ error: result.issues[0].message, code: "invalid_request", issues: result.issues });
+  };
+}
+
+/**
+ * Check an ML API reply against its contract schema and return the parsed
+ * value. A reply that does not match throws an upstream error carrying the
+ * issues, which sendError() answers with 502.
+ */
+function parseUpstreamReply(schema, data, operation) {
+  const result = parseContract(schema, data);
+  if (result.success) {
+    return result.data;
+  }
+
+  const error = new Error(`ML API ${operation} returned an unexpected reply: ${result.issues[0].message}`);
+  error.upstream = true;
+  error.issues = result.issues;
+  throw error;
+}
+
+/**
+ * Status and body for a failed request: 502 { error, code: "upstream_error",
+ * issues? } when the ML API failed, 503 { error, code: "ml_unavailable",
+ * retry_after? } when the ML client refused the call, 500 { error } otherwise.
+ */
+function describeError(error) {
+  if (!error.upstream) {
+    return { status: 500, body: { error: error.message } };
+  }
+  return {
+    status: error.status || 502,
+    body: {
+      error: error.message,
+      code: error.code || "upstream_error",
+      ...(error.issues && { issues: error.issues }),
+      ...(error.retryAfter && { retry_after: error.retryAfter })
+    }
+  };
+}
+
+// Answer a failed request as described by describeError(), with a Retry-After header when the ML client gave one
+function sendError(res, error) {
+  const { status, body } = describeError(error);
+  if (body.retry_after) {
+    res.set("Retry-After", String(body.retry_after));
+  }
+  res.status(status).json(body);
+}
+
+/**
+ * The error event of an event stream, sent once the response has started:
+ * the body sendError() would have answered with, plus its status.
+ */
+function errorEvent(error) {
+  const { status, body } = describeError(error);
+  return { ...body, status };
+}
+
+module.exports = { validateBody, parseUpstreamReply, sendError, errorEvent };
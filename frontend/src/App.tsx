@@ -1,10 +1,62 @@
-import React from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
+import { Loader2 } from 'lucide-react';
 import ChatInterface from './components/ChatInterface';
+import LoginScreen from './components/LoginScreen';
+import { AuthUser } from './types';
+import { apiService } from './services/api';
+import { authSession } from './services/authSession';
+import { conversationStore } from './services/conversationStore';
 
 function App() {
+  // undefined while the stored session is being checked, null when logged out
+  const [user, setUser] = useState<AuthUser | null | undefined>(undefined);
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Point the conversation store at the user's database before ChatInterface mounts and reads from it
+  const switchUser = useCallback((next: AuthUser | null) => {
+    conversationStore.setUser(next ? next.id : null);
+    setUser(next);
+  }, []);
+
+  useEffect(() => {
+    apiService.getCurrentUser()
+      .then(switchUser)
+      .catch(error => {
+        console.warn('Could not restore the session:', error);
+        switchUser(null);
+      });
+
+    return authSession.onExpired(() => {
+      setNotice('Your session has expired. Please log in again.');
+      switchUser(null);
+    });
+  }, [switchUser]);
+
+  const handleAuthenticated = (authenticated: AuthUser) => {
+    setNotice(null);
+    switchUser(authenticated);
+  };
+
+  const handleLogout = async () => {
+    await apiService.logout();
+    switchUser(null);
+  };
+
+  if (user === undefined) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="animate-spin text-primary-500" size={32} />
+      </div>
+    );
+  }
+
+  if (!user) {
+    return <LoginScreen onAuthenticated={handleAuthenticated} notice={notice} />;
+  }
+
   return (
     <div className="App">
-      <ChatInterface />
+      <ChatInterface key={user.id} user={user} onLogout={handleLogout} />
     </div>
   );
 }
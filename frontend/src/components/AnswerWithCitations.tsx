@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ChevronDown, ChevronRight, BookOpen, ExternalLink } from 'lucide-react';
+import { HackRXSource } from '../types';
+
+interface AnswerWithCitationsProps {
+  answerId: string; // Unique per rendered answer, used for footnote anchors
+  text: string;
+  sources?: HackRXSource[];
+  onOpenSource?: (source: HackRXSource) => void; // Show the passage in the document viewer
+}
+
+const CITATION_PATTERN = /\[(\d+)\]/g;
+
+const AnswerWithCitations: React.FC<AnswerWithCitationsProps> = ({ answerId, text, sources = [], onOpenSource }) => {
+  const [expanded, setExpanded] = useState<number[]>([]);
+
+  const anchorId = (index: number) => `citation-${answerId}-${index + 1}`;
+
+  const toggle = (index: number) => {
+    setExpanded(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+  };
+
+  // Open a footnote (and its passage in the viewer) when its marker is clicked
+  const openCitation = (index: number) => {
+    setExpanded(prev => prev.includes(index) ? prev : [...prev, index]);
+    document.getElementById(anchorId(index))?.scrollIntoView({ behavior: 'smooth', block: 'nearest' });
+    if (onOpenSource && sources[index].pdf_id) {
+      onOpenSource(sources[index]);
+    }
+  };
+
+  // Turn [n] markers in the answer into links to the matching footnote
+  const renderText = () => {
+    if (sources.length === 0) return text;
+
+    const parts: React.ReactNode[] = [];
+    let lastIndex = 0;
+    text.replace(CITATION_PATTERN, (match, number: string, offset: number) => {
+      const index = Number(number) - 1;
+      if (index >= 0 && index < sources.length) {
+        parts.push(text.slice(lastIndex, offset));
+        parts.push(
+          <button
+            key={`${offset}-${match}`}
+            onClick={() => openCitation(index)}
+            className="align-super text-xs text-primary-600 hover:underline"
+            type="button"
+          >
+            [{number}]
+          </button>
+        );
+        lastIndex = offset + match.length;
+      }
+      return match;
+    });
+    parts.push(text.slice(lastIndex));
+    return parts;
+  };
+
+  const formatScore = (score: number) => {
+    // Scores in 0..1 are shown as percentages, anything else as reported
+    return score >= 0 && score <= 1 ? `${Math.round(score * 100)}% relevant` : `score ${score.toFixed(2)}`;
+  };
+
+  return (
+    <div>
+      <p className="whitespace-pre-wrap">{renderText()}</p>
+
+      {sources.length > 0 && (
+        <div className="mt-3 pt-2 border-t border-gray-200 space-y-1">
+          <p className="flex items-center space-x-1 text-xs font-semibold text-gray-500">
+            <BookOpen size={12} />
+            <span>Sources</span>
+          </p>
+          {sources.map((source, index) => (
+            <div key={anchorId(index)} id={anchorId(index)} className="text-xs">
+              <button
+                onClick={() => toggle(index)}
+                className="flex items-center space-x-1 text-left text-gray-600 hover:text-primary-600"
+                type="button"
+              >
+                {expanded.includes(index) ? <ChevronDown size={12} /> : <ChevronRight size={12} />}
+                <span className="font-medium">[{index + 1}]</span>
+                {source.filename && <span>{source.filename}</span>}
+                {source.page !== undefined && <span>· p. {source.page}</span>}
+                {source.score !== undefined && <span className="text-gray-400">· {formatScore(source.score)}</span>}
+              </button>
+              {expanded.includes(index) && (
+                <div className="mt-1 ml-4">
+                  <blockquote className="pl-2 border-l-2 border-gray-300 text-gray-700 whitespace-pre-wrap">
+                    {source.text}
+                  </blockquote>
+                  {onOpenSource && source.pdf_id && (
+                    <button
+                      onClick={() => onOpenSource(source)}
+                      className="mt-1 flex items-center space-x-1 text-primary-600 hover:underline"
+                      type="button"
+                    >
+                      <ExternalLink size={12} />
+                      <span>Show in document</span>
+                    </button>
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AnswerWithCitations;
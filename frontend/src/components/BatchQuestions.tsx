@@ -0,0 +1,234 @@
+import React, { useRef, useState } from 'react';
+import { ListChecks, Play, Square, Upload, Download, X, Loader2, CheckCircle, AlertCircle } from 'lucide-react';
+import { BatchQuestionResult } from '../types';
+import { apiService } from '../services/api';
+import { BatchExportFormat, formatBatchResults, parseQuestionList } from '../utils/batch';
+import { downloadFile, fileTimestamp } from '../utils/download';
+
+interface BatchQuestionsProps {
+  pdfIds: string[];
+  documentNames: string[];
+  onClose: () => void;
+}
+
+const EXPORT_FORMATS: Array<{ format: BatchExportFormat; label: string; mimeType: string }> = [
+  { format: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', mimeType: 'application/json' },
+  { format: 'md', label: 'Markdown', mimeType: 'text/markdown' },
+];
+
+const BatchQuestions: React.FC<BatchQuestionsProps> = ({ pdfIds, documentNames, onClose }) => {
+  const [questionsText, setQuestionsText] = useState('');
+  const [concurrency, setConcurrency] = useState(3);
+  const [results, setResults] = useState<BatchQuestionResult[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const questions = parseQuestionList(questionsText);
+  const finished = results.filter(result => result.status === 'done' || result.status === 'error').length;
+  const progress = results.length > 0 ? Math.round((finished / results.length) * 100) : 0;
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportError(null);
+    try {
+      const text = await file.text();
+      const imported = parseQuestionList(text, file.name.toLowerCase().endsWith('.csv'));
+      if (imported.length === 0) {
+        setImportError(`No questions found in ${file.name}.`);
+        return;
+      }
+      setQuestionsText(imported.join('\n'));
+    } catch (error) {
+      console.error('Failed to import questions:', error);
+      setImportError(`Could not read ${file.name}.`);
+    }
+  };
+
+  const handleRun = async () => {
+    if (questions.length === 0 || pdfIds.length === 0) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setResults(questions.map(question => ({ question, status: 'pending' })));
+
+    try {
+      await apiService.runBatchQuestions(pdfIds, questions, {
+        concurrency,
+        signal: controller.signal,
+        onResult: (index, result) => {
+          setResults(prev => prev.map((item, i) => (i === index ? result : item)));
+        },
+      });
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleExport = (format: BatchExportFormat, mimeType: string) => {
+    const content = formatBatchResults(results, format, documentNames);
+    downloadFile(content, `batch-questions-${fileTimestamp()}.${format}`, mimeType);
+  };
+
+  const statusIcon = (result: BatchQuestionResult) => {
+    switch (result.status) {
+      case 'running':
+        return <Loader2 className="animate-spin text-primary-500" size={14} />;
+      case 'done':
+        return <CheckCircle className="text-green-600" size={14} />;
+      case 'error':
+        return <AlertCircle className="text-red-600" size={14} />;
+      default:
+        return <span className="text-gray-400 text-xs">…</span>;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 space-y-4 text-gray-900">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="flex items-center space-x-2 text-lg font-semibold">
+            <ListChecks size={20} className="text-primary-500" />
+            <span>Batch questions</span>
+          </h2>
+          <p className="text-sm text-gray-500">
+            {pdfIds.length > 0
+              ? `Runs every question against: ${documentNames.join(', ')}`
+              : 'Select at least one document in the Documents panel to run a batch.'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close batch mode" type="button">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div>
+        <textarea
+          value={questionsText}
+          onChange={(e) => setQuestionsText(e.target.value)}
+          placeholder={'One question per line (or CSV with a "question" header), e.g.\nWhat is the waiting period for pre-existing diseases?\nIs maternity covered?'}
+          className="w-full h-32 border border-gray-300 rounded-lg p-2 text-sm focus:outline-none focus:border-primary-500"
+          disabled={isRunning}
+        />
+        {importError && <p className="mt-1 text-xs text-red-600">{importError}</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <input ref={fileInputRef} type="file" accept=".txt,.csv" className="hidden" onChange={handleImport} />
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isRunning}
+          className="flex items-center space-x-1 px-3 py-1.5 border border-gray-300 rounded-lg hover:bg-gray-50"
+          type="button"
+        >
+          <Upload size={14} />
+          <span>Import .txt / .csv</span>
+        </button>
+
+        <label className="flex items-center space-x-1 text-gray-600">
+          <span>Parallel requests</span>
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            disabled={isRunning}
+            className="border border-gray-300 rounded px-1 py-0.5"
+          >
+            {[1, 2, 3, 4, 5].map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+        </label>
+
+        <span className="text-gray-500">{questions.length} question{questions.length === 1 ? '' : 's'}</span>
+
+        {isRunning ? (
+          <button
+            onClick={handleStop}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-red-500 text-white rounded-lg hover:bg-red-600"
+            type="button"
+          >
+            <Square size={14} />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={questions.length === 0 || pdfIds.length === 0}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:bg-gray-400"
+            type="button"
+          >
+            <Play size={14} />
+            <span>Run batch</span>
+          </button>
+        )}
+      </div>
+
+      {results.length > 0 && (
+        <div className="space-y-3">
+          <div>
+            <div className="flex justify-between text-xs text-gray-500 mb-1">
+              <span>{finished} of {results.length} answered</span>
+              <span>{progress}%</span>
+            </div>
+            <div className="w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+              <div className="h-full bg-primary-500 transition-all" style={{ width: `${progress}%` }} />
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-2 py-2 w-8">#</th>
+                  <th className="px-2 py-2 w-1/3">Question</th>
+                  <th className="px-2 py-2">Answer</th>
+                  <th className="px-2 py-2 w-8" />
+                </tr>
+              </thead>
+              <tbody>
+                {results.map((result, index) => (
+                  <tr key={index} className="border-t border-gray-200 align-top">
+                    <td className="px-2 py-2 text-gray-400">{index + 1}</td>
+                    <td className="px-2 py-2">{result.question}</td>
+                    <td className="px-2 py-2 whitespace-pre-wrap">
+                      {result.error ? <span className="text-red-600">{result.error}</span> : result.answer}
+                    </td>
+                    <td className="px-2 py-2">{statusIcon(result)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          {!isRunning && finished > 0 && (
+            <div className="flex items-center gap-2 text-sm">
+              <Download size={14} className="text-gray-500" />
+              <span className="text-gray-500">Export:</span>
+              {EXPORT_FORMATS.map(({ format, label, mimeType }) => (
+                <button
+                  key={format}
+                  onClick={() => handleExport(format, mimeType)}
+                  className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                  type="button"
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default BatchQuestions;
@@ -1,42 +1,69 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Send, Loader2, Bot, User, Paperclip } from 'lucide-react';
-import { Message } from '../types';
+import { Send, Loader2, Bot, User, Paperclip, History, FileText, Square, ListChecks, Scale, GitCompare, LogOut } from 'lucide-react';
+import { AuthUser, Conversation, HackRXSource, HackRXUploadResponse, Message, UploadFormatsResponse, UploadProgress, ViewerTarget, WorkspaceDocument } from '../types';
+import { DEFAULT_UPLOAD_FORMATS, acceptAttribute, validateUploadFile } from '../utils/uploadFormats';
+import { loadInsightPrompts } from '../utils/documentInsights';
+import { retryAfterSeconds } from '../utils/rateLimit';
 import { apiService } from '../services/api';
+import { ApiError } from '../services/apiErrors';
+import { conversationStore, generateConversationKey } from '../services/conversationStore';
+import { isDocumentServiceReady, useServiceHealth } from '../hooks/useServiceHealth';
 import VoiceRecognition from './VoiceRecognition';
 import FileUpload from './FileUpload';
-
-const ChatInterface: React.FC = () => {
+import ConversationSidebar from './ConversationSidebar';
+import DocumentPanel from './DocumentPanel';
+import AnswerWithCitations from './AnswerWithCitations';
+import PdfViewer from './PdfViewer';
+import BatchQuestions from './BatchQuestions';
+import DocumentInsightsCard from './DocumentInsightsCard';
+import LegalReview from './LegalReview';
+import CompareDocuments from './CompareDocuments';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import RateLimitNotice from './RateLimitNotice';
+import ServiceStatusBanner from './ServiceStatusBanner';
+
+// OCR confidence (0-100) below which a page is flagged to the user
+const LOW_OCR_CONFIDENCE = 60;
+
+// Prompts run against each new document to build its overview card
+const INSIGHT_PROMPTS = loadInsightPrompts();
+
+interface ChatInterfaceProps {
+  user: AuthUser;
+  onLogout: () => void;
+}
+
+const ChatInterface: React.FC<ChatInterfaceProps> = ({ user, onLogout }) => {
   const [messages, setMessages] = useState<Message[]>([]);
   const [inputText, setInputText] = useState('');
   const [isLoading, setIsLoading] = useState(false);
+  // Set while the server rejects requests with 429; sending is disabled until `until`
+  const [rateLimit, setRateLimit] = useState<{ message: string; until: number } | null>(null);
+  // ML API state; uploads and document questions wait while it is warming up or unavailable
+  const { health: serviceHealth, refresh: refreshServiceHealth } = useServiceHealth();
   const [conversationId, setConversationId] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [showFileUpload, setShowFileUpload] = useState(false);
   const [isListening, setIsListening] = useState(false);
-  // HackRX state management
-  const [currentPdfId, setCurrentPdfId] = useState<string | null>(null);
-  const [uploadedFileName, setUploadedFileName] = useState<string | null>(null);
-
-  // Utility function to extract message content from API response
-  const extractMessageContent = (response: any): string => {
-    console.log('Extracting message content from response:', response);
-
-    if (typeof response === 'object' && response.answers) {
-      // New format: extract answers from the response
-      const content = response.answers
-        .map((item: any) => item.answer)
-        .join('\n\n');
-      console.log('Extracted content from answers:', content);
-      return content;
-    } else if (typeof response === 'string') {
-      // Legacy format: direct string
-      console.log('Using direct string response:', response);
-      return response;
-    } else {
-      console.log('Unable to extract content from response:', response);
-      return 'I received a response but couldn\'t format it properly.';
-    }
-  };
+  // Streaming answer state: the message being written and a handle to stop it
+  const [streamingMessageId, setStreamingMessageId] = useState<string | null>(null);
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [uploadProgress, setUploadProgress] = useState<UploadProgress | null>(null);
+  const uploadAbortRef = useRef<AbortController | null>(null);
+  const [uploadFormats, setUploadFormats] = useState<UploadFormatsResponse>(DEFAULT_UPLOAD_FORMATS);
+  // HackRX state management: indexed documents and the ones questions target
+  const [documents, setDocuments] = useState<WorkspaceDocument[]>([]);
+  const [selectedPdfIds, setSelectedPdfIds] = useState<string[]>([]);
+  const [showDocuments, setShowDocuments] = useState(true);
+  const [viewerTarget, setViewerTarget] = useState<ViewerTarget | null>(null);
+  // Document tool shown in place of the messages
+  const [activeTool, setActiveTool] = useState<'batch' | 'review' | 'compare' | null>(null);
+  // Conversation history (persisted in IndexedDB)
+  const [conversations, setConversations] = useState<Conversation[]>([]);
+  const [activeConversationId, setActiveConversationId] = useState<string | null>(null);
+  const [showSidebar, setShowSidebar] = useState(false);
+  // Ref mirror of activeConversationId so messages added mid-request land in the right conversation
+  const activeConversationRef = useRef<string | null>(null);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
@@ -49,6 +76,30 @@ const ChatInterface: React.FC = () => {
     adjustTextareaHeight();
   }, [inputText]);
 
+  // Restore the most recent conversation on load
+  useEffect(() => {
+    const restore = async () => {
+      try {
+        const saved = await conversationStore.listConversations();
+        setConversations(saved);
+        if (saved.length > 0) {
+          await loadConversation(saved[0].id);
+        }
+      } catch (error) {
+        console.warn('Conversation history unavailable:', error);
+      }
+    };
+    restore();
+  // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Load the upload formats the server accepts (falls back to PDF only)
+  useEffect(() => {
+    apiService.getUploadFormats()
+      .then(setUploadFormats)
+      .catch(error => console.warn('Failed to load upload formats:', error));
+  }, []);
+
   const scrollToBottom = () => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
   };
@@ -61,22 +112,275 @@ const ChatInterface: React.FC = () => {
     }
   };
 
+  const refreshConversations = async () => {
+    try {
+      setConversations(await conversationStore.listConversations());
+    } catch (error) {
+      console.warn('Failed to refresh conversation history:', error);
+    }
+  };
+
+  // Make a conversation active, creating a new key if none is active yet
+  const ensureActiveConversation = (): string => {
+    if (!activeConversationRef.current) {
+      activeConversationRef.current = generateConversationKey();
+      setActiveConversationId(activeConversationRef.current);
+    }
+    return activeConversationRef.current;
+  };
+
+  const persistConversation = (changes: Partial<Omit<Conversation, 'id' | 'createdAt'>>) => {
+    const id = activeConversationRef.current;
+    if (!id) return;
+    conversationStore.updateConversation(id, changes)
+      .then(refreshConversations)
+      .catch(error => console.warn('Failed to save conversation:', error));
+  };
+
+  const loadConversation = async (id: string) => {
+    const [conversation, savedMessages] = await Promise.all([
+      conversationStore.getConversation(id),
+      conversationStore.getMessages(id),
+    ]);
+    if (!conversation) return;
+
+    activeConversationRef.current = conversation.id;
+    setActiveConversationId(conversation.id);
+    setMessages(savedMessages);
+    setDocuments(conversation.documents);
+    setSelectedPdfIds(conversation.selectedPdfIds);
+    setConversationId(conversation.chatConversationId);
+  };
+
+  const startNewConversation = () => {
+    activeConversationRef.current = null;
+    setActiveConversationId(null);
+    setMessages([]);
+    setDocuments([]);
+    setSelectedPdfIds([]);
+    setConversationId(null);
+    setSelectedFile(null);
+    setViewerTarget(null);
+  };
+
+  const handleSelectConversation = async (id: string) => {
+    if (id === activeConversationRef.current) return;
+    try {
+      await loadConversation(id);
+    } catch (error) {
+      console.error('Failed to load conversation:', error);
+    }
+  };
+
+  const handleRenameConversation = async (id: string, title: string) => {
+    try {
+      await conversationStore.updateConversation(id, { title });
+      await refreshConversations();
+    } catch (error) {
+      console.error('Failed to rename conversation:', error);
+    }
+  };
+
+  const handleDeleteConversation = async (id: string) => {
+    try {
+      await conversationStore.deleteConversation(id);
+      if (id === activeConversationRef.current) {
+        startNewConversation();
+      }
+      await refreshConversations();
+    } catch (error) {
+      console.error('Failed to delete conversation:', error);
+    }
+  };
+
+  // Update the document workspace and persist it with the conversation
+  const updateWorkspace = (nextDocuments: WorkspaceDocument[], nextSelectedPdfIds: string[]) => {
+    setDocuments(nextDocuments);
+    setSelectedPdfIds(nextSelectedPdfIds);
+    persistConversation({ documents: nextDocuments, selectedPdfIds: nextSelectedPdfIds });
+  };
+
+  const addDocument = (pdfId: string, name: string) => {
+    const document: WorkspaceDocument = { pdfId, name, indexedAt: new Date() };
+    updateWorkspace(
+      [...documents.filter(doc => doc.pdfId !== pdfId), document],
+      [...selectedPdfIds.filter(id => id !== pdfId), pdfId]
+    );
+  };
+
+  const handleToggleDocument = (pdfId: string) => {
+    updateWorkspace(
+      documents,
+      selectedPdfIds.includes(pdfId)
+        ? selectedPdfIds.filter(id => id !== pdfId)
+        : [...selectedPdfIds, pdfId]
+    );
+  };
+
+  const handleSelectAllDocuments = (selected: boolean) => {
+    updateWorkspace(documents, selected ? documents.map(doc => doc.pdfId) : []);
+  };
+
+  const handleRemoveDocument = (pdfId: string) => {
+    updateWorkspace(
+      documents.filter(doc => doc.pdfId !== pdfId),
+      selectedPdfIds.filter(id => id !== pdfId)
+    );
+    if (viewerTarget?.pdfId === pdfId) {
+      setViewerTarget(null);
+    }
+  };
+
+  const handleViewDocument = (pdfId: string) => {
+    setViewerTarget({ pdfId, requestId: Date.now() });
+  };
+
+  // Jump the viewer to a cited passage
+  const handleOpenSource = (source: HackRXSource) => {
+    if (!source.pdf_id) return;
+    setViewerTarget({
+      pdfId: source.pdf_id,
+      page: source.page,
+      highlightText: source.text,
+      requestId: Date.now()
+    });
+  };
+
   // Counter to ensure unique IDs even when messages are created in the same millisecond
   const messageIdCounter = React.useRef(0);
 
-  const addMessage = (content: string, sender: 'user' | 'assistant', type: 'text' | 'file' | 'voice' = 'text', fileInfo?: any) => {
+  const nextMessageId = () => {
     // Increment counter for each message to ensure uniqueness
     messageIdCounter.current += 1;
+    return `${Date.now()}-${messageIdCounter.current}`;
+  };
+
+  const persistMessage = (message: Message) => {
+    conversationStore.saveMessage(ensureActiveConversation(), message)
+      .then(refreshConversations)
+      .catch(error => console.warn('Failed to save message:', error));
+  };
 
+  const addMessage = (
+    content: string,
+    sender: 'user' | 'assistant',
+    type: 'text' | 'file' | 'voice' = 'text',
+    details: Pick<Message, 'fileInfo' | 'documentAnswers' | 'sources' | 'insights'> = {}
+  ) => {
     const newMessage: Message = {
-      id: `${Date.now()}-${messageIdCounter.current}`,
+      id: nextMessageId(),
       content,
       sender,
       timestamp: new Date(),
       type,
-      fileInfo
+      ...details
     };
     setMessages(prev => [...prev, newMessage]);
+    persistMessage(newMessage);
+  };
+
+  // Insert or replace a message in state without persisting it (used while streaming)
+  const upsertMessage = (message: Message) => {
+    setMessages(prev => prev.some(m => m.id === message.id)
+      ? prev.map(m => (m.id === message.id ? message : m))
+      : [...prev, message]);
+  };
+
+  // Stream a reply through the chat endpoint, rendering the assistant message as it grows.
+  // With documents the server decides between document QA and general chat.
+  const streamAnswer = async (pdfIds: string[], question: string) => {
+    const controller = new AbortController();
+    streamAbortRef.current = controller;
+
+    const message: Message = {
+      id: nextMessageId(),
+      content: '',
+      sender: 'assistant',
+      timestamp: new Date(),
+      type: 'text'
+    };
+    setStreamingMessageId(message.id);
+
+    try {
+      const result = await apiService.streamChat(question, {
+        conversationId: conversationId || undefined,
+        pdfIds
+      }, (token) => {
+        message.content += token;
+        upsertMessage({ ...message });
+      }, controller.signal);
+      message.content = result.answer;
+      message.sources = result.sources;
+      message.documentAnswers = result.answers;
+      message.standaloneQuestion = result.standalone_question;
+
+      if (result.conversation_id && !conversationId) {
+        setConversationId(result.conversation_id);
+        persistConversation({ chatConversationId: result.conversation_id });
+      }
+    } catch (error) {
+      if (!controller.signal.aborted) {
+        // Keep whatever arrived before the failure, then let the caller report the error
+        if (message.content) persistMessage({ ...message });
+        throw error;
+      }
+      message.content = `${message.content}\n\n⏹️ Stopped.`.trim();
+    } finally {
+      streamAbortRef.current = null;
+      setStreamingMessageId(null);
+    }
+
+    upsertMessage({ ...message });
+    persistMessage({ ...message });
+  };
+
+  const handleStop = () => {
+    streamAbortRef.current?.abort();
+  };
+
+  // Upload a PDF for indexing while tracking progress; resolves to null if the user cancels
+  const uploadDocument = async (file: File): Promise<HackRXUploadResponse | null> => {
+    const controller = new AbortController();
+    uploadAbortRef.current = controller;
+
+    try {
+      return await apiService.uploadPDFToHackRX(file, {
+        onProgress: setUploadProgress,
+        signal: controller.signal
+      });
+    } catch (error) {
+      if (controller.signal.aborted) {
+        addMessage(`⏹️ Upload of "${file.name}" was cancelled.`, 'assistant');
+        return null;
+      }
+      throw error;
+    } finally {
+      uploadAbortRef.current = null;
+      setUploadProgress(null);
+    }
+  };
+
+  const handleCancelUpload = () => {
+    uploadAbortRef.current?.abort();
+  };
+
+  // Summarize a newly indexed document and suggest questions to start with
+  const addDocumentInsights = async (pdfId: string, documentName: string) => {
+    try {
+      const insights = await apiService.generateDocumentInsights(pdfId, documentName, INSIGHT_PROMPTS);
+      if (insights.insights.every(insight => insight.error)) {
+        addMessage(`⚠️ Could not summarize "${documentName}": ${insights.insights[0].error}`, 'assistant');
+        return;
+      }
+      addMessage(`📋 Overview of "${documentName}"`, 'assistant', 'text', { insights });
+    } catch (error) {
+      console.warn('Failed to generate document overview:', error);
+    }
+  };
+
+  const handleSuggestedQuestion = (question: string) => {
+    setInputText(question);
+    textareaRef.current?.focus();
   };
 
   // Process input (used by both text and voice)
@@ -95,74 +399,109 @@ const ChatInterface: React.FC = () => {
       let response;
 
       if (selectedFile) {
-        // File upload workflow
-        console.log('📤 Uploading PDF to HackRX for indexing...');
-        addMessage('📤 Uploading and indexing your document...', 'assistant');
+        // File upload workflow: reuse an existing index when the same content was uploaded before
+        let uploadResult = await apiService.findIndexedPDF(selectedFile);
 
-        const uploadResult = await apiService.uploadPDFToHackRX(selectedFile);
+        if (!uploadResult) {
+          uploadResult = await uploadDocument(selectedFile);
+          if (!uploadResult) return;
+        }
         const pdf_id = uploadResult.pdf_id;
 
-        // Store the PDF ID and filename in state
-        setCurrentPdfId(pdf_id);
-        setUploadedFileName(selectedFile.name);
+        // Add the PDF to the workspace and target questions at it
+        addDocument(pdf_id, selectedFile.name);
 
-        console.log(`✅ PDF uploaded successfully. PDF ID: ${pdf_id}`);
-        addMessage(`✅ Document "${selectedFile.name}" has been uploaded and indexed successfully! You can now ask questions about it.`, 'assistant');
+        if (uploadResult.reused) {
+          addMessage(`♻️ Document "${selectedFile.name}" is already indexed, so it was reused without uploading again. You can ask questions about it right away.`, 'assistant');
+        } else {
+          addMessage(`✅ Document "${selectedFile.name}" has been uploaded and indexed successfully! You can now ask questions about it.`, 'assistant');
+        }
+
+        if (uploadResult.ocr?.applied) {
+          const { average_confidence, pages } = uploadResult.ocr;
+          const pageSummary = pages
+            .map(page => `Page ${page.page}: ${page.confidence}%${page.confidence < LOW_OCR_CONFIDENCE ? ' ⚠️' : ''}`)
+            .join(' · ');
+          const lowConfidence = pages.some(page => page.confidence < LOW_OCR_CONFIDENCE);
+          addMessage(
+            `🔍 OCR was applied because "${selectedFile.name}" had no text layer. Average confidence: ${average_confidence}%.\n${pageSummary}` +
+            (lowConfidence ? '\n⚠️ Pages with low confidence may give unreliable answers; a cleaner scan will help.' : ''),
+            'assistant'
+          );
+        }
+
+        // A reused index already had its overview generated; asking again would spend the question quota
+        if (!uploadResult.reused) {
+          await addDocumentInsights(pdf_id, selectedFile.name);
+        }
 
         // If there's also a question, query it immediately
         if (input.trim()) {
-          console.log(`🔍 Querying PDF ${pdf_id} with question: "${input.trim()}"`);
-          const queryResult = await apiService.queryPDFFromHackRX(pdf_id, input.trim());
-          addMessage(queryResult.answer.answer, 'assistant');
+          await streamAnswer([pdf_id], input.trim());
         }
-      } else if (input.trim() && currentPdfId) {
-        // Query existing PDF
-        console.log(`🔍 Querying existing PDF ${currentPdfId} with question: "${input.trim()}"`);
-        const queryResult = await apiService.queryPDFFromHackRX(currentPdfId, input.trim());
-        addMessage(queryResult.answer.answer, 'assistant');
+      } else if (input.trim() && selectedPdfIds.length > 0) {
+        // Chat with the selected PDFs active; the server routes questions to document QA
+        await streamAnswer(selectedPdfIds, input.trim());
       } else if (input.trim()) {
         // Text only - general chat
         response = await apiService.sendMessage(input.trim(), conversationId || undefined);
 
         if (response.success) {
-          const messageContent = extractMessageContent(response.response);
-          addMessage(messageContent, 'assistant');
+          addMessage(response.response, 'assistant');
 
           if (response.conversation_id && !conversationId) {
             setConversationId(response.conversation_id);
+            persistConversation({ chatConversationId: response.conversation_id });
           }
         } else {
           console.error('API returned unsuccessful response:', response);
           addMessage(`Sorry, I encountered an error processing your ${inputType}.`, 'assistant');
         }
       }
-    } catch (error: any) {
+    } catch (error) {
       console.error(`Error processing ${inputType}:`, error);
 
+      // Rate limited: show a live countdown instead of an error message
+      const retryAfter = retryAfterSeconds(error);
+      if (retryAfter !== null) {
+        setRateLimit({
+          message: (error as ApiError).message,
+          until: Date.now() + retryAfter * 1000
+        });
+        return;
+      }
+
+      if (error instanceof ApiError && (error.code === 'ml_unavailable' || error.code === 'upstream_error')) {
+        // Let the banner reflect the document service's state right away
+        refreshServiceHealth();
+      }
+
       let errorMessage = `Sorry, I could not connect to the server. Please try again later.`;
 
-      if (error.response) {
+      if (error instanceof ApiError && error.code === 'ml_unavailable') {
+        errorMessage = 'The document service is unavailable right now, so this was not processed. Please try again once it is back.';
+      } else if (error instanceof ApiError && error.kind === 'http') {
         // Server responded with an error
-        const statusCode = error.response.status;
-        const errorData = error.response.data;
-
-        if (statusCode === 400) {
-          errorMessage = `Invalid request: ${errorData.error || 'Please check your input.'}`;
-        } else if (statusCode === 404) {
-          errorMessage = 'The requested endpoint was not found. Please check your server configuration.';
-        } else if (statusCode === 500) {
-          errorMessage = `${errorData.error || 'An internal error occurred.'}`;
+        if (error.status === 400) {
+          errorMessage = `Invalid request: ${error.message}`;
+        } else if (error.status === 500 || error.status === undefined) {
+          errorMessage = error.message;
         } else {
-          errorMessage = `Error ${statusCode}: ${errorData.error || 'An error occurred.'}`;
+          errorMessage = `Error ${error.status}: ${error.message}`;
         }
 
-        console.error(`HTTP ${statusCode}:`, errorData);
-      } else if (error.code === 'ECONNABORTED') {
+        console.error(`HTTP ${error.status}:`, error.code, error.issues);
+      } else if (error instanceof ApiError && error.kind === 'timeout') {
         errorMessage = 'Request timed out. Large files may take longer to process.';
-      } else if (error.message) {
+      } else if (error instanceof Error && !(error instanceof ApiError)) {
         errorMessage = `Error: ${error.message}`;
       }
 
+      // The server's request id lets a problem report be matched to the backend logs
+      if (error instanceof ApiError && error.requestId) {
+        errorMessage += `\n\nReference ID: ${error.requestId}`;
+      }
+
       addMessage(errorMessage, 'assistant');
     } finally {
       setIsLoading(false);
@@ -174,11 +513,16 @@ const ChatInterface: React.FC = () => {
     }
   };
 
+  // Document requests are held back while the ML API is not ready instead of failing one by one
+  const documentServiceBlocked = (!!selectedFile || selectedPdfIds.length > 0) && !isDocumentServiceReady(serviceHealth);
+
   const handleSend = async () => {
-    if ((!inputText.trim() && !selectedFile) || isLoading) return;
+    if ((!inputText.trim() && !selectedFile) || isLoading || rateLimit || documentServiceBlocked) return;
     await processInput(inputText);
   };
 
+  const clearRateLimit = React.useCallback(() => setRateLimit(null), []);
+
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
@@ -187,7 +531,6 @@ const ChatInterface: React.FC = () => {
   };
 
   const handleVoiceTranscription = async (transcript: string) => {
-    console.log('🎤 Received voice transcript:', transcript);
     // Update the input text field instead of processing immediately
     setInputText(transcript);
     // Focus on the input field so user can edit if needed
@@ -218,220 +561,450 @@ const ChatInterface: React.FC = () => {
       {/* Overlay for readability */}
       <div className="absolute inset-0 bg-black bg-opacity-60 z-0" />
 
-      {/* Main chat container */}
-      <div className="relative z-10 flex flex-col h-screen">
-        {/* Header */}
-        <div className="bg-white bg-opacity-100 border-b border-gray-200 px-3 py-2 sm:px-6 sm:py-4 rounded-t-xl shadow-lg backdrop-blur-md">
-          <div className="flex items-center space-x-3">
-            <div className="p-2 bg-primary-500 rounded-full">
-              <Bot className="text-white" size={24} />
-            </div>
-            <div>
-              <h1 className="text-xl font-semibold text-gray-900 font-serif italic">LEGALEASE </h1>
-              <p className="text-sm text-gray-500">
-                {currentPdfId && uploadedFileName && (
-                  <span className="ml-2 flex items-center space-x-2">
-                    <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
-                      📝 {uploadedFileName} ready for questions
+      <div className="relative z-10 flex h-screen">
+        {showSidebar && (
+          <ConversationSidebar
+            conversations={conversations}
+            activeConversationId={activeConversationId}
+            onSelect={handleSelectConversation}
+            onNew={startNewConversation}
+            onRename={handleRenameConversation}
+            onDelete={handleDeleteConversation}
+            disabled={isLoading}
+          />
+        )}
+
+        {/* Main chat container */}
+        <div className="flex-1 min-w-0 flex flex-col h-screen">
+          {/* Header */}
+          <div className="bg-white bg-opacity-100 border-b border-gray-200 px-3 py-2 sm:px-6 sm:py-4 rounded-t-xl shadow-lg backdrop-blur-md">
+            <div className="flex items-center space-x-3">
+              <button
+                onClick={() => setShowSidebar(prev => !prev)}
+                className={`p-2 rounded-full transition-colors ${showSidebar ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+                title={showSidebar ? 'Hide conversations' : 'Show conversations'}
+                type="button"
+              >
+                <History size={20} />
+              </button>
+              <div className="p-2 bg-primary-500 rounded-full">
+                <Bot className="text-white" size={24} />
+              </div>
+              <div>
+                <h1 className="text-xl font-semibold text-gray-900 font-serif italic">LEGALEASE </h1>
+                <p className="text-sm text-gray-500">
+                  {documents.length > 0 && (
+                    <span className="ml-2 flex items-center space-x-2">
+                      <span className="px-2 py-1 bg-green-100 text-green-800 text-xs rounded-full">
+                        📝 {selectedPdfIds.length} of {documents.length} document{documents.length === 1 ? '' : 's'} ready for questions
+                      </span>
+                      <button
+                        onClick={() => {
+                          updateWorkspace([], []);
+                          addMessage('🗑️ PDF session cleared. You can upload a new document or continue with general chat.', 'assistant');
+                        }}
+                        className="text-xs text-red-600 hover:text-red-800 underline"
+                        title="Clear all PDFs"
+                      >
+                        Clear
+                      </button>
                     </span>
-                    <button
-                      onClick={() => {
-                        setCurrentPdfId(null);
-                        setUploadedFileName(null);
-                        addMessage('🗑️ PDF session cleared. You can upload a new document or continue with general chat.', 'assistant');
-                      }}
-                      className="text-xs text-red-600 hover:text-red-800 underline"
-                      title="Clear current PDF"
-                    >
-                      Clear
-                    </button>
-                  </span>
-                )}
-              </p>
+                  )}
+                </p>
+              </div>
+              <TranscriptExportMenu
+                className="ml-auto"
+                title={conversations.find(conversation => conversation.id === activeConversationId)?.title || 'LEGALEASE conversation'}
+                messages={messages}
+                documents={documents}
+                disabled={streamingMessageId !== null}
+              />
+              {documents.length > 0 && (
+                <button
+                  onClick={() => setActiveTool(prev => (prev === 'review' ? null : 'review'))}
+                  className={`p-2 rounded-full transition-colors ${activeTool === 'review' ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+                  title={activeTool === 'review' ? 'Back to chat' : 'Review document'}
+                  type="button"
+                >
+                  <Scale size={20} />
+                </button>
+              )}
+              {documents.length > 0 && (
+                <button
+                  onClick={() => setActiveTool(prev => (prev === 'compare' ? null : 'compare'))}
+                  className={`p-2 rounded-full transition-colors ${activeTool === 'compare' ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+                  title={activeTool === 'compare' ? 'Back to chat' : 'Compare documents'}
+                  type="button"
+                >
+                  <GitCompare size={20} />
+                </button>
+              )}
+              {documents.length > 0 && (
+                <button
+                  onClick={() => setActiveTool(prev => (prev === 'batch' ? null : 'batch'))}
+                  className={`p-2 rounded-full transition-colors ${activeTool === 'batch' ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+                  title={activeTool === 'batch' ? 'Back to chat' : 'Batch questions'}
+                  type="button"
+                >
+                  <ListChecks size={20} />
+                </button>
+              )}
+              {documents.length > 0 && (
+                <button
+                  onClick={() => setShowDocuments(prev => !prev)}
+                  className={`p-2 rounded-full transition-colors ${showDocuments ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+                  title={showDocuments ? 'Hide documents' : 'Show documents'}
+                  type="button"
+                >
+                  <FileText size={20} />
+                </button>
+              )}
+              <span className="hidden sm:inline text-sm text-gray-600" title="Logged in as">👤 {user.username}</span>
+              <button
+                onClick={onLogout}
+                disabled={streamingMessageId !== null}
+                className="p-2 rounded-full text-gray-600 hover:text-primary-500 transition-colors disabled:opacity-50"
+                title="Log out"
+                type="button"
+              >
+                <LogOut size={20} />
+              </button>
             </div>
           </div>
-        </div>
-        {/* Messages Container */}
-        <div className="flex-1 overflow-y-auto px-4 py-6">
-          <div className="max-w-4xl mx-auto space-y-6">
-            {messages.length === 0 && (
-              <div className="text-center py-12 bg-white bg-opacity-0 backdrop-blur-sm rounded-lg">
-                <Bot className="mx-auto text-white mb-4" size={40} />
-                <h2 className="text-lg sm:text-xl font-semibold text-white mb-2 inline">Welcome to </h2>
-                <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 inline font-sarif italic">LEGALEASE</h2>
-                <p className="text-sm sm:text-base text-white max-w-md mx-auto">
-                  Upload a PDF, then ask questions about it.<br />
-                  You can have general conversations or use voice input!
-                </p>
-                <div className="mt-4 text-xs sm:text-sm text-white max-w-lg mx-auto">
-                  <p className="mb-2"><strong>PDF Workflow:</strong></p>
-                  <div className="flex justify-center">
-                    <ol className="list-decimal list-inside space-y-1 text-left">
-                      <li>Upload a PDF file (gets indexed automatically)</li>
-                      <li>Ask questions about the uploaded document</li>
-                      <li>Continue asking questions about the same PDF</li>
-                      <li>Upload a new PDF anytime to switch documents</li>
-                    </ol>
+          <ServiceStatusBanner health={serviceHealth} />
+          {/* Messages Container */}
+          <div className="flex-1 overflow-y-auto px-4 py-6">
+            {activeTool === 'batch' && documents.length > 0 ? (
+              <div className="max-w-4xl mx-auto">
+                <BatchQuestions
+                  pdfIds={selectedPdfIds}
+                  documentNames={documents.filter(doc => selectedPdfIds.includes(doc.pdfId)).map(doc => doc.name)}
+                  onClose={() => setActiveTool(null)}
+                />
+              </div>
+            ) : activeTool === 'review' && documents.length > 0 ? (
+              <div className="max-w-4xl mx-auto">
+                <LegalReview
+                  documents={documents}
+                  initialPdfId={selectedPdfIds[0]}
+                  onClose={() => setActiveTool(null)}
+                  onOpenSource={handleOpenSource}
+                />
+              </div>
+            ) : activeTool === 'compare' && documents.length > 0 ? (
+              <div className="max-w-5xl mx-auto">
+                <CompareDocuments
+                  documents={documents}
+                  initialPdfIds={selectedPdfIds}
+                  onClose={() => setActiveTool(null)}
+                />
+              </div>
+            ) : (
+            <div className="max-w-4xl mx-auto space-y-6">
+              {messages.length === 0 && (
+                <div className="text-center py-12 bg-white bg-opacity-0 backdrop-blur-sm rounded-lg">
+                  <Bot className="mx-auto text-white mb-4" size={40} />
+                  <h2 className="text-lg sm:text-xl font-semibold text-white mb-2 inline">Welcome to </h2>
+                  <h2 className="text-xl sm:text-2xl font-bold text-white mb-4 inline font-sarif italic">LEGALEASE</h2>
+                  <p className="text-sm sm:text-base text-white max-w-md mx-auto">
+                    Upload a document, then ask questions about it.<br />
+                    You can have general conversations or use voice input!
+                  </p>
+                  <div className="mt-4 text-xs sm:text-sm text-white max-w-lg mx-auto">
+                    <p className="mb-2"><strong>PDF Workflow:</strong></p>
+                    <div className="flex justify-center">
+                      <ol className="list-decimal list-inside space-y-1 text-left">
+                        <li>Upload a PDF file (gets indexed automatically)</li>
+                        <li>Ask questions about the uploaded document</li>
+                        <li>Continue asking questions about the same PDF</li>
+                        <li>Upload more PDFs and pick which ones each question targets</li>
+                      </ol>
+                    </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
+
+              {messages.map((message) => (
+                <div key={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
+                  <div className={`flex space-x-3 max-w-3xl ${message.sender === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}>
+                    {/* Avatar */}
+                    <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${message.sender === 'user' ? 'bg-primary-500' : 'bg-secondary-600'
+                      }`}>
+                      {message.sender === 'user' ? (
+                        <User className="text-white" size={16} />
+                      ) : (
+                        <Bot className="text-white" size={16} />
+                      )}
+                    </div>
 
-            {messages.map((message) => (
-              <div key={message.id} className={`flex ${message.sender === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`flex space-x-3 max-w-3xl ${message.sender === 'user' ? 'flex-row-reverse space-x-reverse' : ''}`}>
-                  {/* Avatar */}
-                  <div className={`flex-shrink-0 w-8 h-8 rounded-full flex items-center justify-center ${message.sender === 'user' ? 'bg-primary-500' : 'bg-secondary-600'
-                    }`}>
-                    {message.sender === 'user' ? (
-                      <User className="text-white" size={16} />
-                    ) : (
-                      <Bot className="text-white" size={16} />
-                    )}
+                    {/* Message Content */}
+                    <div className={`px-4 py-3 rounded-lg animate-slide-up ${message.sender === 'user'
+                      ? 'bg-primary-500 text-white'
+                      : 'bg-white bg-opacity-100 backdrop-blur-sm text-gray-900 border border-gray-200'
+                      }`}>
+                      <div className="space-y-1">
+                        {message.type === 'file' && (
+                          <div className="flex items-center space-x-2 text-sm opacity-80">
+                            <Paperclip size={14} />
+                            <span>File uploaded</span>
+                          </div>
+                        )}
+                        {message.type === 'voice' && (
+                          <div className="flex items-center space-x-2 text-sm opacity-80">
+                            <span>🎤</span>
+                            <span>Voice input</span>
+                          </div>
+                        )}
+                        {message.insights ? (
+                          <DocumentInsightsCard
+                            cardId={message.id}
+                            insights={message.insights}
+                            onSelectQuestion={handleSuggestedQuestion}
+                            onOpenSource={handleOpenSource}
+                          />
+                        ) : message.documentAnswers && message.documentAnswers.length > 1 ? (
+                          <div className="space-y-3">
+                            {message.documentAnswers.map((part) => (
+                              <div key={part.pdf_id} className="border-l-2 border-primary-500 pl-3">
+                                <p className="text-xs font-semibold text-primary-600 mb-1">📄 {part.filename}</p>
+                                {part.standalone_question && (
+                                  <p className="text-xs italic text-gray-500 mb-1">🔎 Interpreted as: {part.standalone_question}</p>
+                                )}
+                                {part.error ? (
+                                  <p className="text-sm text-red-600">⚠️ {part.error}</p>
+                                ) : (
+                                  <AnswerWithCitations
+                                    answerId={`${message.id}-${part.pdf_id}`}
+                                    text={part.answer || ''}
+                                    sources={part.sources}
+                                    onOpenSource={handleOpenSource}
+                                  />
+                                )}
+                              </div>
+                            ))}
+                          </div>
+                        ) : (
+                          <>
+                            {message.standaloneQuestion && (
+                              <p className="text-xs italic text-gray-500 mb-1">🔎 Interpreted as: {message.standaloneQuestion}</p>
+                            )}
+                            <AnswerWithCitations
+                              answerId={message.id}
+                              text={message.content}
+                              sources={message.sources}
+                              onOpenSource={handleOpenSource}
+                            />
+                          </>
+                        )}
+                        <p className={`text-xs mt-2 ${message.sender === 'user' ? 'text-primary-100' : 'text-gray-400'
+                          }`}>
+                          {formatTime(message.timestamp)}
+                        </p>
+                      </div>
+                    </div>
                   </div>
+                </div>
+              ))}
 
-                  {/* Message Content */}
-                  <div className={`px-4 py-3 rounded-lg animate-slide-up ${message.sender === 'user'
-                    ? 'bg-primary-500 text-white'
-                    : 'bg-white bg-opacity-100 backdrop-blur-sm text-gray-900 border border-gray-200'
-                    }`}>
-                    <div className="space-y-1">
-                      {message.type === 'file' && (
-                        <div className="flex items-center space-x-2 text-sm opacity-80">
-                          <Paperclip size={14} />
-                          <span>File uploaded</span>
-                        </div>
-                      )}
-                      {message.type === 'voice' && (
-                        <div className="flex items-center space-x-2 text-sm opacity-80">
-                          <span>🎤</span>
-                          <span>Voice input</span>
+              {uploadProgress && (
+                <div className="flex justify-start">
+                  <div className="flex space-x-3 w-full max-w-md">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary-600 flex items-center justify-center">
+                      <Bot className="text-white" size={16} />
+                    </div>
+                    <div className="flex-1 px-4 py-3 bg-white rounded-lg border border-gray-200 animate-slide-up">
+                      <div className="flex items-center justify-between space-x-2 text-sm">
+                        <div className="flex items-center space-x-2 text-gray-600">
+                          <Loader2 className="animate-spin text-primary-500" size={16} />
+                          <span>
+                            {uploadProgress.phase === 'uploading' && `📤 Uploading document... ${uploadProgress.percent}%`}
+                            {uploadProgress.phase === 'indexing' && '🗂️ Processing and indexing document...'}
+                            {uploadProgress.phase === 'retrying' && `🔁 Upload failed, retrying in ${Math.round((uploadProgress.retryInMs || 0) / 1000)}s...`}
+                          </span>
                         </div>
+                        <button
+                          onClick={handleCancelUpload}
+                          className="text-xs text-red-600 hover:text-red-800 underline"
+                          type="button"
+                        >
+                          Cancel
+                        </button>
+                      </div>
+                      <div className="mt-2 w-full h-2 bg-gray-200 rounded-full overflow-hidden">
+                        <div
+                          className={`h-full bg-primary-500 transition-all ${uploadProgress.phase === 'indexing' ? 'animate-pulse' : ''}`}
+                          style={{ width: `${uploadProgress.phase === 'retrying' ? 0 : uploadProgress.percent}%` }}
+                        />
+                      </div>
+                      {uploadProgress.attempt > 1 && (
+                        <p className="mt-1 text-xs text-gray-400">Attempt {uploadProgress.attempt}</p>
                       )}
-                      <p className="whitespace-pre-wrap">{message.content}</p>
-                      <p className={`text-xs mt-2 ${message.sender === 'user' ? 'text-primary-100' : 'text-gray-400'
-                        }`}>
-                        {formatTime(message.timestamp)}
-                      </p>
                     </div>
                   </div>
                 </div>
-              </div>
-            ))}
-
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className="flex space-x-3 max-w-3xl">
-                  <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary-600 flex items-center justify-center">
-                    <Bot className="text-white" size={16} />
-                  </div>
-                  <div className="px-4 py-3 bg-white rounded-lg border border-gray-200 animate-slide-up">
-                    <div className="flex items-center space-x-2">
-                      <Loader2 className="animate-spin text-primary-500" size={16} />
-                      <span className="text-gray-600">AI is thinking...</span>
+              )}
+
+              {rateLimit && (
+                <RateLimitNotice
+                  message={rateLimit.message}
+                  until={rateLimit.until}
+                  onExpired={clearRateLimit}
+                />
+              )}
+
+              {isLoading && !uploadProgress && !(streamingMessageId && messages.some(m => m.id === streamingMessageId)) && (
+                <div className="flex justify-start">
+                  <div className="flex space-x-3 max-w-3xl">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary-600 flex items-center justify-center">
+                      <Bot className="text-white" size={16} />
+                    </div>
+                    <div className="px-4 py-3 bg-white rounded-lg border border-gray-200 animate-slide-up">
+                      <div className="flex items-center space-x-2">
+                        <Loader2 className="animate-spin text-primary-500" size={16} />
+                        <span className="text-gray-600">AI is thinking...</span>
+                      </div>
                     </div>
                   </div>
                 </div>
-              </div>
-            )}
+              )}
 
-            <div ref={messagesEndRef} />
+              <div ref={messagesEndRef} />
+            </div>
+            )}
           </div>
-        </div>
 
-        {/* File Upload Section */}
-        {showFileUpload && (
-          <div className="border-t border-gray-200 bg-white bg-opacity-100 backdrop-blur-md px-6 py-4 shadow-lg">
-            <div className="max-w-4xl mx-auto">
-              <FileUpload
-                onFileSelect={setSelectedFile}
-                selectedFile={selectedFile}
-                disabled={isLoading}
-              />
+          {/* File Upload Section */}
+          {showFileUpload && (
+            <div className="border-t border-gray-200 bg-white bg-opacity-100 backdrop-blur-md px-6 py-4 shadow-lg">
+              <div className="max-w-4xl mx-auto">
+                <FileUpload
+                  onFileSelect={setSelectedFile}
+                  selectedFile={selectedFile}
+                  disabled={isLoading}
+                  uploadFormats={uploadFormats}
+                />
+              </div>
             </div>
-          </div>
-        )}
+          )}
 
-        {/* Input Area (Footer) */}
-        <div className="w-full max-w-[1000px] bg-white/90 px-3 py-2 my-2 rounded-full flex items-center gap-2 shadow border border-gray-200 mx-auto mt-2">
-          {/* Attach button & hidden file input */}
-          <button
-            onClick={() => {
-              if (!isLoading && !isListening) {
-                document.getElementById('chat-file-input')?.click();
-              }
-            }}
-            className={`p-2 rounded-full ${selectedFile
-              ? "text-primary-500"
-              : "text-gray-600 hover:text-primary-500"
-              } transition-colors`}
-            title="Attach file"
-            disabled={isLoading || isListening}
-            type="button"
-          >
-            <Paperclip size={18} />
-            <input
-              id="chat-file-input"
-              type="file"
-              className="hidden"
-              accept=".jpg,.jpeg,.png,.gif,.pdf,.txt,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
-              disabled={isLoading || isListening}
-              onChange={e => {
-                const file = e.target.files?.[0] || null;
-                setSelectedFile(file);
+          {/* Input Area (Footer) */}
+          <div className="w-full max-w-[1000px] bg-white/90 px-3 py-2 my-2 rounded-full flex items-center gap-2 shadow border border-gray-200 mx-auto mt-2">
+            {/* Attach button & hidden file input */}
+            <button
+              onClick={() => {
+                if (!isLoading && !isListening) {
+                  document.getElementById('chat-file-input')?.click();
+                }
               }}
+              className={`p-2 rounded-full ${selectedFile
+                ? "text-primary-500"
+                : "text-gray-600 hover:text-primary-500"
+                } transition-colors`}
+              title="Attach file"
+              disabled={isLoading || isListening}
+              type="button"
+            >
+              <Paperclip size={18} />
+              <input
+                id="chat-file-input"
+                type="file"
+                className="hidden"
+                accept={acceptAttribute(uploadFormats.formats)}
+                disabled={isLoading || isListening}
+                onChange={e => {
+                  const file = e.target.files?.[0] || null;
+                  e.target.value = '';
+                  const error = file && validateUploadFile(file, uploadFormats);
+                  if (error) {
+                    addMessage(`⚠️ ${file.name}: ${error}`, 'assistant');
+                    return;
+                  }
+                  setSelectedFile(file);
+                }}
+              />
+            </button>
+
+            {/* Show selected file inline */}
+            {selectedFile && (
+              <div className="flex items-center bg-blue-50 text-blue-700 px-2 py-1 rounded gap-1 text-xs font-medium">
+                <span className="truncate max-w-[120px]">{selectedFile.name}</span>
+                <button
+                  className="ml-1 text-red-400 hover:text-red-600"
+                  onClick={() => setSelectedFile(null)}
+                  type="button"
+                  title="Remove file"
+                  disabled={isLoading || isListening}
+                >
+                  ×
+                </button>
+              </div>
+            )}
+
+            {/* Input field */}
+            <textarea
+              ref={textareaRef}
+              value={inputText}
+              onChange={(e) => setInputText(e.target.value)}
+              onKeyPress={handleKeyPress}
+              placeholder={selectedFile ? "Add a question about your file..." : "Type your message..."}
+              className="flex-1 bg-transparent text-black placeholder-gray-600 focus:outline-none resize-none text-sm px-2 py-1 rounded"
+              style={{ minHeight: "32px", maxHeight: "50px" }}
+              rows={1}
+              disabled={isLoading || isListening}
             />
-          </button>
 
-          {/* Show selected file inline */}
-          {selectedFile && (
-            <div className="flex items-center bg-blue-50 text-blue-700 px-2 py-1 rounded gap-1 text-xs font-medium">
-              <span className="truncate max-w-[120px]">{selectedFile.name}</span>
+            {/* VoiceRecognition as mic */}
+            <div className="flex-shrink-0 text-gray-600 hover:text-primary-500">
+              <VoiceRecognition
+                onTranscription={handleVoiceTranscription}
+                isListening={isListening}
+                setIsListening={setIsListening}
+              />
+            </div>
+
+            {/* Send button (Stop while an answer is streaming) */}
+            {streamingMessageId ? (
               <button
-                className="ml-1 text-red-400 hover:text-red-600"
-                onClick={() => setSelectedFile(null)}
+                onClick={handleStop}
+                className="flex-shrink-0 bg-red-500 text-white p-2 rounded-full transition-colors hover:bg-red-600"
+                title="Stop"
                 type="button"
-                title="Remove file"
-                disabled={isLoading || isListening}
               >
-                ×
+                <Square size={16} />
               </button>
-            </div>
-          )}
+            ) : (
+              <button
+                onClick={handleSend}
+                disabled={(!inputText.trim() && !selectedFile) || isLoading || isListening || !!rateLimit || documentServiceBlocked}
+                className="flex-shrink-0 bg-primary-500 text-white p-2 rounded-full disabled:bg-gray-600 disabled:text-gray-200 transition-colors hover:bg-primary-600"
+                title="Send"
+                type="button"
+              >
+                {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
+              </button>
+            )}
+          </div>
+        </div>
 
-          {/* Input field */}
-          <textarea
-            ref={textareaRef}
-            value={inputText}
-            onChange={(e) => setInputText(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder={selectedFile ? "Add a question about your file..." : "Type your message..."}
-            className="flex-1 bg-transparent text-black placeholder-gray-600 focus:outline-none resize-none text-sm px-2 py-1 rounded"
-            style={{ minHeight: "32px", maxHeight: "50px" }}
-            rows={1}
-            disabled={isLoading || isListening}
+        {viewerTarget && (
+          <PdfViewer
+            target={viewerTarget}
+            fileName={documents.find(doc => doc.pdfId === viewerTarget.pdfId)?.name || viewerTarget.pdfId}
+            onClose={() => setViewerTarget(null)}
           />
+        )}
 
-          {/* VoiceRecognition as mic */}
-          <div className="flex-shrink-0 text-gray-600 hover:text-primary-500">
-            <VoiceRecognition
-              onTranscription={handleVoiceTranscription}
-              isListening={isListening}
-              setIsListening={setIsListening}
-            />
-          </div>
-
-          {/* Send button */}
-          <button
-            onClick={handleSend}
-            disabled={(!inputText.trim() && !selectedFile) || isLoading || isListening}
-            className="flex-shrink-0 bg-primary-500 text-white p-2 rounded-full disabled:bg-gray-600 disabled:text-gray-200 transition-colors hover:bg-primary-600"
-            title="Send"
-            type="button"
-          >
-            {isLoading ? <Loader2 className="animate-spin" size={16} /> : <Send size={16} />}
-          </button>
-        </div>
+        {showDocuments && documents.length > 0 && (
+          <DocumentPanel
+            documents={documents}
+            selectedPdfIds={selectedPdfIds}
+            onToggle={handleToggleDocument}
+            onSelectAll={handleSelectAllDocuments}
+            onRemove={handleRemoveDocument}
+            onView={handleViewDocument}
+            disabled={isLoading}
+          />
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,231 @@
+import React, { useRef, useState } from 'react';
+import { GitCompare, Play, Square, X, Loader2 } from 'lucide-react';
+import { CompareAnswer, CompareResponse, DocumentComparison, WorkspaceDocument } from '../types';
+import { apiService } from '../services/api';
+import { errorMessage } from '../services/apiErrors';
+import { parseQuestionList } from '../utils/batch';
+import { DEFAULT_INSIGHT_PROMPTS } from '../utils/documentInsights';
+import { DiffSegment, diffWords } from '../utils/textDiff';
+
+interface CompareDocumentsProps {
+  documents: WorkspaceDocument[];
+  initialPdfIds?: string[];
+  onClose: () => void;
+}
+
+// Start from the overview questions minus the free-form summary, which differs for almost any two documents
+const DEFAULT_COMPARE_QUESTIONS = DEFAULT_INSIGHT_PROMPTS
+  .filter(prompt => prompt.id !== 'summary')
+  .map(prompt => prompt.question);
+
+const DiffText: React.FC<{ segments: DiffSegment[]; highlightClass: string }> = ({ segments, highlightClass }) => (
+  <p className="whitespace-pre-wrap">
+    {segments.map((segment, index) =>
+      segment.changed
+        ? <mark key={index} className={`${highlightClass} rounded px-0.5`}>{segment.text}</mark>
+        : <React.Fragment key={index}>{segment.text}</React.Fragment>
+    )}
+  </p>
+);
+
+const CompareDocuments: React.FC<CompareDocumentsProps> = ({ documents, initialPdfIds = [], onClose }) => {
+  const [leftPdfId, setLeftPdfId] = useState(initialPdfIds[0] || documents[0]?.pdfId || '');
+  const [rightPdfId, setRightPdfId] = useState(
+    initialPdfIds[1] || documents.find(doc => doc.pdfId !== leftPdfId)?.pdfId || ''
+  );
+  const [questionsText, setQuestionsText] = useState(DEFAULT_COMPARE_QUESTIONS.join('\n'));
+  const [result, setResult] = useState<CompareResponse | null>(null);
+  const [onlyDifferences, setOnlyDifferences] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const questions = parseQuestionList(questionsText);
+  const canRun = questions.length > 0 && !!leftPdfId && !!rightPdfId && leftPdfId !== rightPdfId;
+  const comparisons = result
+    ? result.comparisons.filter(comparison => !onlyDifferences || comparison.identical !== true)
+    : [];
+
+  const handleRun = async () => {
+    if (!canRun) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setResult(null);
+
+    try {
+      setResult(await apiService.compareDocuments([leftPdfId, rightPdfId], questions, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Document comparison failed:', err);
+        setError(errorMessage(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const renderAnswers = (comparison: DocumentComparison) => {
+    const [left, right] = comparison.answers;
+    const renderError = (answer: CompareAnswer) => <p className="text-red-600">⚠️ {answer.error}</p>;
+
+    if (left.error || right.error) {
+      return (
+        <>
+          <td className="px-2 py-2">{left.error ? renderError(left) : <p className="whitespace-pre-wrap">{left.answer}</p>}</td>
+          <td className="px-2 py-2">{right.error ? renderError(right) : <p className="whitespace-pre-wrap">{right.answer}</p>}</td>
+        </>
+      );
+    }
+
+    const diff = diffWords(left.answer || '', right.answer || '');
+    return (
+      <>
+        <td className="px-2 py-2"><DiffText segments={diff.left} highlightClass="bg-red-100 text-red-800" /></td>
+        <td className="px-2 py-2"><DiffText segments={diff.right} highlightClass="bg-green-100 text-green-800" /></td>
+      </>
+    );
+  };
+
+  const documentSelect = (value: string, onChange: (pdfId: string) => void, label: string) => (
+    <label className="flex items-center space-x-1 text-gray-600">
+      <span>{label}</span>
+      <select
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        disabled={isRunning}
+        className="border border-gray-300 rounded px-1 py-0.5 max-w-xs"
+      >
+        {documents.map(doc => <option key={doc.pdfId} value={doc.pdfId}>{doc.name}</option>)}
+      </select>
+    </label>
+  );
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 space-y-4 text-gray-900">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="flex items-center space-x-2 text-lg font-semibold">
+            <GitCompare size={20} className="text-primary-500" />
+            <span>Compare documents</span>
+          </h2>
+          <p className="text-sm text-gray-500">
+            {documents.length > 1
+              ? 'Asks both documents the same questions and highlights where the answers differ.'
+              : 'Upload a second document to compare it with this one.'}
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close compare mode" type="button">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {documentSelect(leftPdfId, setLeftPdfId, 'Old')}
+        {documentSelect(rightPdfId, setRightPdfId, 'New')}
+        {leftPdfId === rightPdfId && documents.length > 1 && (
+          <span className="text-xs text-red-600">Pick two different documents.</span>
+        )}
+      </div>
+
+      <textarea
+        value={questionsText}
+        onChange={(e) => setQuestionsText(e.target.value)}
+        placeholder="One question per line"
+        className="w-full h-28 border border-gray-300 rounded-lg p-2 text-sm focus:outline-none focus:border-primary-500"
+        disabled={isRunning}
+      />
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="text-gray-500">{questions.length} question{questions.length === 1 ? '' : 's'}</span>
+        {result && (
+          <label className="flex items-center space-x-1 text-gray-600">
+            <input type="checkbox" checked={onlyDifferences} onChange={(e) => setOnlyDifferences(e.target.checked)} />
+            <span>Only show differences</span>
+          </label>
+        )}
+
+        {isRunning ? (
+          <button
+            onClick={handleStop}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-red-500 text-white rounded-lg hover:bg-red-600"
+            type="button"
+          >
+            <Square size={14} />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!canRun}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:bg-gray-400"
+            type="button"
+          >
+            <Play size={14} />
+            <span>Compare</span>
+          </button>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <Loader2 className="animate-spin text-primary-500" size={16} />
+          <span>Asking both documents {questions.length} question{questions.length === 1 ? '' : 's'}...</span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">⚠️ {error}</p>}
+
+      {result && (
+        <div className="space-y-2">
+          <p className="text-sm text-gray-600">
+            {result.summary.differing} of {result.summary.questions} answers differ
+            {result.summary.errors > 0 && ` · ${result.summary.errors} could not be compared`}
+          </p>
+
+          <div className="max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm text-left table-fixed">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-2 py-2 w-1/5">Question</th>
+                  <th className="px-2 py-2">📄 {result.documents[0].filename}</th>
+                  <th className="px-2 py-2">📄 {result.documents[1].filename}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparisons.map((comparison, index) => (
+                  <tr key={`${index}-${comparison.question}`} className="border-t border-gray-200 align-top">
+                    <td className="px-2 py-2">
+                      <p>{comparison.question}</p>
+                      {comparison.identical === true && <p className="text-xs text-green-700 mt-1">Same</p>}
+                      {comparison.identical === false && (
+                        <p className="text-xs text-yellow-700 mt-1">
+                          Different ({Math.round((comparison.similarity || 0) * 100)}% overlap)
+                        </p>
+                      )}
+                    </td>
+                    {renderAnswers(comparison)}
+                  </tr>
+                ))}
+                {comparisons.length === 0 && (
+                  <tr>
+                    <td colSpan={3} className="px-2 py-4 text-center text-gray-500">No differences found.</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CompareDocuments;
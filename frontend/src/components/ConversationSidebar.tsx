@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { MessageSquare, Pencil, Plus, Trash2, Check, X } from 'lucide-react';
+import { Conversation } from '../types';
+
+interface ConversationSidebarProps {
+  conversations: Conversation[];
+  activeConversationId: string | null;
+  onSelect: (id: string) => void;
+  onNew: () => void;
+  onRename: (id: string, title: string) => void;
+  onDelete: (id: string) => void;
+  disabled?: boolean;
+}
+
+const ConversationSidebar: React.FC<ConversationSidebarProps> = ({
+  conversations,
+  activeConversationId,
+  onSelect,
+  onNew,
+  onRename,
+  onDelete,
+  disabled = false,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+
+  const startRename = (conversation: Conversation) => {
+    setEditingId(conversation.id);
+    setDraftTitle(conversation.title);
+  };
+
+  const commitRename = () => {
+    if (editingId && draftTitle.trim()) {
+      onRename(editingId, draftTitle.trim());
+    }
+    setEditingId(null);
+  };
+
+  const handleDelete = (conversation: Conversation) => {
+    if (window.confirm(`Delete "${conversation.title}"? This cannot be undone.`)) {
+      onDelete(conversation.id);
+    }
+  };
+
+  const formatDate = (date: Date) => {
+    return date.toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 flex flex-col bg-white bg-opacity-95 border-r border-gray-200 shadow-lg">
+      <div className="p-3 border-b border-gray-200">
+        <button
+          onClick={onNew}
+          disabled={disabled}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-primary-500 text-white rounded-lg text-sm hover:bg-primary-600 disabled:bg-gray-400 transition-colors"
+          type="button"
+        >
+          <Plus size={16} />
+          <span>New conversation</span>
+        </button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {conversations.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-4">No saved conversations yet.</p>
+        )}
+
+        {conversations.map((conversation) => (
+          <div
+            key={conversation.id}
+            className={`group rounded-lg px-2 py-2 text-sm cursor-pointer ${conversation.id === activeConversationId
+              ? 'bg-primary-50 border border-primary-500'
+              : 'hover:bg-gray-100 border border-transparent'
+              }`}
+            onClick={() => !disabled && editingId !== conversation.id && onSelect(conversation.id)}
+          >
+            {editingId === conversation.id ? (
+              <div className="flex items-center space-x-1" onClick={(e) => e.stopPropagation()}>
+                <input
+                  value={draftTitle}
+                  onChange={(e) => setDraftTitle(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setEditingId(null);
+                  }}
+                  className="flex-1 min-w-0 border border-gray-300 rounded px-1 py-0.5 text-sm text-gray-900"
+                  autoFocus
+                />
+                <button onClick={commitRename} className="p-1 text-green-600 hover:text-green-800" title="Save" type="button">
+                  <Check size={14} />
+                </button>
+                <button onClick={() => setEditingId(null)} className="p-1 text-gray-400 hover:text-gray-600" title="Cancel" type="button">
+                  <X size={14} />
+                </button>
+              </div>
+            ) : (
+              <div className="flex items-start space-x-2">
+                <MessageSquare size={14} className="mt-0.5 flex-shrink-0 text-gray-400" />
+                <div className="flex-1 min-w-0">
+                  <p className="truncate text-gray-900">{conversation.title}</p>
+                  <p className="text-xs text-gray-400">
+                    {formatDate(conversation.updatedAt)}
+                    {conversation.documents.length > 0 && ` · 📝 ${conversation.documents.length} document${conversation.documents.length === 1 ? '' : 's'}`}
+                  </p>
+                </div>
+                <div className="hidden group-hover:flex items-center space-x-1">
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      startRename(conversation);
+                    }}
+                    className="p-1 text-gray-400 hover:text-primary-500"
+                    title="Rename"
+                    type="button"
+                  >
+                    <Pencil size={12} />
+                  </button>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      handleDelete(conversation);
+                    }}
+                    disabled={disabled}
+                    className="p-1 text-gray-400 hover:text-red-500"
+                    title="Delete"
+                    type="button"
+                  >
+                    <Trash2 size={12} />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default ConversationSidebar;
@@ -0,0 +1,59 @@
+import React from 'react';
+import { Sparkles, MessageSquarePlus } from 'lucide-react';
+import { DocumentInsights, HackRXSource } from '../types';
+import AnswerWithCitations from './AnswerWithCitations';
+
+interface DocumentInsightsCardProps {
+  cardId: string;
+  insights: DocumentInsights;
+  onSelectQuestion: (question: string) => void; // Fill the input with a suggested question
+  onOpenSource?: (source: HackRXSource) => void;
+}
+
+const DocumentInsightsCard: React.FC<DocumentInsightsCardProps> = ({ cardId, insights, onSelectQuestion, onOpenSource }) => {
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center space-x-2 text-sm font-semibold text-gray-900">
+        <Sparkles size={16} className="text-primary-600" />
+        <span>Overview of "{insights.documentName}"</span>
+      </div>
+
+      {insights.insights.map(insight => (
+        <div key={insight.id} className="border-l-2 border-primary-500 pl-3">
+          <p className="text-xs font-semibold text-primary-600 mb-1">{insight.title}</p>
+          {insight.error ? (
+            <p className="text-sm text-red-600">⚠️ {insight.error}</p>
+          ) : (
+            <AnswerWithCitations
+              answerId={`${cardId}-${insight.id}`}
+              text={insight.answer || 'No answer.'}
+              sources={insight.sources}
+              onOpenSource={onOpenSource}
+            />
+          )}
+        </div>
+      ))}
+
+      {insights.suggestedQuestions.length > 0 && (
+        <div>
+          <p className="text-xs font-semibold text-gray-500 mb-1">Suggested questions</p>
+          <div className="flex flex-wrap gap-2">
+            {insights.suggestedQuestions.map(question => (
+              <button
+                key={question}
+                type="button"
+                onClick={() => onSelectQuestion(question)}
+                className="flex items-center space-x-1 text-left text-xs px-2 py-1 rounded-full border border-primary-200 text-primary-700 bg-primary-50 hover:bg-primary-100 transition-colors"
+              >
+                <MessageSquarePlus size={12} className="flex-shrink-0" />
+                <span>{question}</span>
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default DocumentInsightsCard;
@@ -0,0 +1,111 @@
+import React from 'react';
+import { FileText, Trash2, Eye } from 'lucide-react';
+import { WorkspaceDocument } from '../types';
+
+interface DocumentPanelProps {
+  documents: WorkspaceDocument[];
+  selectedPdfIds: string[];
+  onToggle: (pdfId: string) => void;
+  onSelectAll: (selected: boolean) => void;
+  onRemove: (pdfId: string) => void;
+  onView: (pdfId: string) => void;
+  disabled?: boolean;
+}
+
+const DocumentPanel: React.FC<DocumentPanelProps> = ({
+  documents,
+  selectedPdfIds,
+  onToggle,
+  onSelectAll,
+  onRemove,
+  onView,
+  disabled = false,
+}) => {
+  const allSelected = documents.length > 0 && documents.every(doc => selectedPdfIds.includes(doc.pdfId));
+
+  const formatIndexedAt = (date: Date) => {
+    return date.toLocaleString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+  };
+
+  return (
+    <aside className="w-64 flex-shrink-0 flex flex-col bg-white bg-opacity-95 border-l border-gray-200 shadow-lg">
+      <div className="p-3 border-b border-gray-200 flex items-center justify-between">
+        <div>
+          <h2 className="text-sm font-semibold text-gray-900">Documents</h2>
+          <p className="text-xs text-gray-500">
+            {selectedPdfIds.length} of {documents.length} selected for questions
+          </p>
+        </div>
+        {documents.length > 1 && (
+          <button
+            onClick={() => onSelectAll(!allSelected)}
+            disabled={disabled}
+            className="text-xs text-primary-600 hover:text-primary-700 underline"
+            type="button"
+          >
+            {allSelected ? 'None' : 'All'}
+          </button>
+        )}
+      </div>
+
+      <div className="flex-1 overflow-y-auto p-2 space-y-1">
+        {documents.length === 0 && (
+          <p className="text-xs text-gray-500 text-center py-4">Upload PDFs to build your workspace.</p>
+        )}
+
+        {documents.map((doc) => (
+          <label
+            key={doc.pdfId}
+            className={`group flex items-start space-x-2 rounded-lg px-2 py-2 text-sm cursor-pointer border ${selectedPdfIds.includes(doc.pdfId)
+              ? 'bg-primary-50 border-primary-500'
+              : 'hover:bg-gray-100 border-transparent'
+              }`}
+          >
+            <input
+              type="checkbox"
+              className="mt-1"
+              checked={selectedPdfIds.includes(doc.pdfId)}
+              onChange={() => onToggle(doc.pdfId)}
+              disabled={disabled}
+            />
+            <FileText size={14} className="mt-1 flex-shrink-0 text-gray-400" />
+            <div className="flex-1 min-w-0">
+              <p className="truncate text-gray-900" title={doc.name}>{doc.name}</p>
+              <p className="text-xs text-gray-400">Indexed {formatIndexedAt(doc.indexedAt)}</p>
+            </div>
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                onView(doc.pdfId);
+              }}
+              className="hidden group-hover:block p-1 text-gray-400 hover:text-primary-500"
+              title="View document"
+              type="button"
+            >
+              <Eye size={12} />
+            </button>
+            <button
+              onClick={(e) => {
+                e.preventDefault();
+                onRemove(doc.pdfId);
+              }}
+              disabled={disabled}
+              className="hidden group-hover:block p-1 text-gray-400 hover:text-red-500"
+              title="Remove from workspace"
+              type="button"
+            >
+              <Trash2 size={12} />
+            </button>
+          </label>
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default DocumentPanel;
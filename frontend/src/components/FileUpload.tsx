@@ -1,50 +1,24 @@
 import React, { useState, useRef } from 'react';
 import { Upload, File, X, AlertCircle } from 'lucide-react';
+import { UploadFormatsResponse } from '../types';
+import { DEFAULT_UPLOAD_FORMATS, acceptAttribute, describeFormats, validateUploadFile } from '../utils/uploadFormats';
 
 interface FileUploadProps {
   onFileSelect: (file: File | null) => void;
   selectedFile: File | null;
   disabled?: boolean;
+  uploadFormats?: UploadFormatsResponse; // Formats the server accepts
 }
 
-const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, disabled = false }) => {
+const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, disabled = false, uploadFormats = DEFAULT_UPLOAD_FORMATS }) => {
   const [dragOver, setDragOver] = useState(false);
   const [uploadError, setUploadError] = useState<string | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const allowedTypes = [
-    'image/jpeg',
-    'image/jpg', 
-    'image/png',
-    'image/gif',
-    'application/pdf',
-    'text/plain',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation'
-  ];
-
-  const maxFileSize = 10 * 1024 * 1024; // 10MB
-
-  const validateFile = (file: File): string | null => {
-    if (!allowedTypes.includes(file.type)) {
-      return 'File type not supported. Please upload images, PDFs, or Office documents.';
-    }
-    
-    if (file.size > maxFileSize) {
-      return 'File size must be less than 10MB.';
-    }
-    
-    return null;
-  };
-
   const handleFileSelect = (file: File) => {
     setUploadError(null);
     
-    const error = validateFile(file);
+    const error = validateUploadFile(file, uploadFormats);
     if (error) {
       setUploadError(error);
       return;
@@ -127,7 +101,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, dis
           type="file"
           className="hidden"
           onChange={handleInputChange}
-          accept=".jpg,.jpeg,.png,.gif,.pdf,.txt,.doc,.docx,.xls,.xlsx,.ppt,.pptx"
+          accept={acceptAttribute(uploadFormats.formats)}
           disabled={disabled}
         />
 
@@ -157,7 +131,7 @@ const FileUpload: React.FC<FileUploadProps> = ({ onFileSelect, selectedFile, dis
                 Drop your file here or click to browse
               </p>
               <p className="text-sm text-gray-500 mt-1">
-                Supports images, PDFs, and Office documents (max 10MB)
+                Supports {describeFormats(uploadFormats.formats)} (max {formatFileSize(uploadFormats.max_size_bytes)})
               </p>
             </div>
           </div>
@@ -0,0 +1,221 @@
+import React, { useRef, useState } from 'react';
+import { Scale, Play, Square, Download, X, Loader2, CheckCircle, XCircle, AlertCircle } from 'lucide-react';
+import { HackRXSource, LegalReviewClause, LegalReviewReport, LegalRisk, WorkspaceDocument } from '../types';
+import { apiService } from '../services/api';
+import { errorMessage } from '../services/apiErrors';
+import { LegalReviewExportFormat, clauseStatusLabel, formatLegalReview, riskLabel } from '../utils/legalReview';
+import { downloadFile, fileTimestamp } from '../utils/download';
+import AnswerWithCitations from './AnswerWithCitations';
+
+interface LegalReviewProps {
+  documents: WorkspaceDocument[];
+  initialPdfId?: string;
+  onClose: () => void;
+  onOpenSource?: (source: HackRXSource) => void;
+}
+
+const EXPORT_FORMATS: Array<{ format: LegalReviewExportFormat; label: string; mimeType: string }> = [
+  { format: 'csv', label: 'CSV', mimeType: 'text/csv' },
+  { format: 'json', label: 'JSON', mimeType: 'application/json' },
+  { format: 'md', label: 'Markdown', mimeType: 'text/markdown' },
+];
+
+const RISK_STYLES: Record<LegalRisk, string> = {
+  low: 'bg-green-100 text-green-700',
+  medium: 'bg-yellow-100 text-yellow-800',
+  high: 'bg-red-100 text-red-700',
+};
+
+const RiskBadge: React.FC<{ risk: LegalRisk | null }> = ({ risk }) => (
+  <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${risk ? RISK_STYLES[risk] : 'bg-gray-100 text-gray-500'}`}>
+    {riskLabel(risk)}
+  </span>
+);
+
+const LegalReview: React.FC<LegalReviewProps> = ({ documents, initialPdfId, onClose, onOpenSource }) => {
+  const [pdfId, setPdfId] = useState(initialPdfId || documents[0]?.pdfId || '');
+  const [report, setReport] = useState<LegalReviewReport | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const handleRun = async () => {
+    if (!pdfId) return;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsRunning(true);
+    setError(null);
+    setReport(null);
+
+    try {
+      setReport(await apiService.reviewDocument(pdfId, controller.signal));
+    } catch (err) {
+      if (!controller.signal.aborted) {
+        console.error('Legal review failed:', err);
+        setError(errorMessage(err));
+      }
+    } finally {
+      abortRef.current = null;
+      setIsRunning(false);
+    }
+  };
+
+  const handleStop = () => {
+    abortRef.current?.abort();
+  };
+
+  const handleExport = (format: LegalReviewExportFormat, mimeType: string) => {
+    if (!report) return;
+    downloadFile(formatLegalReview(report, format), `legal-review-${fileTimestamp()}.${format}`, mimeType);
+  };
+
+  const statusIcon = (clause: LegalReviewClause) => {
+    switch (clause.status) {
+      case 'found':
+        return <CheckCircle className="text-green-600" size={16} />;
+      case 'missing':
+        return <XCircle className="text-red-600" size={16} />;
+      default:
+        return <AlertCircle className="text-gray-400" size={16} />;
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-lg border border-gray-200 p-4 space-y-4 text-gray-900">
+      <div className="flex items-start justify-between">
+        <div>
+          <h2 className="flex items-center space-x-2 text-lg font-semibold">
+            <Scale size={20} className="text-primary-500" />
+            <span>Review document</span>
+          </h2>
+          <p className="text-sm text-gray-500">
+            Checks the document for termination, liability cap, indemnity, governing law, auto-renewal,
+            waiting period and exclusion clauses.
+          </p>
+        </div>
+        <button onClick={onClose} className="p-1 text-gray-400 hover:text-gray-600" title="Close review" type="button">
+          <X size={18} />
+        </button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <label className="flex items-center space-x-1 text-gray-600">
+          <span>Document</span>
+          <select
+            value={pdfId}
+            onChange={(e) => setPdfId(e.target.value)}
+            disabled={isRunning}
+            className="border border-gray-300 rounded px-1 py-0.5 max-w-xs"
+          >
+            {documents.map(doc => <option key={doc.pdfId} value={doc.pdfId}>{doc.name}</option>)}
+          </select>
+        </label>
+
+        {isRunning ? (
+          <button
+            onClick={handleStop}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-red-500 text-white rounded-lg hover:bg-red-600"
+            type="button"
+          >
+            <Square size={14} />
+            <span>Stop</span>
+          </button>
+        ) : (
+          <button
+            onClick={handleRun}
+            disabled={!pdfId}
+            className="ml-auto flex items-center space-x-1 px-3 py-1.5 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:bg-gray-400"
+            type="button"
+          >
+            <Play size={14} />
+            <span>{report ? 'Run again' : 'Run review'}</span>
+          </button>
+        )}
+      </div>
+
+      {isRunning && (
+        <div className="flex items-center space-x-2 text-sm text-gray-500">
+          <Loader2 className="animate-spin text-primary-500" size={16} />
+          <span>Checking each clause against the document...</span>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-600">⚠️ {error}</p>}
+
+      {report && (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <span className="flex items-center space-x-1">
+              <span className="text-gray-500">Overall risk:</span>
+              <RiskBadge risk={report.summary.overall_risk} />
+            </span>
+            <span className="text-green-700">{report.summary.found} found</span>
+            <span className="text-red-700">{report.summary.missing} missing</span>
+            {report.summary.errors > 0 && <span className="text-gray-500">{report.summary.errors} not checked</span>}
+          </div>
+
+          <div className="max-h-[32rem] overflow-y-auto border border-gray-200 rounded-lg">
+            <table className="w-full text-sm text-left">
+              <thead className="bg-gray-50 sticky top-0">
+                <tr>
+                  <th className="px-2 py-2 w-40">Clause</th>
+                  <th className="px-2 py-2 w-24">Risk</th>
+                  <th className="px-2 py-2">Extracted text</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.clauses.map(clause => (
+                  <tr key={clause.id} className="border-t border-gray-200 align-top">
+                    <td className="px-2 py-2">
+                      <div className="flex items-center space-x-1 font-medium">
+                        {statusIcon(clause)}
+                        <span>{clause.title}</span>
+                      </div>
+                      <p className="text-xs text-gray-500 ml-5">{clauseStatusLabel(clause)}</p>
+                    </td>
+                    <td className="px-2 py-2">
+                      <RiskBadge risk={clause.risk} />
+                      {clause.risk_reasons.map(reason => (
+                        <p key={reason} className="text-xs text-gray-500 mt-1">{reason}</p>
+                      ))}
+                    </td>
+                    <td className="px-2 py-2">
+                      {clause.error ? (
+                        <span className="text-red-600">{clause.error}</span>
+                      ) : (
+                        <AnswerWithCitations
+                          answerId={`review-${clause.id}`}
+                          text={clause.text || ''}
+                          sources={clause.sources}
+                          onOpenSource={onOpenSource}
+                        />
+                      )}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex items-center gap-2 text-sm">
+            <Download size={14} className="text-gray-500" />
+            <span className="text-gray-500">Export:</span>
+            {EXPORT_FORMATS.map(({ format, label, mimeType }) => (
+              <button
+                key={format}
+                onClick={() => handleExport(format, mimeType)}
+                className="px-2 py-1 border border-gray-300 rounded hover:bg-gray-50"
+                type="button"
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default LegalReview;
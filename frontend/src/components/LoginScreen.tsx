@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Bot, Loader2, LogIn, UserPlus } from 'lucide-react';
+import { AuthUser } from '../types';
+import { apiService } from '../services/api';
+import { errorMessage } from '../services/apiErrors';
+
+interface LoginScreenProps {
+  onAuthenticated: (user: AuthUser) => void;
+  notice?: string | null;
+}
+
+const LoginScreen: React.FC<LoginScreenProps> = ({ onAuthenticated, notice }) => {
+  const [mode, setMode] = useState<'login' | 'register'>('login');
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsSubmitting(true);
+    setError(null);
+
+    try {
+      const user = mode === 'login'
+        ? await apiService.login(username.trim(), password)
+        : await apiService.register(username.trim(), password);
+      onAuthenticated(user);
+    } catch (err) {
+      console.error(`${mode === 'login' ? 'Login' : 'Registration'} failed:`, err);
+      setError(errorMessage(err));
+      setIsSubmitting(false);
+    }
+  };
+
+  const switchMode = () => {
+    setMode(prev => (prev === 'login' ? 'register' : 'login'));
+    setError(null);
+  };
+
+  return (
+    <div
+      className="relative min-h-screen flex items-center justify-center px-4"
+      style={{
+        backgroundImage: "url('/background.jpg')",
+        backgroundSize: 'cover',
+        backgroundPosition: 'center',
+        backgroundRepeat: 'no-repeat',
+      }}
+    >
+      {/* Overlay for readability */}
+      <div className="absolute inset-0 bg-black bg-opacity-60 z-0" />
+
+      <form
+        onSubmit={handleSubmit}
+        className="relative z-10 w-full max-w-sm bg-white rounded-xl shadow-lg p-6 space-y-4 text-gray-900"
+      >
+        <div className="flex items-center space-x-3">
+          <div className="p-2 bg-primary-500 rounded-full">
+            <Bot className="text-white" size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-semibold font-serif italic">LEGALEASE</h1>
+            <p className="text-sm text-gray-500">{mode === 'login' ? 'Log in to your documents' : 'Create an account'}</p>
+          </div>
+        </div>
+
+        {notice && <p className="text-sm text-yellow-800 bg-yellow-50 border border-yellow-200 rounded-lg px-3 py-2">{notice}</p>}
+
+        <label className="block text-sm">
+          <span className="text-gray-600">Username</span>
+          <input
+            type="text"
+            value={username}
+            onChange={(e) => setUsername(e.target.value)}
+            autoComplete="username"
+            autoFocus
+            required
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:border-primary-500"
+          />
+        </label>
+
+        <label className="block text-sm">
+          <span className="text-gray-600">Password</span>
+          <input
+            type="password"
+            value={password}
+            onChange={(e) => setPassword(e.target.value)}
+            autoComplete={mode === 'login' ? 'current-password' : 'new-password'}
+            required
+            className="mt-1 w-full border border-gray-300 rounded-lg px-3 py-2 focus:outline-none focus:border-primary-500"
+          />
+        </label>
+
+        {error && <p className="text-sm text-red-600">⚠️ {error}</p>}
+
+        <button
+          type="submit"
+          disabled={isSubmitting || !username.trim() || !password}
+          className="w-full flex items-center justify-center space-x-2 px-3 py-2 bg-primary-500 text-white rounded-lg hover:bg-primary-600 disabled:bg-gray-400"
+        >
+          {isSubmitting
+            ? <Loader2 className="animate-spin" size={16} />
+            : mode === 'login' ? <LogIn size={16} /> : <UserPlus size={16} />}
+          <span>{mode === 'login' ? 'Log in' : 'Create account'}</span>
+        </button>
+
+        <p className="text-sm text-center text-gray-500">
+          {mode === 'login' ? 'No account yet?' : 'Already have an account?'}{' '}
+          <button type="button" onClick={switchMode} className="text-primary-600 hover:underline">
+            {mode === 'login' ? 'Create one' : 'Log in'}
+          </button>
+        </p>
+      </form>
+    </div>
+  );
+};
+
+export default LoginScreen;
@@ -0,0 +1,255 @@
+import React, { useEffect, useRef, useState } from 'react';
+import * as pdfjsLib from 'pdfjs-dist';
+import { PDFDocumentLoadingTask, PDFDocumentProxy, RenderTask } from 'pdfjs-dist';
+import { X, Loader2, ZoomIn, ZoomOut, AlertCircle } from 'lucide-react';
+import { ViewerTarget } from '../types';
+import { apiService } from '../services/api';
+
+pdfjsLib.GlobalWorkerOptions.workerSrc = new URL('pdfjs-dist/build/pdf.worker.min.js', import.meta.url).toString();
+
+interface PdfViewerProps {
+  target: ViewerTarget;
+  fileName: string;
+  onClose: () => void;
+}
+
+interface PdfPageProps {
+  pdf: PDFDocumentProxy;
+  pageNumber: number;
+  scale: number;
+  highlightText?: string;
+  focusRequestId?: number; // Set only on the page the viewer should jump to
+}
+
+const MIN_SCALE = 0.6;
+const MAX_SCALE = 2.4;
+
+const normalizeText = (value: string) => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+// Find the text-layer spans covering a passage. Extracted passages rarely match the
+// text layer exactly, so progressively shorter prefixes of the passage are tried.
+const findMatchingSpans = (spans: HTMLElement[], passage: string): HTMLElement[] => {
+  const needle = normalizeText(passage);
+  if (!needle) return [];
+
+  let haystack = '';
+  const starts: number[] = [];
+  spans.forEach(span => {
+    starts.push(haystack.length);
+    haystack += normalizeText(span.textContent || '') + ' ';
+  });
+
+  const probe = [needle.length, 200, 80, 30]
+    .map(length => needle.slice(0, length))
+    .filter(candidate => candidate === needle || candidate.length >= 10)
+    .find(candidate => haystack.includes(candidate));
+  if (!probe) return [];
+
+  const index = haystack.indexOf(probe);
+  const end = index + needle.length;
+  return spans.filter((_, i) => {
+    const spanEnd = i + 1 < starts.length ? starts[i + 1] : haystack.length;
+    return spanEnd > index && starts[i] < end;
+  });
+};
+
+// A single page, rendered (canvas + text layer) once it scrolls near the viewport
+const PdfPage: React.FC<PdfPageProps> = ({ pdf, pageNumber, scale, highlightText, focusRequestId }) => {
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const textLayerRef = useRef<HTMLDivElement>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [isVisible, setIsVisible] = useState(false);
+  const [isTextReady, setIsTextReady] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    pdf.getPage(pageNumber).then(page => {
+      if (cancelled) return;
+      const viewport = page.getViewport({ scale });
+      setSize({ width: viewport.width, height: viewport.height });
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [pdf, pageNumber, scale]);
+
+  useEffect(() => {
+    const wrapper = wrapperRef.current;
+    if (!wrapper) return;
+    const observer = new IntersectionObserver(([entry]) => {
+      if (entry.isIntersecting) setIsVisible(true);
+    }, { rootMargin: '300px' });
+    observer.observe(wrapper);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    if (!isVisible) return;
+    let cancelled = false;
+    let renderTask: RenderTask | null = null;
+
+    const render = async () => {
+      const page = await pdf.getPage(pageNumber);
+      const canvas = canvasRef.current;
+      const textLayer = textLayerRef.current;
+      const context = canvas?.getContext('2d');
+      if (cancelled || !canvas || !textLayer || !context) return;
+
+      const viewport = page.getViewport({ scale });
+      canvas.width = viewport.width;
+      canvas.height = viewport.height;
+      renderTask = page.render({ canvasContext: context, viewport });
+      await renderTask.promise;
+
+      const textContent = await page.getTextContent();
+      if (cancelled) return;
+      textLayer.innerHTML = '';
+      textLayer.style.setProperty('--scale-factor', String(scale));
+      await pdfjsLib.renderTextLayer({ textContentSource: textContent, container: textLayer, viewport, textDivs: [] }).promise;
+      if (!cancelled) setIsTextReady(true);
+    };
+
+    render().catch(error => {
+      if (!cancelled && error?.name !== 'RenderingCancelledException') {
+        console.error(`Failed to render page ${pageNumber}:`, error);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+      renderTask?.cancel();
+      setIsTextReady(false);
+    };
+  }, [pdf, pageNumber, scale, isVisible]);
+
+  // Jump to this page when it is the focus of a new request
+  useEffect(() => {
+    if (focusRequestId !== undefined) {
+      wrapperRef.current?.scrollIntoView({ block: 'start' });
+    }
+  }, [focusRequestId]);
+
+  // Highlight the passage once the text layer is ready
+  useEffect(() => {
+    const textLayer = textLayerRef.current;
+    if (!textLayer || !isTextReady) return;
+
+    const spans = Array.from(textLayer.querySelectorAll<HTMLElement>('span'));
+    spans.forEach(span => span.classList.remove('highlight'));
+    if (!highlightText || focusRequestId === undefined) return;
+
+    const matches = findMatchingSpans(spans, highlightText);
+    matches.forEach(span => span.classList.add('highlight'));
+    matches[0]?.scrollIntoView({ block: 'center', behavior: 'smooth' });
+  }, [highlightText, focusRequestId, isTextReady]);
+
+  return (
+    <div
+      ref={wrapperRef}
+      className="relative mx-auto mb-4 bg-white shadow"
+      style={{ width: size?.width || 600, height: size?.height || 800 }}
+    >
+      <canvas ref={canvasRef} className="absolute top-0 left-0" />
+      <div ref={textLayerRef} className="textLayer" />
+      <span className="absolute bottom-1 right-2 text-xs text-gray-400 z-10">{pageNumber}</span>
+    </div>
+  );
+};
+
+const PdfViewer: React.FC<PdfViewerProps> = ({ target, fileName, onClose }) => {
+  const [pdf, setPdf] = useState<PDFDocumentProxy | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [scale, setScale] = useState(1.2);
+
+  useEffect(() => {
+    let cancelled = false;
+    setPdf(null);
+    setError(null);
+
+    let loadingTask: PDFDocumentLoadingTask | null = null;
+    apiService.getDocumentFile(target.pdfId)
+      .then(data => {
+        if (cancelled) return null;
+        loadingTask = pdfjsLib.getDocument({ data });
+        return loadingTask.promise;
+      })
+      .then(doc => {
+        if (doc && !cancelled) setPdf(doc);
+      })
+      .catch(loadError => {
+        if (!cancelled) {
+          console.error('Failed to load PDF:', loadError);
+          setError('The original document could not be loaded. It may need to be uploaded again.');
+        }
+      });
+
+    return () => {
+      cancelled = true;
+      loadingTask?.destroy();
+    };
+  }, [target.pdfId]);
+
+  const focusPage = target.page && pdf ? Math.min(Math.max(target.page, 1), pdf.numPages) : undefined;
+
+  return (
+    <aside className="w-1/2 max-w-2xl flex-shrink-0 flex flex-col bg-gray-100 border-l border-gray-200 shadow-lg">
+      <div className="flex items-center justify-between px-3 py-2 bg-white border-b border-gray-200">
+        <div className="min-w-0">
+          <p className="truncate text-sm font-semibold text-gray-900" title={fileName}>{fileName}</p>
+          {pdf && <p className="text-xs text-gray-500">{pdf.numPages} page{pdf.numPages === 1 ? '' : 's'}</p>}
+        </div>
+        <div className="flex items-center space-x-1">
+          <button
+            onClick={() => setScale(prev => Math.max(MIN_SCALE, prev - 0.2))}
+            disabled={scale <= MIN_SCALE}
+            className="p-1 text-gray-600 hover:text-primary-500 disabled:text-gray-300"
+            title="Zoom out"
+            type="button"
+          >
+            <ZoomOut size={16} />
+          </button>
+          <button
+            onClick={() => setScale(prev => Math.min(MAX_SCALE, prev + 0.2))}
+            disabled={scale >= MAX_SCALE}
+            className="p-1 text-gray-600 hover:text-primary-500 disabled:text-gray-300"
+            title="Zoom in"
+            type="button"
+          >
+            <ZoomIn size={16} />
+          </button>
+          <button onClick={onClose} className="p-1 text-gray-600 hover:text-red-500" title="Close viewer" type="button">
+            <X size={16} />
+          </button>
+        </div>
+      </div>
+
+      <div className="flex-1 overflow-auto p-4">
+        {error && (
+          <div className="flex items-center space-x-2 text-red-600 bg-red-50 border border-red-200 rounded-lg p-3">
+            <AlertCircle size={16} />
+            <span className="text-sm">{error}</span>
+          </div>
+        )}
+        {!pdf && !error && (
+          <div className="flex items-center justify-center space-x-2 py-12 text-gray-600">
+            <Loader2 className="animate-spin" size={16} />
+            <span className="text-sm">Loading document...</span>
+          </div>
+        )}
+        {pdf && Array.from({ length: pdf.numPages }, (_, index) => index + 1).map(pageNumber => (
+          <PdfPage
+            key={pageNumber}
+            pdf={pdf}
+            pageNumber={pageNumber}
+            scale={scale}
+            highlightText={pageNumber === focusPage ? target.highlightText : undefined}
+            focusRequestId={pageNumber === focusPage ? target.requestId : undefined}
+          />
+        ))}
+      </div>
+    </aside>
+  );
+};
+
+export default PdfViewer;
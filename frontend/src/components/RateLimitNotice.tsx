@@ -0,0 +1,48 @@
+import React, { useEffect, useState } from 'react';
+import { Bot, Hourglass } from 'lucide-react';
+import { formatCountdown } from '../utils/rateLimit';
+
+interface RateLimitNoticeProps {
+  message: string;
+  until: number; // Epoch milliseconds when requests are accepted again
+  onExpired: () => void;
+}
+
+const secondsLeft = (until: number) => Math.max(0, Math.ceil((until - Date.now()) / 1000));
+
+const RateLimitNotice: React.FC<RateLimitNoticeProps> = ({ message, until, onExpired }) => {
+  const [remaining, setRemaining] = useState(() => secondsLeft(until));
+
+  useEffect(() => {
+    const timer = setInterval(() => {
+      const left = secondsLeft(until);
+      setRemaining(left);
+      if (left === 0) {
+        clearInterval(timer);
+        onExpired();
+      }
+    }, 1000);
+    return () => clearInterval(timer);
+  }, [until, onExpired]);
+
+  return (
+    <div className="flex justify-start">
+      <div className="flex space-x-3 w-full max-w-md">
+        <div className="flex-shrink-0 w-8 h-8 rounded-full bg-secondary-600 flex items-center justify-center">
+          <Bot className="text-white" size={16} />
+        </div>
+        <div className="flex-1 px-4 py-3 bg-yellow-50 rounded-lg border border-yellow-200 text-sm text-yellow-900 animate-slide-up">
+          <p className="flex items-start space-x-2">
+            <Hourglass className="flex-shrink-0 mt-0.5" size={16} />
+            <span>{message}</span>
+          </p>
+          <p className="mt-2">
+            You can send again in <span className="font-mono font-semibold">{formatCountdown(remaining)}</span>
+          </p>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RateLimitNotice;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { AlertTriangle, Loader2 } from 'lucide-react';
+import { MLHealth } from '../types';
+import { isDocumentServiceReady } from '../hooks/useServiceHealth';
+
+interface ServiceStatusBannerProps {
+  health: MLHealth | null;
+}
+
+// Shown while the document service (ML API) is starting or down; general chat keeps working
+const ServiceStatusBanner: React.FC<ServiceStatusBannerProps> = ({ health }) => {
+  if (!health || isDocumentServiceReady(health)) return null;
+
+  if (health.status === 'warming_up') {
+    return (
+      <div className="flex items-center space-x-2 px-4 py-2 bg-yellow-50 border-b border-yellow-200 text-sm text-yellow-900" role="status">
+        <Loader2 className="flex-shrink-0 animate-spin" size={16} />
+        <span>The document service is warming up. Uploads and document questions will be available in a moment.</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="flex items-center space-x-2 px-4 py-2 bg-red-50 border-b border-red-200 text-sm text-red-900" role="alert">
+      <AlertTriangle className="flex-shrink-0" size={16} />
+      <span>The document service is unavailable right now, so uploads and document questions are paused. General chat still works.</span>
+    </div>
+  );
+};
+
+export default ServiceStatusBanner;
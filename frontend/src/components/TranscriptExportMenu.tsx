@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { Download, Loader2 } from 'lucide-react';
+import { Message, WorkspaceDocument } from '../types';
+import { apiService } from '../services/api';
+import { errorMessage } from '../services/apiErrors';
+import { TranscriptExportFormat, buildTranscript, formatTranscriptMarkdown } from '../utils/transcript';
+import { downloadFile, fileTimestamp } from '../utils/download';
+
+interface TranscriptExportMenuProps {
+  title: string;
+  messages: Message[];
+  documents: WorkspaceDocument[];
+  disabled?: boolean;
+  className?: string;
+}
+
+const EXPORT_FORMATS: Array<{ format: TranscriptExportFormat; label: string }> = [
+  { format: 'md', label: 'Markdown' },
+  { format: 'json', label: 'JSON' },
+  { format: 'pdf', label: 'PDF' },
+];
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({ title, messages, documents, disabled = false, className = '' }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [exporting, setExporting] = useState<TranscriptExportFormat | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleExport = async (format: TranscriptExportFormat) => {
+    const transcript = buildTranscript(title, messages, documents);
+    const fileName = `transcript-${fileTimestamp()}.${format}`;
+    setError(null);
+
+    try {
+      if (format === 'md') {
+        downloadFile(formatTranscriptMarkdown(transcript), fileName, 'text/markdown');
+      } else if (format === 'json') {
+        downloadFile(JSON.stringify(transcript, null, 2), fileName, 'application/json');
+      } else {
+        setExporting(format);
+        downloadFile(await apiService.exportTranscriptPdf(transcript), fileName, 'application/pdf');
+      }
+      setIsOpen(false);
+    } catch (err) {
+      console.error('Transcript export failed:', err);
+      setError(`Could not export the transcript: ${errorMessage(err)}`);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <div className={`relative ${className}`}>
+      <button
+        onClick={() => setIsOpen(prev => !prev)}
+        disabled={disabled || messages.length === 0}
+        className={`p-2 rounded-full transition-colors disabled:opacity-50 ${isOpen ? 'text-primary-500 bg-primary-50' : 'text-gray-600 hover:text-primary-500'}`}
+        title="Export conversation"
+        type="button"
+      >
+        <Download size={20} />
+      </button>
+
+      {isOpen && (
+        <div className="absolute right-0 mt-2 w-48 bg-white border border-gray-200 rounded-lg shadow-lg z-20 py-1 text-sm text-gray-700">
+          <p className="px-3 py-1 text-xs text-gray-500">Export transcript as</p>
+          {EXPORT_FORMATS.map(({ format, label }) => (
+            <button
+              key={format}
+              onClick={() => handleExport(format)}
+              disabled={exporting !== null}
+              className="w-full flex items-center justify-between px-3 py-1.5 text-left hover:bg-gray-50"
+              type="button"
+            >
+              <span>{label}</span>
+              {exporting === format && <Loader2 className="animate-spin text-primary-500" size={14} />}
+            </button>
+          ))}
+          {error && <p className="px-3 py-1 text-xs text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TranscriptExportMenu;
@@ -0,0 +1,45 @@
+import { useCallback, useEffect, useState } from 'react';
+import { MLHealth } from '../types';
+import { apiService } from '../services/api';
+
+// Poll rarely while the document service is up and often while it is starting or down
+const HEALTHY_POLL_MS = 60000;
+const UNHEALTHY_POLL_MS = 10000;
+
+// Uploads and document questions are held back only when the server reports the ML API as not ready
+export const isDocumentServiceReady = (health: MLHealth | null): boolean =>
+  !health || health.status === 'ok' || health.status === 'unknown';
+
+// The ML API's state from GET /api/health, polled in the background (null until the first answer
+// and while the server is unreachable), and `refresh` to check again right away
+export const useServiceHealth = () => {
+  const [health, setHealth] = useState<MLHealth | null>(null);
+  const [checkRequest, setCheckRequest] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const poll = async () => {
+      let next: MLHealth | null = null;
+      try {
+        next = (await apiService.healthCheck()).ml;
+      } catch (error) {
+        console.warn('Health check failed:', error);
+      }
+      if (cancelled) return;
+      setHealth(next);
+      timer = setTimeout(poll, next?.status === 'ok' ? HEALTHY_POLL_MS : UNHEALTHY_POLL_MS);
+    };
+
+    poll();
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [checkRequest]);
+
+  const refresh = useCallback(() => setCheckRequest(count => count + 1), []);
+
+  return { health, refresh };
+};
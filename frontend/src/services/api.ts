@@ -1,5 +1,33 @@
 import axios from 'axios';
-import { ChatResponse, FileInfo, HackRXUploadResponse, HackRXQueryResponse } from '../types';
+import { ANALYSIS_FIELDS, ANALYSIS_ROUTES, ApiResponse, ApiRoute, parseResponse } from '@legalease/contract';
+import {
+  AnalysisResponse,
+  AuthResponse,
+  AuthUser,
+  BatchQuestionResult,
+  ChatResponse,
+  ChatStreamResult,
+  CompareResponse,
+  DocumentInsightPrompt,
+  DocumentInsights,
+  HackRXAnswer,
+  HackRXDeleteDocumentResponse,
+  HackRXDocumentDetails,
+  HackRXDocumentListResponse,
+  HackRXUploadResponse,
+  HackRXQueryResponse,
+  HealthResponse,
+  LegalReviewReport,
+  Transcript,
+  UploadFileResponse,
+  UploadFormatsResponse,
+  UploadProgress,
+} from '../types';
+import { runWithConcurrency } from '../utils/batch';
+import { SUGGESTED_QUESTIONS_PROMPT, fallbackSuggestedQuestions, parseSuggestedQuestions } from '../utils/documentInsights';
+import { isConnectionError, withRetry } from '../utils/retry';
+import { ApiContractError, ApiError, apiErrorFromResponse, errorMessage, toApiError } from './apiErrors';
+import { authSession } from './authSession';
 
 const API_BASE_URL = process.env.REACT_APP_API_URL || 'http://localhost:5000';
 
@@ -8,76 +36,378 @@ const api = axios.create({
   timeout: 30000,
 });
 
+// Auth endpoints answer 401 for bad credentials, which must not trigger a token refresh
+const AUTH_ENDPOINTS = ['/api/auth/login', '/api/auth/register', '/api/auth/refresh'];
+
+let refreshPromise: Promise<string | null> | null = null;
+
+// Parse a response body with the route's contract schema, so a server change surfaces here as an ApiContractError
+const checkResponse = <R extends ApiRoute>(route: R, data: unknown): ApiResponse<R> => {
+  const result = parseResponse(route, data);
+  if (!result.success) {
+    console.error(`Response of ${route} does not match the contract:`, result.issues, data);
+    throw new ApiContractError(route, result.issues);
+  }
+  return result.data;
+};
+
+const storeSession = (data: AuthResponse) => {
+  authSession.setTokens({ accessToken: data.access_token, refreshToken: data.refresh_token });
+};
+
+// Exchange the refresh token for new tokens, resolving with the new access token or null.
+// Requests failing with 401 at the same time share a single refresh.
+const refreshAccessToken = (): Promise<string | null> => {
+  if (refreshPromise) return refreshPromise;
+
+  const refreshToken = authSession.getTokens()?.refreshToken;
+  if (!refreshToken) return Promise.resolve(null);
+
+  refreshPromise = axios
+    .post<AuthResponse>(`${API_BASE_URL}/api/auth/refresh`, { refresh_token: refreshToken })
+    .then(response => {
+      const session = checkResponse('POST /api/auth/refresh', response.data);
+      storeSession(session);
+      return session.access_token;
+    })
+    .catch(error => {
+      // Only a rejected refresh token ends the session; a network error may be temporary
+      if (error.response?.status === 401) authSession.expire();
+      return null;
+    })
+    .finally(() => {
+      refreshPromise = null;
+    });
+
+  return refreshPromise;
+};
+
+api.interceptors.request.use(config => {
+  const accessToken = authSession.getTokens()?.accessToken;
+  if (accessToken) {
+    config.headers.set('Authorization', `Bearer ${accessToken}`);
+  }
+  return config;
+});
+
+// Error bodies of blob requests (PDF exports) arrive as a Blob; read them so the ApiError gets the server's message
+const readBlobBody = async (data: Blob): Promise<unknown> => {
+  try {
+    return JSON.parse(await data.text());
+  } catch {
+    return undefined;
+  }
+};
+
+// Retry a request once with a fresh access token when it fails with 401.
+// Every other failure is rejected as an ApiError (cancellations stay axios cancel errors).
+api.interceptors.response.use(undefined, async error => {
+  if (error.response?.data instanceof Blob) {
+    error.response.data = await readBlobBody(error.response.data);
+  }
+  const config = error.config;
+  if (error.response?.status !== 401 || !config || config._authRetried || AUTH_ENDPOINTS.includes(config.url)) {
+    throw toApiError(error);
+  }
+
+  const accessToken = await refreshAccessToken();
+  if (!accessToken) throw toApiError(error);
+
+  config._authRetried = true;
+  return api(config);
+});
+
+// fetch() counterpart of the interceptors above, for the streaming endpoints axios cannot read incrementally
+const authorizedFetch = async (
+  path: string,
+  init: Omit<RequestInit, 'headers'> & { headers?: Record<string, string> }
+): Promise<Response> => {
+  const send = async () => {
+    const accessToken = authSession.getTokens()?.accessToken;
+    try {
+      return await fetch(`${API_BASE_URL}${path}`, {
+        ...init,
+        headers: accessToken ? { ...init.headers, Authorization: `Bearer ${accessToken}` } : init.headers,
+      });
+    } catch (error) {
+      if (init.signal?.aborted) throw error;
+      throw new ApiError('Could not reach the server', { kind: 'network' });
+    }
+  };
+
+  const response = await send();
+  if (response.status !== 401 || !(await refreshAccessToken())) return response;
+  return send();
+};
+
+// Split a raw Server-Sent Event block into its event name and data
+const parseServerSentEvent = (rawEvent: string): { event: string; data: string } => {
+  let event = 'message';
+  const dataLines: string[] = [];
+
+  rawEvent.split(/\r?\n/).forEach(line => {
+    if (line.startsWith('event:')) {
+      event = line.slice(6).trim();
+    } else if (line.startsWith('data:')) {
+      dataLines.push(line.slice(5).replace(/^ /, ''));
+    }
+  });
+
+  return { event, data: dataLines.join('\n') };
+};
+
+// Read the token/done/error event stream of /api/chat/stream, calling onToken for each token and resolving with the done payload
+const readAnswerStream = async (
+  response: Response,
+  onToken: (token: string) => void
+): Promise<ChatStreamResult> => {
+  const requestId = response.headers.get('X-Request-Id') || undefined;
+  if (!response.ok || !response.body) {
+    const data = await response.json().catch(() => undefined);
+    throw apiErrorFromResponse(response.status, data, response.headers.get('Retry-After'), requestId);
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const events = buffer.split(/\r?\n\r?\n/);
+    buffer = events.pop() || '';
+
+    for (const rawEvent of events) {
+      const { event, data } = parseServerSentEvent(rawEvent);
+      if (!data) continue;
+
+      let payload;
+      try {
+        payload = JSON.parse(data);
+      } catch (error) {
+        console.warn(`Skipping malformed "${event}" stream event:`, data);
+        continue;
+      }
+      if (event === 'token') {
+        onToken(payload.token);
+      } else if (event === 'done') {
+        return checkResponse('POST /api/chat/stream', payload);
+      } else if (event === 'error') {
+        // Same body as an error response, plus the status the server would have answered with
+        throw apiErrorFromResponse(payload.status ?? 500, payload, null, requestId);
+      }
+    }
+  }
+
+  throw new ApiError('The answer stream ended before the answer was complete', { kind: 'network', requestId });
+};
+
+// Analysis routes take either a new upload or the file_id of a file stored with uploadFile
+const appendAnalysisFile = (formData: FormData, file: File | string) => {
+  if (typeof file === 'string') {
+    formData.append(ANALYSIS_FIELDS.fileId, file);
+  } else {
+    formData.append(ANALYSIS_FIELDS.file, file);
+  }
+};
+
 export const apiService = {
   // Health check
-  async healthCheck() {
+  async healthCheck(): Promise<HealthResponse> {
     const response = await api.get('/api/health');
-    return response.data;
+    return checkResponse('GET /api/health', response.data);
+  },
+
+  // Auth: Log in and keep the tokens for later requests
+  async login(username: string, password: string): Promise<AuthUser> {
+    const response = await api.post('/api/auth/login', { username, password });
+    const session = checkResponse('POST /api/auth/login', response.data);
+    storeSession(session);
+    return session.user;
+  },
+
+  // Auth: Create an account and log in with it
+  async register(username: string, password: string): Promise<AuthUser> {
+    const response = await api.post('/api/auth/register', { username, password });
+    const session = checkResponse('POST /api/auth/register', response.data);
+    storeSession(session);
+    return session.user;
   },
 
-  // Upload file
-  async uploadFile(file: File): Promise<{ success: boolean; file: FileInfo; message: string }> {
+  // Auth: Revoke the refresh tokens server-side and forget the local session
+  async logout(): Promise<void> {
+    try {
+      await api.post('/api/auth/logout');
+    } catch (error) {
+      console.warn('Logout request failed:', error);
+    } finally {
+      authSession.clear();
+    }
+  },
+
+  // Auth: The user of the stored session, or null when there is no valid session
+  async getCurrentUser(): Promise<AuthUser | null> {
+    if (!authSession.getTokens()) return null;
+    try {
+      const response = await api.get('/api/auth/me');
+      return checkResponse('GET /api/auth/me', response.data).user;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 401) {
+        authSession.clear();
+        return null;
+      }
+      throw error;
+    }
+  },
+
+  // Store a file for ad-hoc analysis; pass the returned file_id instead of the file afterwards
+  async uploadFile(file: File): Promise<UploadFileResponse> {
     const formData = new FormData();
-    formData.append('file', file);
+    formData.append(ANALYSIS_FIELDS.file, file);
 
-    const response = await api.post('/api/upload', formData, {
+    const response = await api.post(ANALYSIS_ROUTES.upload, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return checkResponse('POST /api/upload', response.data);
   },
 
   // Process text message
-  async sendMessage(message: string, conversationId?: string): Promise<ChatResponse> {
+  async sendMessage(message: string, conversationId?: string, pdfIds?: string[]): Promise<ChatResponse> {
     const response = await api.post('/api/chat', {
       message,
       conversation_id: conversationId,
+      pdf_ids: pdfIds,
     });
-    return response.data;
+    return checkResponse('POST /api/chat', response.data);
   },
 
-  // Process text input
-  async processText(text: string, question?: string): Promise<ChatResponse> {
-    const response = await api.post('/api/process-text', {
-      text,
-      question,
+  // Analyze pasted text; without a question the server asks for a summary
+  async processText(text: string, question?: string): Promise<AnalysisResponse> {
+    const response = await api.post(ANALYSIS_ROUTES.processText, {
+      [ANALYSIS_FIELDS.text]: text,
+      [ANALYSIS_FIELDS.question]: question,
     });
-    return response.data;
+    return checkResponse('POST /api/process-text', response.data);
   },
 
-  // Process file with question
-  async processFileWithQuestion(file: File, question: string): Promise<ChatResponse> {
+  // Ask one question about a file, or about a file_id from uploadFile
+  async processFileWithQuestion(file: File | string, question: string): Promise<AnalysisResponse> {
     const formData = new FormData();
-    formData.append('file', file);
-    formData.append('question', question);
+    appendAnalysisFile(formData, file);
+    formData.append(ANALYSIS_FIELDS.question, question);
 
-    const response = await api.post('/api/process-file-question', formData, {
+    const response = await api.post(ANALYSIS_ROUTES.processFileQuestion, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return checkResponse('POST /api/process-file-question', response.data);
   },
 
   // HackRX: Upload PDF and get pdf_id
-  async uploadPDFToHackRX(file: File): Promise<HackRXUploadResponse> {
+  // Reports byte-level progress, then an "indexing" phase once the file is sent.
+  // Timeouts and 5xx responses are retried with backoff; abort `signal` to cancel.
+  async uploadPDFToHackRX(
+    file: File,
+    options: {
+      onProgress?: (progress: UploadProgress) => void;
+      signal?: AbortSignal;
+      retries?: number;
+    } = {}
+  ): Promise<HackRXUploadResponse> {
+    const { onProgress, signal, retries = 2 } = options;
     const formData = new FormData();
     formData.append('file', file);
 
-    const response = await api.post('/hackrx/upload', formData, {
-      headers: {
-        'Content-Type': 'multipart/form-data',
+    const response = await withRetry((attempt) => {
+      onProgress?.({ phase: 'uploading', percent: 0, attempt });
+      return api.post('/hackrx/upload', formData, {
+        headers: {
+          'Content-Type': 'multipart/form-data',
+        },
+        timeout: 300000, // 5 minute timeout for indexing (OCR of scanned documents is slow)
+        signal,
+        onUploadProgress: (event) => {
+          const percent = event.total ? Math.round((event.loaded / event.total) * 100) : 0;
+          onProgress?.({ phase: percent >= 100 ? 'indexing' : 'uploading', percent, attempt });
+        },
+      });
+    }, {
+      retries,
+      signal,
+      // The backend retries the ML API itself, so its upstream_error and ml_unavailable answers are final
+      isRetryable: isConnectionError,
+      onRetry: (error, attempt, delayMs) => {
+        console.warn(`🔁 Upload attempt ${attempt} failed, retrying in ${delayMs}ms:`, errorMessage(error));
+        onProgress?.({ phase: 'retrying', percent: 0, attempt, retryInMs: delayMs });
       },
-      timeout: 120000, // 2 minute timeout for indexing
+    });
+    return checkResponse('POST /hackrx/upload', response.data);
+  },
+
+  // HackRX: List indexed PDFs
+  async listDocuments(): Promise<HackRXDocumentListResponse> {
+    const response = await api.get('/hackrx/documents');
+    return checkResponse('GET /hackrx/documents', response.data);
+  },
+
+  // HackRX: Metadata of one indexed PDF
+  async getDocument(pdf_id: string): Promise<HackRXDocumentDetails> {
+    const response = await api.get(`/hackrx/documents/${encodeURIComponent(pdf_id)}`);
+    return checkResponse('GET /hackrx/documents/:pdf_id', response.data);
+  },
+
+  // HackRX: Delete an indexed PDF (and its ML index when supported)
+  async deleteDocument(pdf_id: string): Promise<HackRXDeleteDocumentResponse> {
+    const response = await api.delete(`/hackrx/documents/${encodeURIComponent(pdf_id)}`);
+    return checkResponse('DELETE /hackrx/documents/:pdf_id', response.data);
+  },
+
+  // HackRX: The original uploaded PDF (for the in-app viewer). Fetched through axios rather than
+  // handed to pdf.js as a URL so the request carries the access token.
+  async getDocumentFile(pdf_id: string): Promise<ArrayBuffer> {
+    const response = await api.get(`/hackrx/documents/${encodeURIComponent(pdf_id)}/file`, {
+      responseType: 'arraybuffer',
+      timeout: 120000,
     });
     return response.data;
   },
 
-  // HackRX: Query PDF using pdf_id and question
-  async queryPDFFromHackRX(pdf_id: string, question: string): Promise<HackRXQueryResponse> {
+  // HackRX: Upload formats the server accepts, so the UI validates against the same list
+  async getUploadFormats(): Promise<UploadFormatsResponse> {
+    const response = await api.get('/hackrx/upload/formats');
+    return checkResponse('GET /hackrx/upload/formats', response.data);
+  },
+
+  // HackRX: Look up an already indexed PDF by content hash before uploading it.
+  // Resolves with null when nothing matches or the file cannot be hashed in this browser.
+  async findIndexedPDF(file: File): Promise<HackRXUploadResponse | null> {
+    if (!window.crypto?.subtle) return null;
+
+    try {
+      const digest = await window.crypto.subtle.digest('SHA-256', await file.arrayBuffer());
+      const hash = Array.from(new Uint8Array(digest))
+        .map(byte => byte.toString(16).padStart(2, '0'))
+        .join('');
+
+      const response = await api.get(`/hackrx/upload/lookup/${hash}`);
+      return checkResponse('GET /hackrx/upload/lookup/:hash', response.data);
+    } catch (error) {
+      if (!(error instanceof ApiError && error.status === 404)) {
+        console.warn('Duplicate lookup failed, uploading instead:', error);
+      }
+      return null;
+    }
+  },
+
+  // HackRX: Query one or more PDFs using pdf_id(s) and question
+  async queryPDFFromHackRX(pdf_id: string | string[], question: string): Promise<HackRXQueryResponse> {
     const formData = new FormData();
-    formData.append('pdf_id', pdf_id);
+    (Array.isArray(pdf_id) ? pdf_id : [pdf_id]).forEach(id => formData.append('pdf_id', id));
     formData.append('question', question);
 
     const response = await api.post('/hackrx/query', formData, {
@@ -86,32 +416,147 @@ export const apiService = {
       },
       timeout: 60000, // 1 minute timeout for queries
     });
+    return checkResponse('POST /hackrx/query', response.data);
+  },
+
+  // HackRX: Run the server's legal review checklist against a PDF
+  async reviewDocument(pdf_id: string, signal?: AbortSignal): Promise<LegalReviewReport> {
+    const formData = new FormData();
+    formData.append('pdf_id', pdf_id);
+
+    const response = await api.post('/hackrx/review', formData, {
+      headers: {
+        'Content-Type': 'multipart/form-data',
+      },
+      timeout: 300000, // One ML query per checklist clause
+      signal,
+    });
+    return checkResponse('POST /hackrx/review', response.data);
+  },
+
+  // HackRX: Ask two PDFs the same questions; the server pairs up the answers and flags differences
+  async compareDocuments(pdf_ids: [string, string], questions: string[], signal?: AbortSignal): Promise<CompareResponse> {
+    const response = await api.post('/hackrx/compare', { pdf_ids, questions }, {
+      timeout: 300000, // Two ML queries per question
+      signal,
+    });
+    return checkResponse('POST /hackrx/compare', response.data);
+  },
+
+  // Chat with server-side history, streaming the reply. When pdf_ids are given the server
+  // routes document questions to document QA and keeps small talk in general chat.
+  async streamChat(
+    message: string,
+    options: { conversationId?: string; pdfIds?: string[] },
+    onToken: (token: string) => void,
+    signal?: AbortSignal
+  ): Promise<ChatStreamResult> {
+    const response = await authorizedFetch('/api/chat/stream', {
+      method: 'POST',
+      body: JSON.stringify({
+        message,
+        conversation_id: options.conversationId,
+        pdf_ids: options.pdfIds,
+      }),
+      headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream' },
+      signal,
+    });
+
+    return readAnswerStream(response, onToken);
+  },
+
+  // HackRX: Ask a list of questions against the given PDFs with bounded concurrency.
+  // `onResult` fires when each question starts and finishes so callers can show progress.
+  async runBatchQuestions(
+    pdf_ids: string[],
+    questions: string[],
+    options: {
+      concurrency?: number;
+      onResult?: (index: number, result: BatchQuestionResult) => void;
+      signal?: AbortSignal;
+    } = {}
+  ): Promise<BatchQuestionResult[]> {
+    const { concurrency = 3, onResult, signal } = options;
+
+    return runWithConcurrency(questions, concurrency, async (question, index) => {
+      onResult?.(index, { question, status: 'running' });
+
+      let result: BatchQuestionResult;
+      try {
+        const queryResult = await this.queryPDFFromHackRX(pdf_ids, question);
+        result = {
+          question,
+          status: 'done',
+          answer: queryResult.answer.answer,
+          documentAnswers: queryResult.answers,
+        };
+      } catch (error) {
+        result = { question, status: 'error', error: errorMessage(error) };
+      }
+
+      onResult?.(index, result);
+      return result;
+    }, signal);
+  },
+
+  // HackRX: Run the insight prompts and a suggested-questions prompt against a newly indexed PDF.
+  // Failed prompts are reported per insight so one bad answer does not hide the rest.
+  async generateDocumentInsights(
+    pdf_id: string,
+    documentName: string,
+    prompts: DocumentInsightPrompt[],
+    signal?: AbortSignal
+  ): Promise<DocumentInsights> {
+    const questions = [...prompts.map(prompt => prompt.question), SUGGESTED_QUESTIONS_PROMPT];
+
+    const results = await runWithConcurrency(questions, 3, async (question): Promise<{ answer?: HackRXAnswer; error?: string }> => {
+      try {
+        return { answer: (await this.queryPDFFromHackRX(pdf_id, question)).answer };
+      } catch (error) {
+        return { error: errorMessage(error) };
+      }
+    }, signal);
+
+    const insights = prompts.map((prompt, index) => ({
+      ...prompt,
+      answer: results[index]?.answer?.answer,
+      sources: results[index]?.answer?.sources,
+      error: results[index]?.error,
+    }));
+    const suggestionsAnswer = results[prompts.length]?.answer?.answer;
+    const suggestedQuestions = suggestionsAnswer ? parseSuggestedQuestions(suggestionsAnswer) : [];
+
+    return {
+      pdfId: pdf_id,
+      documentName,
+      insights,
+      suggestedQuestions: suggestedQuestions.length > 0 ? suggestedQuestions : fallbackSuggestedQuestions(insights),
+    };
+  },
+
+  // Render a conversation transcript as a PDF on the server
+  async exportTranscriptPdf(transcript: Transcript): Promise<Blob> {
+    const response = await api.post('/api/transcript/pdf', transcript, {
+      responseType: 'blob',
+      timeout: 60000,
+    });
     return response.data;
   },
 
   // Analyze document with multiple questions (updated to use HackRX workflow)
-  async analyzeDocument(file: File, questions: string | string[]): Promise<ChatResponse> {
+  async analyzeDocument(file: File, questions: string | string[]): Promise<AnalysisResponse> {
     try {
       // Step 1: Upload PDF to HackRX and get pdf_id
-      console.log('📤 Uploading PDF to HackRX API...');
       const uploadResult = await this.uploadPDFToHackRX(file);
       const pdf_id = uploadResult.pdf_id;
       
-      console.log(`✅ PDF uploaded with ID: ${pdf_id}`);
-      
-      // Step 2: Query the PDF with each question
+      // Step 2: Query the PDF with each question (a few at a time)
       const questionArray = Array.isArray(questions) ? questions : [questions];
-      const answers = [];
-      
-      for (const question of questionArray) {
-        if (question && question.trim()) {
-          console.log(`🔍 Querying: "${question.trim()}"`);
-          const queryResult = await this.queryPDFFromHackRX(pdf_id, question.trim());
-          answers.push({ answer: queryResult.answer.answer });
-        }
-      }
+      const validQuestions = questionArray.filter(q => q && q.trim()).map(q => q.trim());
+      const results = await this.runBatchQuestions([pdf_id], validQuestions);
+      const answers = results.map(result => ({ question: result.question, answer: result.answer ?? `⚠️ ${result.error}` }));
       
-      // Return in the expected ChatResponse format
+      // Same shape as the one-shot analysis routes
       return {
         success: true,
         response: {
@@ -123,7 +568,7 @@ export const apiService = {
           mimetype: file.type,
           size: file.size
         },
-        questions: questionArray.filter(q => q && q.trim())
+        questions: validQuestions
       };
     } catch (error) {
       console.error('HackRX analyze document error:', error);
@@ -131,28 +576,28 @@ export const apiService = {
     }
   },
 
-  // Legacy analyze document method (kept for backward compatibility)
-  async analyzeDocumentLegacy(file: File, questions: string | string[]): Promise<ChatResponse> {
+  // Ask several questions about a file (or a file_id from uploadFile) in one request, without indexing it
+  async analyzeDocumentLegacy(file: File | string, questions: string | string[]): Promise<AnalysisResponse> {
     const formData = new FormData();
-    formData.append('file', file);
+    appendAnalysisFile(formData, file);
     
     // Handle both single question string and array of questions
     if (Array.isArray(questions)) {
       questions.forEach(question => {
         if (question && question.trim()) {
-          formData.append('questions', question.trim());
+          formData.append(ANALYSIS_FIELDS.questions, question.trim());
         }
       });
     } else if (questions && questions.trim()) {
-      formData.append('questions', questions.trim());
+      formData.append(ANALYSIS_FIELDS.questions, questions.trim());
     }
 
-    const response = await api.post('/api/analyze-document', formData, {
+    const response = await api.post(ANALYSIS_ROUTES.analyzeDocument, formData, {
       headers: {
         'Content-Type': 'multipart/form-data',
       },
     });
-    return response.data;
+    return checkResponse('POST /api/analyze-document', response.data);
   },
 };
 
@@ -0,0 +1,86 @@
+import axios from 'axios';
+import { ApiRoute, ContractIssue, apiErrorSchema, parseContract } from '@legalease/contract';
+
+export type ApiErrorKind = 'http' | 'timeout' | 'network';
+
+// A failed request: an error response from the server, a timeout or an unreachable server
+export class ApiError extends Error {
+  readonly kind: ApiErrorKind;
+  readonly status?: number;
+  readonly code?: string; // invalid_request, upstream_error, ml_unavailable, rate_limited, ...
+  readonly issues: ContractIssue[]; // Fields the server rejected (invalid_request only)
+  readonly retryAfter?: number; // Seconds (429 and 503 only)
+  readonly requestId?: string; // The server's X-Request-Id, to quote when reporting the problem
+
+  constructor(
+    message: string,
+    details: {
+      kind: ApiErrorKind;
+      status?: number;
+      code?: string;
+      issues?: ContractIssue[];
+      retryAfter?: number;
+      requestId?: string;
+    }
+  ) {
+    super(message);
+    this.name = 'ApiError';
+    this.kind = details.kind;
+    this.status = details.status;
+    this.code = details.code;
+    this.issues = details.issues ?? [];
+    this.retryAfter = details.retryAfter;
+    this.requestId = details.requestId;
+  }
+}
+
+// A successful response that does not match the shared contract, i.e. client and server disagree
+export class ApiContractError extends Error {
+  readonly route: ApiRoute;
+  readonly issues: ContractIssue[];
+
+  constructor(route: ApiRoute, issues: ContractIssue[]) {
+    super(`Unexpected response from ${route}: ${issues[0]?.message}`);
+    this.name = 'ApiContractError';
+    this.route = route;
+    this.issues = issues;
+  }
+}
+
+// ApiError for an error response; the body is { error, code?, issues?, retry_after? } when it comes from the API
+export const apiErrorFromResponse = (
+  status: number,
+  data: unknown,
+  retryAfterHeader?: string | null,
+  requestIdHeader?: string | null
+): ApiError => {
+  const parsed = parseContract(apiErrorSchema, data);
+  const body = parsed.success ? parsed.data : undefined;
+  const retryAfter = Number(body?.retry_after ?? retryAfterHeader);
+
+  return new ApiError(body?.error || `Request failed with status code ${status}`, {
+    kind: 'http',
+    status,
+    code: body?.code,
+    issues: body?.issues,
+    retryAfter: Number.isFinite(retryAfter) && retryAfter > 0 ? Math.ceil(retryAfter) : undefined,
+    requestId: requestIdHeader || undefined,
+  });
+};
+
+// Convert an axios failure into an ApiError; cancellations and other errors are returned unchanged
+export const toApiError = (error: unknown): unknown => {
+  if (!axios.isAxiosError(error) || axios.isCancel(error)) return error;
+
+  if (error.response) {
+    const { headers } = error.response;
+    return apiErrorFromResponse(error.response.status, error.response.data, headers['retry-after'], headers['x-request-id']);
+  }
+  if (error.code === 'ECONNABORTED' || error.code === 'ETIMEDOUT') {
+    return new ApiError('The request timed out', { kind: 'timeout' });
+  }
+  return new ApiError('Could not reach the server', { kind: 'network' });
+};
+
+// Text to show for any caught error
+export const errorMessage = (error: unknown): string => (error instanceof Error ? error.message : String(error));
@@ -0,0 +1,53 @@
+// Access and refresh tokens of the logged-in user, kept in localStorage so a reload stays logged in
+const STORAGE_KEY = 'legalease.auth';
+
+export interface AuthTokens {
+  accessToken: string;
+  refreshToken: string;
+}
+
+type SessionExpiredListener = () => void;
+
+const listeners = new Set<SessionExpiredListener>();
+
+const readTokens = (): AuthTokens | null => {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+};
+
+let tokens: AuthTokens | null = readTokens();
+
+export const authSession = {
+  getTokens(): AuthTokens | null {
+    return tokens;
+  },
+
+  setTokens(next: AuthTokens) {
+    tokens = next;
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(next));
+  },
+
+  clear() {
+    tokens = null;
+    localStorage.removeItem(STORAGE_KEY);
+  },
+
+  // Called when the refresh token is rejected and the user has to log in again
+  onExpired(listener: SessionExpiredListener): () => void {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  },
+
+  expire() {
+    authSession.clear();
+    listeners.forEach(listener => listener());
+  },
+};
+
+export default authSession;
@@ -0,0 +1,173 @@
+import { Conversation, Message, StoredMessage } from '../types';
+
+const DB_NAME = 'legalease';
+const DB_VERSION = 1;
+const CONVERSATIONS_STORE = 'conversations';
+const MESSAGES_STORE = 'messages';
+
+const DEFAULT_TITLE = 'New conversation';
+const TITLE_MAX_LENGTH = 60;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+// Each user gets a database of their own, so accounts sharing a browser never see each other's conversations
+let databaseName = DB_NAME;
+
+// Open (and upgrade if needed) the IndexedDB database, reusing the connection
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(databaseName, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CONVERSATIONS_STORE)) {
+        const conversations = db.createObjectStore(CONVERSATIONS_STORE, { keyPath: 'id' });
+        conversations.createIndex('updatedAt', 'updatedAt');
+      }
+      if (!db.objectStoreNames.contains(MESSAGES_STORE)) {
+        const messages = db.createObjectStore(MESSAGES_STORE, { keyPath: 'id' });
+        messages.createIndex('conversationId', 'conversationId');
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  // Allow a later call to retry if opening failed
+  dbPromise.catch(() => {
+    dbPromise = null;
+  });
+
+  return dbPromise;
+};
+
+const promisifyRequest = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const completeTransaction = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const buildTitle = (content: string): string => {
+  const singleLine = content.replace(/\s+/g, ' ').trim();
+  if (!singleLine) return DEFAULT_TITLE;
+  return singleLine.length > TITLE_MAX_LENGTH
+    ? `${singleLine.slice(0, TITLE_MAX_LENGTH - 1)}…`
+    : singleLine;
+};
+
+const newConversation = (id: string, title = DEFAULT_TITLE): Conversation => {
+  const now = new Date();
+  return {
+    id,
+    title,
+    createdAt: now,
+    updatedAt: now,
+    documents: [],
+    selectedPdfIds: [],
+    chatConversationId: null,
+  };
+};
+
+export const generateConversationKey = (): string =>
+  `conversation-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+
+export const conversationStore = {
+  // Switch to the conversations of `userId`, closing the previous user's database (null on logout)
+  setUser(userId: string | null) {
+    const name = userId ? `${DB_NAME}-${userId}` : DB_NAME;
+    if (name === databaseName) return;
+
+    dbPromise?.then(db => db.close()).catch(() => undefined);
+    dbPromise = null;
+    databaseName = name;
+  },
+
+  // List all conversations, most recently updated first
+  async listConversations(): Promise<Conversation[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readonly');
+    const conversations = await promisifyRequest<Conversation[]>(
+      transaction.objectStore(CONVERSATIONS_STORE).getAll()
+    );
+    return conversations.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime());
+  },
+
+  async getConversation(id: string): Promise<Conversation | undefined> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readonly');
+    return promisifyRequest<Conversation | undefined>(
+      transaction.objectStore(CONVERSATIONS_STORE).get(id)
+    );
+  },
+
+  // Messages of a conversation in the order they were added
+  async getMessages(conversationId: string): Promise<Message[]> {
+    const db = await openDatabase();
+    const transaction = db.transaction(MESSAGES_STORE, 'readonly');
+    const stored = await promisifyRequest<StoredMessage[]>(
+      transaction.objectStore(MESSAGES_STORE).index('conversationId').getAll(conversationId)
+    );
+    return stored
+      .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+      .map(({ conversationId: _conversationId, ...message }) => message);
+  },
+
+  // Save a message, creating the conversation on its first message
+  async saveMessage(conversationId: string, message: Message): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readwrite');
+    const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+
+    const existing = await promisifyRequest<Conversation | undefined>(conversations.get(conversationId));
+    const conversation = existing || newConversation(conversationId);
+    if (conversation.title === DEFAULT_TITLE && message.sender === 'user') {
+      conversation.title = buildTitle(message.content);
+    }
+    conversation.updatedAt = message.timestamp;
+
+    conversations.put(conversation);
+    transaction.objectStore(MESSAGES_STORE).put({ ...message, conversationId } as StoredMessage);
+    await completeTransaction(transaction);
+  },
+
+  // Update conversation metadata (title, documents, chat session id)
+  async updateConversation(
+    id: string,
+    changes: Partial<Omit<Conversation, 'id' | 'createdAt'>>
+  ): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction(CONVERSATIONS_STORE, 'readwrite');
+    const conversations = transaction.objectStore(CONVERSATIONS_STORE);
+
+    const existing = await promisifyRequest<Conversation | undefined>(conversations.get(id));
+    conversations.put({ ...(existing || newConversation(id)), ...changes });
+    await completeTransaction(transaction);
+  },
+
+  // Delete a conversation together with all of its messages
+  async deleteConversation(id: string): Promise<void> {
+    const db = await openDatabase();
+    const transaction = db.transaction([CONVERSATIONS_STORE, MESSAGES_STORE], 'readwrite');
+    transaction.objectStore(CONVERSATIONS_STORE).delete(id);
+
+    const messages = transaction.objectStore(MESSAGES_STORE);
+    const keys = await promisifyRequest<IDBValidKey[]>(messages.index('conversationId').getAllKeys(id));
+    keys.forEach(key => messages.delete(key));
+    await completeTransaction(transaction);
+  },
+};
+
+export default conversationStore;
@@ -1,3 +1,5 @@
+import type { HackRXDocumentAnswer, HackRXSource } from '@legalease/contract';
+
 export interface Message {
   id: string;
   content: string;
@@ -5,6 +7,10 @@ export interface Message {
   timestamp: Date;
   type: 'text' | 'file' | 'voice';
   fileInfo?: FileInfo;
+  documentAnswers?: HackRXDocumentAnswer[]; // Per-document parts of a multi-document answer
+  sources?: HackRXSource[]; // Source passages backing an answer
+  standaloneQuestion?: string; // Question actually asked when a follow-up was rewritten
+  insights?: DocumentInsights; // Summary card generated after a document was indexed
 }
 
 export interface FileInfo {
@@ -15,36 +21,122 @@ export interface FileInfo {
   path: string;
 }
 
-export interface ChatResponse {
-  success: boolean;
-  response: {
-    answers: Array<{ answer: string }>;
-  } | string; // Support both new format and legacy string format
-  timestamp: string;
-  conversation_id?: string;
-  file?: {
-    originalName: string;
-    mimetype: string;
-    size: number;
-  };
-  questions?: string[];
-  originalText?: string;
-}
-
 export interface VoiceRecognitionProps {
   onTranscription: (text: string) => void;
   isListening: boolean;
   setIsListening: (listening: boolean) => void;
 }
 
-// HackRX API specific types
-export interface HackRXUploadResponse {
-  pdf_id: string;
-  message: string;
+// An indexed document available in the workspace
+export interface WorkspaceDocument {
+  pdfId: string;
+  name: string;
+  indexedAt: Date;
+}
+
+// Conversation persistence types
+export interface Conversation {
+  id: string;
+  title: string;
+  createdAt: Date;
+  updatedAt: Date;
+  documents: WorkspaceDocument[];
+  selectedPdfIds: string[]; // Documents targeted by questions
+  chatConversationId: string | null; // conversation_id returned by /api/chat
+}
+
+export interface StoredMessage extends Message {
+  conversationId: string;
+}
+
+// What the PDF viewer should show: a document, optionally a page and a passage to highlight
+export interface ViewerTarget {
+  pdfId: string;
+  page?: number;
+  highlightText?: string;
+  requestId: number; // Changes on every request so repeated clicks re-focus the same passage
+}
+
+// Batch question mode
+export type BatchQuestionStatus = 'pending' | 'running' | 'done' | 'error';
+
+export interface BatchQuestionResult {
+  question: string;
+  status: BatchQuestionStatus;
+  answer?: string;
+  documentAnswers?: HackRXDocumentAnswer[];
+  error?: string;
+}
+
+// Automatic document summary after indexing
+export interface DocumentInsightPrompt {
+  id: string;
+  title: string;
+  question: string;
 }
 
-export interface HackRXQueryResponse {
-  answer: {
-    answer: string;
-  };
+export interface DocumentInsight extends DocumentInsightPrompt {
+  answer?: string;
+  sources?: HackRXSource[];
+  error?: string;
 }
+
+export interface DocumentInsights {
+  pdfId: string;
+  documentName: string;
+  insights: DocumentInsight[];
+  suggestedQuestions: string[];
+}
+
+// Document upload progress
+export type UploadPhase = 'uploading' | 'indexing' | 'retrying';
+
+export interface UploadProgress {
+  phase: UploadPhase;
+  percent: number; // Bytes sent, 0-100
+  attempt: number;
+  retryInMs?: number; // Set while waiting before the next attempt
+}
+
+// Request and response types of the API; generated from the shared contract schemas
+export type {
+  AnalysisAnswer,
+  AnalysisResponse,
+  ApiErrorBody,
+  AuthResponse,
+  AuthUser,
+  ChatHistoryResponse,
+  ChatResponse,
+  ChatRoute,
+  ChatStreamResult,
+  CompareAnswer,
+  CompareResponse,
+  ContractIssue,
+  DocumentComparison,
+  HackRXAnswer,
+  HackRXDeleteDocumentResponse,
+  HackRXDocumentAnswer,
+  HackRXDocumentDetails,
+  HackRXDocumentListResponse,
+  HackRXDocumentSummary,
+  HackRXOcrPage,
+  HackRXOcrReport,
+  HackRXQueryResponse,
+  HackRXSource,
+  HackRXUploadResponse,
+  HealthResponse,
+  LegalClauseStatus,
+  LegalReviewClause,
+  LegalReviewReport,
+  LegalRisk,
+  MLHealth,
+  ProcessTextRequest,
+  Transcript,
+  TranscriptCitation,
+  TranscriptMessage,
+  TranscriptSection,
+  UploadedFile,
+  UploadFileResponse,
+  UploadFormat,
+  UploadFormatsResponse,
+} from '@legalease/contract';
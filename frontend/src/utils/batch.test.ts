@@ -0,0 +1,78 @@
+import { formatBatchResults, parseQuestionList } from './batch';
+import { csvCell } from './download';
+
+describe('parseQuestionList', () => {
+  test('returns no questions for empty input', () => {
+    expect(parseQuestionList('')).toEqual([]);
+    expect(parseQuestionList(' \n\n ', true)).toEqual([]);
+  });
+
+  test('reads plain text one question per line, keeping commas', () => {
+    expect(parseQuestionList('What is covered, and what is not?\r\n\n  Is maternity covered?  '))
+      .toEqual(['What is covered, and what is not?', 'Is maternity covered?']);
+  });
+
+  test('reads the first column of CSV and skips the header row', () => {
+    const csv = 'Question,Priority\n"What is covered, and what is not?",high\n"He said ""no""",low\n';
+
+    expect(parseQuestionList(csv, true)).toEqual(['What is covered, and what is not?', 'He said "no"']);
+  });
+
+  test('keeps line breaks inside quoted CSV cells', () => {
+    expect(parseQuestionList('"First line\nsecond line",x', true)).toEqual(['First line\nsecond line']);
+  });
+
+  test('reads pasted text as CSV when it has a question header or starts with a quoted cell', () => {
+    expect(parseQuestionList('questions\n"Is dental covered, and when?"')).toEqual(['Is dental covered, and when?']);
+    expect(parseQuestionList('"Is dental covered, and when?",1\n"Who pays?",2')).toEqual(['Is dental covered, and when?', 'Who pays?']);
+  });
+});
+
+describe('formatBatchResults', () => {
+  const results = [
+    { question: 'What is covered, and when?', status: 'done' as const, answer: 'Hospitalisation "only"' },
+    { question: '=HYPERLINK("http://example.com")', status: 'error' as const, error: 'Upstream failed' },
+  ];
+
+  test('writes CSV with quoted cells and the error in place of a missing answer', () => {
+    const [header, first, second] = formatBatchResults(results, 'csv').split('\r\n');
+
+    expect(header).toBe('#,Question,Answer,Status');
+    expect(first).toBe('1,"What is covered, and when?","Hospitalisation ""only""",done');
+    expect(second).toBe(`2,"'=HYPERLINK(""http://example.com"")",Upstream failed,error`);
+  });
+
+  test('writes only the header for no results', () => {
+    expect(formatBatchResults([], 'csv')).toBe('#,Question,Answer,Status');
+  });
+
+  test('writes a Markdown table with escaped pipes and the error flagged', () => {
+    const markdown = formatBatchResults([
+      { question: 'A | B?', status: 'done', answer: 'Line 1\nLine 2' },
+      { question: 'C?', status: 'error', error: 'Timed out' },
+    ], 'md', ['policy.pdf']);
+
+    expect(markdown).toContain('# Batch questions: policy.pdf');
+    expect(markdown).toContain('| 1 | A \\| B? | Line 1<br>Line 2 |');
+    expect(markdown).toContain('| 2 | C? | ⚠️ Timed out |');
+  });
+
+  test('writes JSON with the document names', () => {
+    const json = JSON.parse(formatBatchResults(results, 'json', ['policy.pdf']));
+
+    expect(json.documents).toEqual(['policy.pdf']);
+    expect(json.results[1]).toMatchObject({ status: 'error', error: 'Upstream failed' });
+  });
+});
+
+describe('csvCell', () => {
+  test.each(['=1+1', '+1', '-1', '@SUM(A1)'])('prefixes %s so it is not evaluated as a formula', value => {
+    expect(csvCell(value).startsWith("'")).toBe(true);
+  });
+
+  test('leaves numbers and other text unchanged', () => {
+    expect(csvCell(-1)).toBe('-1');
+    expect(csvCell('Plain text')).toBe('Plain text');
+    expect(csvCell(undefined)).toBe('');
+  });
+});
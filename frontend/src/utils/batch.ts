@@ -0,0 +1,122 @@
+import { BatchQuestionResult } from '../types';
+import { csvCell, markdownCell } from './download';
+
+export type BatchExportFormat = 'csv' | 'json' | 'md';
+
+// Parse CSV text into rows of cells (handles quoted cells with commas, quotes and newlines)
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  rows.push(row);
+  return rows;
+};
+
+// Pasted text is read as CSV when it starts with a "question" header row or a quoted cell
+const looksLikeCsv = (text: string): boolean => {
+  const firstLine = text.trimStart().split(/\r?\n/)[0];
+  return /^"?questions?"?\s*(,|$)/i.test(firstLine) || firstLine.startsWith('"');
+};
+
+// Turn pasted or imported text into a list of questions.
+// CSV input uses the first column and skips a "question" header row; plain text uses one question per line.
+export const parseQuestionList = (text: string, isCsv = looksLikeCsv(text)): string[] => {
+  const lines = isCsv
+    ? parseCsvRows(text).map(row => row[0] || '')
+    : text.split(/\r?\n/);
+
+  const questions = lines.map(line => line.trim()).filter(Boolean);
+  if (isCsv && questions.length > 0 && /^questions?$/i.test(questions[0])) {
+    questions.shift();
+  }
+  return questions;
+};
+
+// Run async tasks with at most `concurrency` in flight, preserving result order.
+// Tasks that have not started yet are skipped once `signal` is aborted.
+export const runWithConcurrency = async <T, R>(
+  items: T[],
+  concurrency: number,
+  task: (item: T, index: number) => Promise<R>,
+  signal?: AbortSignal
+): Promise<R[]> => {
+  const results: R[] = new Array(items.length);
+  let nextIndex = 0;
+
+  const worker = async () => {
+    while (nextIndex < items.length && !signal?.aborted) {
+      const index = nextIndex++;
+      results[index] = await task(items[index], index);
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, worker));
+  return results;
+};
+
+// Serialise batch results for download
+export const formatBatchResults = (
+  results: BatchQuestionResult[],
+  format: BatchExportFormat,
+  documentNames: string[] = []
+): string => {
+  if (format === 'json') {
+    return JSON.stringify({
+      documents: documentNames,
+      exportedAt: new Date().toISOString(),
+      results: results.map(({ question, status, answer, error, documentAnswers }) => ({
+        question,
+        status,
+        answer,
+        error,
+        documentAnswers,
+      })),
+    }, null, 2);
+  }
+
+  if (format === 'csv') {
+    const header = ['#', 'Question', 'Answer', 'Status'].join(',');
+    const rows = results.map((result, index) => [
+      csvCell(index + 1),
+      csvCell(result.question),
+      csvCell(result.answer || result.error),
+      csvCell(result.status),
+    ].join(','));
+    return [header, ...rows].join('\r\n');
+  }
+
+  const title = documentNames.length > 0 ? `# Batch questions: ${documentNames.join(', ')}` : '# Batch questions';
+  const rows = results.map((result, index) =>
+    `| ${index + 1} | ${markdownCell(result.question)} | ${markdownCell(result.answer || (result.error && `⚠️ ${result.error}`))} |`
+  );
+  return [title, '', '| # | Question | Answer |', '| --- | --- | --- |', ...rows, ''].join('\n');
+};
@@ -0,0 +1,54 @@
+import { DocumentInsight, DocumentInsightPrompt } from '../types';
+
+// Prompts run against every newly indexed document. Override them with
+// REACT_APP_DOCUMENT_INSIGHT_PROMPTS, a JSON array of { id, title, question }.
+export const DEFAULT_INSIGHT_PROMPTS: DocumentInsightPrompt[] = [
+  { id: 'summary', title: 'Summary', question: 'Summarize this document in 3-4 sentences.' },
+  { id: 'parties', title: 'Key parties', question: 'Who are the key parties named in this document and what are their roles?' },
+  { id: 'dates', title: 'Important dates', question: 'What are the important dates, deadlines and periods in this document?' },
+  { id: 'obligations', title: 'Obligations', question: 'What are the main obligations of each party in this document?' },
+  { id: 'exclusions', title: 'Exclusions', question: 'What exclusions or limitations does this document contain?' },
+];
+
+export const SUGGESTED_QUESTIONS_PROMPT =
+  'List 5 short questions a reader is likely to ask about this document, one per line.';
+
+const MAX_SUGGESTED_QUESTIONS = 5;
+
+const isInsightPrompt = (value: unknown): value is DocumentInsightPrompt => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, title, question } = value as Record<string, unknown>;
+  return typeof id === 'string' && typeof title === 'string' && typeof question === 'string' && question.trim() !== '';
+};
+
+export const loadInsightPrompts = (): DocumentInsightPrompt[] => {
+  const configured = process.env.REACT_APP_DOCUMENT_INSIGHT_PROMPTS;
+  if (!configured) return DEFAULT_INSIGHT_PROMPTS;
+
+  try {
+    const prompts = JSON.parse(configured);
+    if (Array.isArray(prompts) && prompts.length > 0 && prompts.every(isInsightPrompt)) {
+      return prompts;
+    }
+    console.warn('REACT_APP_DOCUMENT_INSIGHT_PROMPTS must be a non-empty array of { id, title, question }; using defaults');
+  } catch (error) {
+    console.warn('Invalid REACT_APP_DOCUMENT_INSIGHT_PROMPTS JSON; using defaults:', error);
+  }
+  return DEFAULT_INSIGHT_PROMPTS;
+};
+
+// Pull questions out of a list-style answer ("1. ...", "- ...", one per line)
+export const parseSuggestedQuestions = (answer: string): string[] => {
+  const questions = answer
+    .split(/\r?\n/)
+    .map(line => line.replace(/^\s*(?:[-*•]|\d+[.)])\s*/, '').replace(/\s*\[\d+\]/g, '').trim())
+    .filter(line => line.endsWith('?') && line.length > 5);
+  return Array.from(new Set(questions)).slice(0, MAX_SUGGESTED_QUESTIONS);
+};
+
+// Fallback when the ML service returns no usable suggestions: follow up on the answered topics
+export const fallbackSuggestedQuestions = (insights: DocumentInsight[]): string[] =>
+  insights
+    .filter(insight => insight.answer && insight.id !== 'summary')
+    .map(insight => `Can you explain the ${insight.title.toLowerCase()} in more detail?`)
+    .slice(0, MAX_SUGGESTED_QUESTIONS);
@@ -0,0 +1,29 @@
+// Trigger a browser download of generated content
+export const downloadFile = (content: BlobPart, fileName: string, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+};
+
+// Timestamp safe to use in file names, e.g. 2025-09-19-091300
+export const fileTimestamp = (date = new Date()) =>
+  date.toISOString().slice(0, 19).replace('T', '-').replace(/:/g, '');
+
+// Quote a value for CSV output. Text starting with =, +, - or @ is prefixed with ' so
+// spreadsheets show it instead of evaluating it as a formula.
+export const csvCell = (value: string | number | undefined | null) => {
+  let text = value === undefined || value === null ? '' : String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Escape a value for a Markdown table cell
+export const markdownCell = (value: string | undefined | null) =>
+  (value || '').replace(/\|/g, '\\|').replace(/\r?\n/g, '<br>');
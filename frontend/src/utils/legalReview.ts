@@ -0,0 +1,55 @@
+import { LegalReviewClause, LegalReviewReport } from '../types';
+import { csvCell, markdownCell } from './download';
+
+export type LegalReviewExportFormat = 'csv' | 'json' | 'md';
+
+const STATUS_LABELS: Record<LegalReviewClause['status'], string> = {
+  found: 'Found',
+  missing: 'Missing',
+  error: 'Not checked',
+};
+
+export const clauseStatusLabel = (clause: LegalReviewClause) => STATUS_LABELS[clause.status];
+
+export const riskLabel = (risk: LegalReviewClause['risk']) =>
+  risk ? `${risk.charAt(0).toUpperCase()}${risk.slice(1)}` : '—';
+
+const clauseDetail = (clause: LegalReviewClause) => clause.error ? `⚠️ ${clause.error}` : clause.text || '';
+
+export const formatLegalReview = (report: LegalReviewReport, format: LegalReviewExportFormat): string => {
+  if (format === 'json') {
+    return JSON.stringify(report, null, 2);
+  }
+
+  if (format === 'csv') {
+    const header = ['Clause', 'Status', 'Risk', 'Risk reasons', 'Extracted text'].join(',');
+    const rows = report.clauses.map(clause => [
+      csvCell(clause.title),
+      csvCell(clauseStatusLabel(clause)),
+      csvCell(clause.risk),
+      csvCell(clause.risk_reasons.join('; ')),
+      csvCell(clauseDetail(clause)),
+    ].join(','));
+    return [header, ...rows].join('\r\n');
+  }
+
+  const { found, missing, errors, overall_risk } = report.summary;
+  const rows = report.clauses.map(clause =>
+    `| ${markdownCell(clause.title)} | ${clauseStatusLabel(clause)} | ${riskLabel(clause.risk)} | ` +
+    `${markdownCell(clause.risk_reasons.join('; '))} | ${markdownCell(clauseDetail(clause))} |`
+  );
+  return [
+    `# Legal review: ${report.filename}`,
+    '',
+    `Generated ${new Date(report.generated_at).toLocaleString()}` +
+      (report.checklist_version ? ` with checklist v${report.checklist_version}` : ''),
+    '',
+    `**Overall risk:** ${riskLabel(overall_risk)} · ${found} found · ${missing} missing` +
+      (errors > 0 ? ` · ${errors} not checked` : ''),
+    '',
+    '| Clause | Status | Risk | Risk reasons | Extracted text |',
+    '| --- | --- | --- | --- | --- |',
+    ...rows,
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,16 @@
+import { ApiError } from '../services/apiErrors';
+
+// Seconds to wait before retrying a request the server rejected with 429, or null for other errors
+export const retryAfterSeconds = (error: unknown): number | null => {
+  if (!(error instanceof ApiError) || error.status !== 429) return null;
+  return error.retryAfter ?? 60;
+};
+
+// "0:42" or "5:03:10"
+export const formatCountdown = (totalSeconds: number): string => {
+  const hours = Math.floor(totalSeconds / 3600);
+  const minutes = Math.floor((totalSeconds % 3600) / 60);
+  const seconds = totalSeconds % 60;
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return hours > 0 ? `${hours}:${pad(minutes)}:${pad(seconds)}` : `${minutes}:${pad(seconds)}`;
+};
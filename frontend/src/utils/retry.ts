@@ -0,0 +1,56 @@
+import axios from 'axios';
+import { ApiError } from '../services/apiErrors';
+
+// Timeouts, network failures and 5xx responses are worth retrying; 4xx, cancellations and
+// calls refused while the document service is down (ml_unavailable) are not
+export const isRetryableError = (error: unknown): boolean => {
+  if (!(error instanceof ApiError) || error.code === 'ml_unavailable') return false;
+  return error.kind !== 'http' || (error.status ?? 0) >= 500;
+};
+
+// Only timeouts and network failures, for requests whose 5xx answers the server has already retried
+export const isConnectionError = (error: unknown): boolean => error instanceof ApiError && error.kind !== 'http';
+
+// Wait `ms`, rejecting early if `signal` is aborted
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(new axios.CanceledError());
+    return;
+  }
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(new axios.CanceledError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// Run `operation(attempt)`, retrying with exponential backoff while `isRetryable(error)` (isRetryableError by default)
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  options: {
+    retries?: number;
+    baseDelayMs?: number;
+    signal?: AbortSignal;
+    isRetryable?: (error: unknown) => boolean;
+    onRetry?: (error: unknown, attempt: number, delayMs: number) => void;
+  } = {}
+): Promise<T> => {
+  const { retries = 2, baseDelayMs = 2000, signal, isRetryable = isRetryableError, onRetry } = options;
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt > retries || signal?.aborted || !isRetryable(error)) {
+        throw error;
+      }
+      const delayMs = baseDelayMs * 2 ** (attempt - 1);
+      onRetry?.(error, attempt, delayMs);
+      await sleep(delayMs, signal);
+    }
+  }
+};
@@ -0,0 +1,40 @@
+import { diffWords } from './textDiff';
+
+const changedText = (segments: Array<{ text: string; changed: boolean }>) =>
+  segments.filter(segment => segment.changed).map(segment => segment.text);
+
+describe('diffWords', () => {
+  test('marks nothing changed for answers that differ only in case, punctuation and citations', () => {
+    const { left, right } = diffWords('The waiting period is 36 months [1].', 'the waiting period is 36 Months');
+
+    expect(changedText(left)).toEqual([]);
+    expect(changedText(right)).toEqual([]);
+  });
+
+  test('marks the words missing from the other answer, joining adjacent changes', () => {
+    const { left, right } = diffWords('Dental is covered for employees', 'Dental is covered for employees and their dependents');
+
+    expect(changedText(left)).toEqual([]);
+    expect(changedText(right)).toEqual(['and their dependents']);
+    expect(right.map(segment => segment.text).join('')).toBe('Dental is covered for employees and their dependents');
+  });
+
+  test('marks every word of an answer with nothing in common', () => {
+    const { left, right } = diffWords('Covered', 'Excluded');
+
+    expect(left).toEqual([{ text: 'Covered', changed: true }]);
+    expect(right).toEqual([{ text: 'Excluded', changed: true }]);
+  });
+
+  test('returns no segments for empty answers', () => {
+    expect(diffWords('', '')).toEqual({ left: [], right: [] });
+  });
+
+  test('marks both answers changed when they are too long to diff', () => {
+    const long = 'word '.repeat(1100);
+    const { left, right } = diffWords(long, `${long}more`);
+
+    expect(left).toEqual([{ text: long, changed: true }]);
+    expect(right).toEqual([{ text: `${long}more`, changed: true }]);
+  });
+});
@@ -0,0 +1,73 @@
+export interface DiffSegment {
+  text: string;
+  changed: boolean;
+}
+
+// Beyond this many token pairs the diff is skipped and both texts are shown as changed
+const MAX_DIFF_CELLS = 1_000_000;
+
+const tokenize = (text: string) => text.match(/\s+|[^\s]+/g) || [];
+
+// Compare words without case, punctuation or citation markers so "[1]" or "Year." vs "year" do not count
+const comparable = (token: string) => token.replace(/\[\d+\]/g, '').toLowerCase().replace(/[^\p{L}\p{N}%$€£]/gu, '');
+
+const mergeSegments = (tokens: Array<{ text: string; changed: boolean }>): DiffSegment[] =>
+  tokens.reduce<DiffSegment[]>((segments, token) => {
+    const last = segments[segments.length - 1];
+    if (last && last.changed === token.changed) {
+      last.text += token.text;
+    } else {
+      segments.push({ ...token });
+    }
+    return segments;
+  }, []);
+
+// Word-level diff of two answers (longest common subsequence). Each side is returned as
+// segments, with `changed` marking words that do not appear in the other answer.
+export const diffWords = (left: string, right: string): { left: DiffSegment[]; right: DiffSegment[] } => {
+  const a = tokenize(left);
+  const b = tokenize(right);
+  const wordsA = a.map(comparable);
+  const wordsB = b.map(comparable);
+
+  if (a.length * b.length > MAX_DIFF_CELLS) {
+    return { left: [{ text: left, changed: true }], right: [{ text: right, changed: true }] };
+  }
+
+  // lengths[i][j] = LCS length of a[i..] and b[j..]; whitespace and marker-only tokens always match
+  const isBlank = (word: string) => word === '';
+  const lengths = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lengths[i][j] = wordsA[i] === wordsB[j] && !isBlank(wordsA[i])
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const matchedA = new Array<boolean>(a.length).fill(false);
+  const matchedB = new Array<boolean>(b.length).fill(false);
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (wordsA[i] === wordsB[j] && !isBlank(wordsA[i])) {
+      matchedA[i++] = true;
+      matchedB[j++] = true;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  // Blank tokens between two changed words join the change so "for dependents" highlights as one run
+  const side = (tokens: string[], words: string[], matched: boolean[]) => {
+    const changed = tokens.map((_, index) => !matched[index] && !isBlank(words[index]));
+    return mergeSegments(tokens.map((text, index) => ({
+      text,
+      changed: changed[index] || (isBlank(words[index]) && !!changed[index - 1] && !!changed[index + 1]),
+    })));
+  };
+
+  return { left: side(a, wordsA, matchedA), right: side(b, wordsB, matchedB) };
+};
@@ -0,0 +1,90 @@
+import { HackRXSource, Message, Transcript, TranscriptCitation, TranscriptMessage, WorkspaceDocument } from '../types';
+
+export type TranscriptExportFormat = 'md' | 'json' | 'pdf';
+
+const toCitations = (sources: HackRXSource[] = []): TranscriptCitation[] =>
+  sources.map((source, index) => ({
+    number: index + 1,
+    text: source.text,
+    page: source.page,
+    document: source.filename,
+    pdf_id: source.pdf_id,
+  }));
+
+// Flatten a chat message into transcript form; overview cards and multi-document answers become plain sections
+const toTranscriptMessage = (message: Message): TranscriptMessage => {
+  const entry: TranscriptMessage = {
+    timestamp: message.timestamp.toISOString(),
+    role: message.sender,
+    content: message.content,
+    citations: toCitations(message.sources),
+  };
+
+  if (message.fileInfo) {
+    entry.file = message.fileInfo.originalName;
+  }
+  if (message.standaloneQuestion) {
+    entry.standalone_question = message.standaloneQuestion;
+  }
+
+  if (message.insights) {
+    entry.document = { name: message.insights.documentName, pdf_id: message.insights.pdfId };
+    entry.sections = message.insights.insights.map(insight => ({
+      heading: insight.title,
+      content: insight.error ? `⚠️ ${insight.error}` : insight.answer || '',
+      citations: toCitations(insight.sources),
+    }));
+  } else if (message.documentAnswers && message.documentAnswers.length > 1) {
+    // The combined text repeats the per-document answers, whose [n] markers refer to their own sources
+    entry.content = `Answers from ${message.documentAnswers.length} documents:`;
+    entry.citations = [];
+    entry.sections = message.documentAnswers.map(part => ({
+      heading: part.filename,
+      pdf_id: part.pdf_id,
+      content: part.error ? `⚠️ ${part.error}` : part.answer || '',
+      citations: toCitations(part.sources),
+    }));
+  }
+
+  return entry;
+};
+
+export const buildTranscript = (title: string, messages: Message[], documents: WorkspaceDocument[]): Transcript => ({
+  title,
+  exported_at: new Date().toISOString(),
+  documents: documents.map(doc => ({ name: doc.name, pdf_id: doc.pdfId })),
+  messages: messages.map(toTranscriptMessage),
+});
+
+const formatCitationsMarkdown = (citations: TranscriptCitation[]) =>
+  citations.map(citation => {
+    const location = [citation.document, citation.page !== undefined && `p. ${citation.page}`].filter(Boolean).join(', ');
+    return `> [${citation.number}]${location ? ` (${location})` : ''} ${citation.text.replace(/\s+/g, ' ')}`;
+  });
+
+export const formatTranscriptMarkdown = (transcript: Transcript): string => {
+  const lines = [`# ${transcript.title}`, '', `Exported ${new Date(transcript.exported_at).toLocaleString()}`, ''];
+
+  if (transcript.documents.length > 0) {
+    lines.push('## Documents', '');
+    transcript.documents.forEach(doc => lines.push(`- ${doc.name} (pdf_id: \`${doc.pdf_id}\`)`));
+    lines.push('');
+  }
+
+  lines.push('## Conversation', '');
+  transcript.messages.forEach(message => {
+    lines.push(`### ${message.role === 'user' ? 'User' : 'Assistant'} · ${new Date(message.timestamp).toLocaleString()}`, '');
+    if (message.file) lines.push(`📎 ${message.file}`, '');
+    if (message.document) lines.push(`Document: ${message.document.name} (pdf_id: \`${message.document.pdf_id}\`)`, '');
+    if (message.standalone_question) lines.push(`_Interpreted as: ${message.standalone_question}_`, '');
+    lines.push(message.content, '');
+    if (message.citations.length > 0) lines.push(...formatCitationsMarkdown(message.citations), '');
+
+    (message.sections || []).forEach(section => {
+      lines.push(`#### ${section.heading}${section.pdf_id ? ` (pdf_id: \`${section.pdf_id}\`)` : ''}`, '', section.content, '');
+      if (section.citations.length > 0) lines.push(...formatCitationsMarkdown(section.citations), '');
+    });
+  });
+
+  return lines.join('\n');
+};
@@ -0,0 +1,36 @@
+import { UploadFormat, UploadFormatsResponse } from '../types';
+
+// Used until the server's list has loaded (or if it cannot be fetched)
+export const DEFAULT_UPLOAD_FORMATS: UploadFormatsResponse = {
+  formats: [{ extension: '.pdf', label: 'PDF', mimetypes: ['application/pdf'], converted: false }],
+  max_size_bytes: 10 * 1024 * 1024,
+};
+
+// Value for an <input type="file"> accept attribute
+export const acceptAttribute = (formats: UploadFormat[]): string =>
+  formats.map(format => format.extension).join(',');
+
+// e.g. "PDF, JPEG image (.jpg/.jpeg), Word (.docx)"
+export const describeFormats = (formats: UploadFormat[]): string => {
+  const extensionsByLabel = new Map<string, string[]>();
+  formats.forEach(format => {
+    extensionsByLabel.set(format.label, [...(extensionsByLabel.get(format.label) || []), format.extension]);
+  });
+  return Array.from(extensionsByLabel, ([label, extensions]) =>
+    label === 'PDF' ? label : `${label} (${extensions.join('/')})`
+  ).join(', ');
+};
+
+// Returns an error message, or null when the server will accept the file
+export const validateUploadFile = (file: File, { formats, max_size_bytes }: UploadFormatsResponse): string | null => {
+  const extension = file.name.includes('.') ? file.name.slice(file.name.lastIndexOf('.')).toLowerCase() : '';
+  if (!formats.some(format => format.extension === extension)) {
+    return `File type not supported. Supported formats: ${describeFormats(formats)}.`;
+  }
+
+  if (file.size > max_size_bytes) {
+    return `File size must be less than ${Math.round(max_size_bytes / (1024 * 1024))}MB.`;
+  }
+
+  return null;
+};
@@ -0,0 +1,24 @@
+// Route paths, field names and limits of the ad-hoc analysis endpoints (/api/upload, /api/process-text, ...)
+
+const ANALYSIS_ROUTES = Object.freeze({
+  upload: "/api/upload",
+  processText: "/api/process-text",
+  processFileQuestion: "/api/process-file-question",
+  analyzeDocument: "/api/analyze-document",
+});
+
+// Multipart and JSON field names used by the routes above
+const ANALYSIS_FIELDS = Object.freeze({
+  file: "file",
+  fileId: "file_id",
+  text: "text",
+  question: "question",
+  questions: "questions",
+});
+
+const ANALYSIS_LIMITS = Object.freeze({
+  maxQuestions: 20,
+  maxTextLength: 100000, // Characters accepted by /api/process-text
+});
+
+module.exports = { ANALYSIS_ROUTES, ANALYSIS_FIELDS, ANALYSIS_LIMITS };
@@ -0,0 +1,96 @@
+const schemas = require("./schemas");
+
+/**
+ * Every route keyed by "METHOD /path". `request` is the JSON or multipart body
+ * (null when there are no fields to check) and `response` the JSON body of a
+ * successful reply (null for binary replies). For the streaming routes it is
+ * the payload of the final `done` event.
+ */
+const API_CONTRACT = Object.freeze({
+  "GET /api/health": { request: null, response: schemas.healthResponseSchema },
+  "POST /api/auth/register": { request: schemas.registerRequestSchema, response: schemas.authResponseSchema },
+  "POST /api/auth/login": { request: schemas.loginRequestSchema, response: schemas.authResponseSchema },
+  "POST /api/auth/refresh": { request: schemas.refreshRequestSchema, response: schemas.authResponseSchema },
+  "POST /api/auth/logout": { request: null, response: schemas.messageResponseSchema },
+  "GET /api/auth/me": { request: null, response: schemas.currentUserResponseSchema },
+  "GET /hackrx/upload/lookup/:hash": { request: null, response: schemas.uploadResponseSchema },
+  "GET /hackrx/upload/formats": { request: null, response: schemas.uploadFormatsResponseSchema },
+  "POST /hackrx/upload": { request: null, response: schemas.uploadResponseSchema },
+  "GET /hackrx/documents": { request: null, response: schemas.documentListResponseSchema },
+  "GET /hackrx/documents/:pdf_id": { request: null, response: schemas.documentDetailsSchema },
+  "DELETE /hackrx/documents/:pdf_id": { request: null, response: schemas.deleteDocumentResponseSchema },
+  "GET /hackrx/documents/:pdf_id/file": { request: null, response: null },
+  "POST /hackrx/query": { request: schemas.queryRequestSchema, response: schemas.queryResponseSchema },
+  "POST /hackrx/query/stream": { request: schemas.queryStreamRequestSchema, response: schemas.answerSchema },
+  "POST /hackrx/review": { request: schemas.reviewRequestSchema, response: schemas.legalReviewReportSchema },
+  "POST /hackrx/compare": { request: schemas.compareRequestSchema, response: schemas.compareResponseSchema },
+  "POST /api/upload": { request: null, response: schemas.uploadFileResponseSchema },
+  "POST /api/process-text": { request: schemas.processTextRequestSchema, response: schemas.analysisResponseSchema },
+  "POST /api/process-file-question": {
+    request: schemas.processFileQuestionRequestSchema,
+    response: schemas.analysisResponseSchema,
+  },
+  "POST /api/analyze-document": { request: schemas.analyzeDocumentRequestSchema, response: schemas.analysisResponseSchema },
+  "POST /api/chat": { request: schemas.chatRequestSchema, response: schemas.chatResponseSchema },
+  "POST /api/chat/stream": { request: schemas.chatRequestSchema, response: schemas.chatStreamResultSchema },
+  "GET /api/chat/:conversation_id/history": { request: null, response: schemas.chatHistoryResponseSchema },
+  "POST /api/transcript/pdf": { request: schemas.transcriptSchema, response: null },
+});
+
+// Zod's generic messages ("Required", "Expected string, received number") do not
+// name the field, so they are prefixed with its path
+const withFieldPath = (issue, ctx) => {
+  const field = issue.path.join(".");
+  const named = !field || ctx.defaultError.toLowerCase().includes(String(issue.path[issue.path.length - 1]).toLowerCase());
+  return { message: named ? ctx.defaultError : `${field}: ${ctx.defaultError}` };
+};
+
+/**
+ * Check `data` against a contract schema. Resolves to the parsed value
+ * (trimmed and normalised, e.g. pdf_id lists) or to one { path, message }
+ * issue per problem.
+ *
+ * @template {import("zod").ZodTypeAny} T
+ * @param {T} schema
+ * @param {unknown} data
+ * @returns {{ success: true, data: import("zod").output<T> } | { success: false, issues: ContractIssue[] }}
+ */
+function parseContract(schema, data) {
+  const result = schema.safeParse(data, { errorMap: withFieldPath });
+  if (result.success) {
+    return { success: true, data: result.data };
+  }
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ path: issue.path.join("."), message: issue.message })),
+  };
+}
+
+/**
+ * Check the JSON response of `route` against the contract; see parseContract.
+ *
+ * @template {ApiRoute} R
+ * @param {R} route
+ * @param {unknown} data
+ * @returns {{ success: true, data: ApiResponse<R> } | { success: false, issues: ContractIssue[] }}
+ */
+function parseResponse(route, data) {
+  const schema = API_CONTRACT[route].response;
+  if (!schema) {
+    throw new Error(`${route} does not answer with JSON`);
+  }
+  return parseContract(schema, data);
+}
+
+module.exports = { API_CONTRACT, parseContract, parseResponse };
+
+/**
+ * @typedef {import("./schemas").ContractIssue} ContractIssue
+ * @typedef {keyof typeof API_CONTRACT} ApiRoute
+ */
+
+/**
+ * Successful JSON response of a route
+ * @template {ApiRoute} R
+ * @typedef {import("zod").output<NonNullable<(typeof API_CONTRACT)[R]["response"]>>} ApiResponse
+ */
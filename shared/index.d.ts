@@ -0,0 +1,4 @@
+// Generated declarations (npm run build:types) of the modules index.js combines
+export * from "./types/analysis";
+export * from "./types/schemas";
+export * from "./types/contract";
@@ -0,0 +1,14 @@
+/**
+ * Request/response contract of the backend API, shared by the backend and the
+ * frontend (both depend on this package via `file:../shared`). Schemas are
+ * written with zod in schemas.js; the backend validates request bodies and ML
+ * API replies with them, the frontend validates responses, and the
+ * TypeScript types in types/ are generated from them (`npm run build:types`),
+ * so client and server cannot drift.
+ */
+
+module.exports = {
+  ...require("./analysis"),
+  ...require("./schemas"),
+  ...require("./contract"),
+};
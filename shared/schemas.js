@@ -0,0 +1,538 @@
+const { z } = require("zod");
+const { ANALYSIS_LIMITS } = require("./analysis");
+
+/*
+ * Request and response schemas of every backend route. The backend validates
+ * request bodies with them and the frontend validates responses, so both
+ * sides agree on one definition. The exported types are inferred from the
+ * schemas (see the @typedef blocks) and emitted into types/schemas.d.ts.
+ */
+
+// --- Field helpers --------------------------------------------------------
+
+// A non-blank string, trimmed; `message` is used for every kind of failure
+const requiredText = (message) => z.string({ required_error: message, invalid_type_error: message }).trim().min(1, message);
+
+// Multipart forms send repeated fields as arrays and single ones as strings
+const stringList = (message) =>
+  z.union([z.string(), z.array(z.string())], { errorMap: () => ({ message }) }).transform((value) => [value].flat());
+
+// pdf_id values: single value, repeated field or comma-separated list; trimmed and de-duplicated
+const pdfIdList = (message) =>
+  stringList(message).transform((values) => [...new Set(values.flatMap((value) => value.split(",")).map((id) => id.trim()).filter(Boolean))]);
+
+// Questions sent as an array or repeated fields, trimmed and without blanks
+const questionList = (message) =>
+  stringList(message).transform((values) => values.map((question) => question.trim()).filter(Boolean));
+
+// --- Shared pieces --------------------------------------------------------
+
+const sourceSchema = z.object({
+  text: z.string(),
+  page: z.number().optional(),
+  score: z.number().optional(), // Relevance score as reported by the ML service
+  pdf_id: z.string().optional(),
+  filename: z.string().optional(),
+});
+
+const answerSchema = z.object({
+  answer: z.string(),
+  sources: z.array(sourceSchema).optional(),
+  standalone_question: z.string().optional(), // Present when a follow-up was rewritten into a standalone question
+});
+
+const documentAnswerSchema = z.object({
+  pdf_id: z.string(),
+  filename: z.string(),
+  answer: z.string().optional(),
+  sources: z.array(sourceSchema).optional(),
+  standalone_question: z.string().optional(),
+  error: z.string().optional(),
+});
+
+// Every error response: { error } plus a machine-readable code and, for validation errors, the failing fields
+const contractIssueSchema = z.object({
+  path: z.string(), // Dotted field path, empty for the body itself
+  message: z.string(),
+});
+
+const apiErrorSchema = z.object({
+  error: z.string(),
+  code: z.string().optional(), // invalid_request, upstream_error, ml_unavailable, rate_limited, ...
+  issues: z.array(contractIssueSchema).optional(),
+  limit: z.string().optional(), // Which rate limit was hit (429 only)
+  retry_after: z.number().optional(), // Seconds (429 and 503 only)
+});
+
+// --- Health and auth ------------------------------------------------------
+
+// State of the ML API from the backend's keepalive pings and circuit breaker
+const mlHealthSchema = z.object({
+  status: z.enum(["ok", "warming_up", "unavailable", "unknown", "not_configured"]),
+  latency_ms: z.number().nullable(), // Of the last successful ping
+  checked_at: z.string().nullable(),
+  circuit: z.enum(["closed", "open", "half_open"]),
+  retry_after: z.number().optional(), // Seconds until the open circuit lets calls through again
+  error: z.string().optional(),
+});
+
+const healthResponseSchema = z.object({
+  status: z.string(),
+  message: z.string(),
+  ml: mlHealthSchema,
+});
+
+const registerRequestSchema = z.object({
+  username: z
+    .string({ required_error: "username is required" })
+    .regex(/^[a-zA-Z0-9_.@-]{3,64}$/, "username must be 3-64 characters (letters, digits, _ . @ -)"),
+  password: z.string({ required_error: "password is required" }).min(8, "password must be at least 8 characters"),
+});
+
+const loginRequestSchema = z.object({
+  username: z.string({ required_error: "username and password are required" }),
+  password: z.string({ required_error: "username and password are required" }),
+});
+
+const refreshRequestSchema = z.object({
+  refresh_token: requiredText("refresh_token is required"),
+});
+
+const authUserSchema = z.object({
+  id: z.string(),
+  username: z.string(),
+  createdAt: z.string(),
+});
+
+const authResponseSchema = z.object({
+  user: authUserSchema,
+  access_token: z.string(),
+  refresh_token: z.string(),
+  token_type: z.literal("Bearer"),
+  expires_in: z.number(), // Access token lifetime in seconds
+});
+
+const currentUserResponseSchema = z.object({ user: authUserSchema });
+
+const messageResponseSchema = z.object({ message: z.string() });
+
+// --- Upload and document management ---------------------------------------
+
+const ocrPageSchema = z.object({
+  page: z.number(),
+  confidence: z.number(), // 0-100
+  characters: z.number(),
+});
+
+const ocrReportSchema = z.object({
+  applied: z.boolean(),
+  average_confidence: z.number(),
+  pages: z.array(ocrPageSchema),
+});
+
+const uploadResponseSchema = z.object({
+  pdf_id: z.string(),
+  message: z.string(),
+  reused: z.boolean().optional(), // true when identical content was already indexed
+  ocr: ocrReportSchema.optional(), // Present when the upload was an image or a scanned PDF
+});
+
+const uploadFormatSchema = z.object({
+  extension: z.string(), // e.g. ".docx"
+  label: z.string(),
+  mimetypes: z.array(z.string()),
+  converted: z.boolean(), // true when the server converts it to PDF before indexing
+  ocr: z.boolean().optional(), // true for images, which are converted with OCR
+});
+
+const uploadFormatsResponseSchema = z.object({
+  formats: z.array(uploadFormatSchema),
+  max_size_bytes: z.number(),
+});
+
+const documentSummarySchema = z.object({
+  pdf_id: z.string(),
+  filename: z.string(),
+  mimetype: z.string(),
+  size: z.number(),
+  content_hash: z.string().optional(), // Missing for documents indexed before hashing existed
+  indexedAt: z.string(),
+  expiresAt: z.string().nullable(),
+  file_available: z.boolean(),
+});
+
+const documentDetailsSchema = documentSummarySchema.extend({
+  ml_api_response: z.unknown(),
+});
+
+const documentListResponseSchema = z.object({
+  count: z.number(),
+  documents: z.array(documentSummarySchema),
+});
+
+const deleteDocumentResponseSchema = z.object({
+  pdf_id: z.string(),
+  message: z.string(),
+  ml_index_deleted: z.boolean(),
+});
+
+// --- Document QA ----------------------------------------------------------
+
+const queryRequestSchema = z
+  .object({
+    pdf_id: pdfIdList("pdf_id is required").optional(),
+    question: requiredText("question is required"),
+    conversation_id: z.string().optional(),
+  })
+  .transform(({ pdf_id, ...rest }) => ({ pdf_ids: pdf_id || [], ...rest }))
+  .refine((body) => body.pdf_ids.length > 0, { message: "pdf_id is required", path: ["pdf_id"] });
+
+const queryStreamRequestSchema = z.object({
+  pdf_id: requiredText("A single pdf_id is required"),
+  question: requiredText("question is required"),
+  conversation_id: z.string().optional(),
+});
+
+const queryResponseSchema = z.object({
+  answer: answerSchema,
+  answers: z.array(documentAnswerSchema).optional(), // Present when several pdf_ids were queried
+});
+
+// --- Legal review ---------------------------------------------------------
+
+const legalRiskSchema = z.enum(["low", "medium", "high"]);
+
+const legalClauseStatusSchema = z.enum(["found", "missing", "error"]);
+
+const reviewRequestSchema = z.object({
+  pdf_id: requiredText("pdf_id is required"),
+});
+
+const legalReviewClauseSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  question: z.string(),
+  status: legalClauseStatusSchema,
+  text: z.string().optional(), // Extracted clause text as answered by the ML service
+  sources: z.array(sourceSchema).optional(),
+  risk: legalRiskSchema.nullable(), // null when the clause could not be checked
+  risk_reasons: z.array(z.string()),
+  error: z.string().optional(),
+});
+
+const legalReviewReportSchema = z.object({
+  pdf_id: z.string(),
+  filename: z.string(),
+  checklist_version: z.string().nullable(),
+  generated_at: z.string(),
+  summary: z.object({
+    found: z.number(),
+    missing: z.number(),
+    errors: z.number(),
+    overall_risk: legalRiskSchema.nullable(),
+  }),
+  clauses: z.array(legalReviewClauseSchema),
+});
+
+// --- Compare mode ---------------------------------------------------------
+
+// pdf_ids/pdf_id and questions/question are interchangeable; at most COMPARE_MAX_QUESTIONS is checked by the server
+const compareRequestSchema = z
+  .object({
+    pdf_ids: pdfIdList("pdf_ids must be strings").optional(),
+    pdf_id: pdfIdList("pdf_id must be strings").optional(),
+    questions: questionList("questions must be strings").optional(),
+    question: questionList("question must be strings").optional(),
+  })
+  .transform((body) => ({ pdf_ids: body.pdf_ids || body.pdf_id || [], questions: body.questions || body.question || [] }))
+  .refine((body) => body.pdf_ids.length === 2, { message: "Exactly two different pdf_ids are required", path: ["pdf_ids"] })
+  .refine((body) => body.questions.length > 0, { message: "At least one question is required", path: ["questions"] });
+
+const compareAnswerSchema = z.object({
+  answer: z.string().optional(),
+  sources: z.array(sourceSchema).optional(),
+  error: z.string().optional(),
+});
+
+const documentComparisonSchema = z.object({
+  question: z.string(),
+  answers: z.array(compareAnswerSchema), // One per document, in request order
+  identical: z.boolean().nullable(), // null when either document failed to answer
+  similarity: z.number().nullable(), // Word overlap of the two answers, 0-1
+});
+
+const compareResponseSchema = z.object({
+  documents: z.array(z.object({ pdf_id: z.string(), filename: z.string() })),
+  comparisons: z.array(documentComparisonSchema),
+  summary: z.object({
+    questions: z.number(),
+    differing: z.number(),
+    errors: z.number(),
+  }),
+});
+
+// --- Chat -----------------------------------------------------------------
+
+const chatRouteSchema = z.enum(["chat", "document"]);
+
+const chatRequestSchema = z
+  .object({
+    message: requiredText("Message is required"),
+    conversation_id: z.string().optional(),
+    pdf_ids: pdfIdList("pdf_ids must be strings").optional(),
+    pdf_id: pdfIdList("pdf_id must be strings").optional(),
+  })
+  .transform(({ pdf_id, pdf_ids, ...rest }) => ({ ...rest, pdf_ids: pdf_ids || pdf_id || [] }));
+
+const chatResponseSchema = z.object({
+  success: z.boolean(),
+  response: z.string(),
+  sources: z.array(sourceSchema).optional(),
+  answers: z.array(documentAnswerSchema).optional(),
+  standalone_question: z.string().optional(),
+  route: chatRouteSchema,
+  provider: z.string(),
+  conversation_id: z.string(),
+  timestamp: z.string(),
+});
+
+// The done event of /api/chat/stream
+const chatStreamResultSchema = answerSchema.extend({
+  answers: z.array(documentAnswerSchema).optional(),
+  route: chatRouteSchema,
+  conversation_id: z.string(),
+});
+
+const chatHistoryResponseSchema = z.object({
+  conversation_id: z.string(),
+  messages: z.array(
+    z.object({
+      role: z.enum(["user", "assistant"]),
+      content: z.string(),
+      timestamp: z.string().optional(),
+      route: chatRouteSchema.optional(),
+      standalone_question: z.string().optional(),
+    })
+  ),
+});
+
+// --- Transcript export ----------------------------------------------------
+
+const transcriptCitationSchema = z.object({
+  number: z.number(), // The [n] marker used in the answer
+  text: z.string(),
+  page: z.number().optional(),
+  document: z.string().optional(),
+  pdf_id: z.string().optional(),
+});
+
+const transcriptSectionSchema = z.object({
+  heading: z.string(),
+  pdf_id: z.string().optional(),
+  content: z.string(),
+  citations: z.array(transcriptCitationSchema),
+});
+
+const transcriptMessageSchema = z.object({
+  timestamp: z.string(), // ISO 8601
+  role: z.enum(["user", "assistant"]),
+  content: z.string(),
+  citations: z.array(transcriptCitationSchema),
+  file: z.string().optional(), // Uploaded file name
+  document: z.object({ name: z.string(), pdf_id: z.string() }).optional(),
+  standalone_question: z.string().optional(),
+  sections: z.array(transcriptSectionSchema).optional(), // Per-document answers or overview card entries
+});
+
+const transcriptSchema = z.object({
+  title: z.string(),
+  exported_at: z.string(),
+  documents: z.array(z.object({ name: z.string(), pdf_id: z.string() })),
+  messages: z.array(transcriptMessageSchema).min(1, "messages must be a non-empty array"),
+});
+
+// --- Ad-hoc analysis ------------------------------------------------------
+
+const uploadedFileSchema = z.object({
+  file_id: z.string(), // Pass as `file_id` instead of re-sending `file`
+  originalName: z.string(),
+  mimetype: z.string(),
+  size: z.number(),
+  expires_at: z.string(), // ISO 8601; the file is deleted afterwards
+});
+
+const uploadFileResponseSchema = z.object({
+  success: z.literal(true),
+  file: uploadedFileSchema,
+  message: z.string(),
+});
+
+const processTextRequestSchema = z.object({
+  text: requiredText("text is required").pipe(
+    z.string().max(ANALYSIS_LIMITS.maxTextLength, `text must be at most ${ANALYSIS_LIMITS.maxTextLength} characters`)
+  ),
+  question: z.string().trim().optional(), // Defaults to a summary of the text
+});
+
+const processFileQuestionRequestSchema = z.object({
+  question: requiredText("question is required"),
+  file_id: z.string().optional(),
+});
+
+const analyzeDocumentRequestSchema = z
+  .object({
+    questions: questionList("questions must be strings").optional(),
+    question: questionList("question must be strings").optional(),
+    file_id: z.string().optional(),
+  })
+  .transform(({ questions, question, file_id }) => ({ questions: questions || question || [], file_id }))
+  .refine((body) => body.questions.length > 0 && body.questions.length <= ANALYSIS_LIMITS.maxQuestions, {
+    message: `Between 1 and ${ANALYSIS_LIMITS.maxQuestions} questions are required`,
+    path: ["questions"],
+  });
+
+const analysisAnswerSchema = z.object({
+  question: z.string(),
+  answer: z.string(),
+});
+
+const analysisResponseSchema = z.object({
+  success: z.literal(true),
+  response: z.object({
+    answers: z.array(analysisAnswerSchema),
+  }),
+  questions: z.array(z.string()),
+  file: z
+    .object({
+      originalName: z.string(),
+      mimetype: z.string(),
+      size: z.number(),
+    })
+    .optional(),
+  timestamp: z.string(),
+});
+
+// --- ML API replies -------------------------------------------------------
+
+// These are validated by the backend only; a reply that does not match is answered with 502.
+
+// POST /hackrx/upload: the rest of the reply is stored as the document's ml_api_response
+const mlUploadReplySchema = z.object({ pdf_id: requiredText("pdf_id is missing") }).passthrough();
+
+// POST /hackrx/query: { answer: { answer, sources? } }, { answer, sources? } or plain text.
+// Normalised to the answer text plus the object that may carry source passages (see extractSources).
+const mlQueryReplySchema = z.union([
+  z.object({ answer: z.object({ answer: z.string() }).passthrough() }).passthrough(),
+  z.object({ answer: z.string() }).passthrough(),
+  z.string(),
+], { errorMap: () => ({ message: "expected { answer: { answer } }, { answer } or plain text" }) }).transform((reply) => {
+  if (typeof reply === "string") return { answer: reply, payload: null };
+  return { answer: typeof reply.answer === "string" ? reply.answer : reply.answer.answer, payload: reply };
+});
+
+// POST /hackrx/run: one answer (text or { answer }) per question, in question order
+const mlRunReplySchema = z
+  .object({ answers: z.array(z.union([z.string(), z.object({ answer: z.string() }).passthrough()])) })
+  .transform(({ answers }) => answers.map((answer) => (typeof answer === "string" ? answer : answer.answer)));
+
+module.exports = {
+  sourceSchema,
+  answerSchema,
+  documentAnswerSchema,
+  contractIssueSchema,
+  apiErrorSchema,
+  mlHealthSchema,
+  healthResponseSchema,
+  registerRequestSchema,
+  loginRequestSchema,
+  refreshRequestSchema,
+  authUserSchema,
+  authResponseSchema,
+  currentUserResponseSchema,
+  messageResponseSchema,
+  ocrPageSchema,
+  ocrReportSchema,
+  uploadResponseSchema,
+  uploadFormatSchema,
+  uploadFormatsResponseSchema,
+  documentSummarySchema,
+  documentDetailsSchema,
+  documentListResponseSchema,
+  deleteDocumentResponseSchema,
+  queryRequestSchema,
+  queryStreamRequestSchema,
+  queryResponseSchema,
+  legalRiskSchema,
+  legalClauseStatusSchema,
+  reviewRequestSchema,
+  legalReviewClauseSchema,
+  legalReviewReportSchema,
+  compareRequestSchema,
+  compareAnswerSchema,
+  documentComparisonSchema,
+  compareResponseSchema,
+  chatRouteSchema,
+  chatRequestSchema,
+  chatResponseSchema,
+  chatStreamResultSchema,
+  chatHistoryResponseSchema,
+  transcriptCitationSchema,
+  transcriptSectionSchema,
+  transcriptMessageSchema,
+  transcriptSchema,
+  uploadedFileSchema,
+  uploadFileResponseSchema,
+  processTextRequestSchema,
+  processFileQuestionRequestSchema,
+  analyzeDocumentRequestSchema,
+  analysisAnswerSchema,
+  analysisResponseSchema,
+  mlUploadReplySchema,
+  mlQueryReplySchema,
+  mlRunReplySchema,
+};
+
+/**
+ * @typedef {z.infer<typeof sourceSchema>} HackRXSource
+ * @typedef {z.infer<typeof answerSchema>} HackRXAnswer
+ * @typedef {z.infer<typeof documentAnswerSchema>} HackRXDocumentAnswer
+ * @typedef {z.infer<typeof contractIssueSchema>} ContractIssue
+ * @typedef {z.infer<typeof apiErrorSchema>} ApiErrorBody
+ * @typedef {z.infer<typeof mlHealthSchema>} MLHealth
+ * @typedef {z.infer<typeof healthResponseSchema>} HealthResponse
+ * @typedef {z.input<typeof registerRequestSchema>} Credentials
+ * @typedef {z.infer<typeof authUserSchema>} AuthUser
+ * @typedef {z.infer<typeof authResponseSchema>} AuthResponse
+ * @typedef {z.infer<typeof ocrPageSchema>} HackRXOcrPage
+ * @typedef {z.infer<typeof ocrReportSchema>} HackRXOcrReport
+ * @typedef {z.infer<typeof uploadResponseSchema>} HackRXUploadResponse
+ * @typedef {z.infer<typeof uploadFormatSchema>} UploadFormat
+ * @typedef {z.infer<typeof uploadFormatsResponseSchema>} UploadFormatsResponse
+ * @typedef {z.infer<typeof documentSummarySchema>} HackRXDocumentSummary
+ * @typedef {z.infer<typeof documentDetailsSchema>} HackRXDocumentDetails
+ * @typedef {z.infer<typeof documentListResponseSchema>} HackRXDocumentListResponse
+ * @typedef {z.infer<typeof deleteDocumentResponseSchema>} HackRXDeleteDocumentResponse
+ * @typedef {z.input<typeof queryRequestSchema>} HackRXQueryRequest
+ * @typedef {z.infer<typeof queryResponseSchema>} HackRXQueryResponse
+ * @typedef {z.infer<typeof legalRiskSchema>} LegalRisk
+ * @typedef {z.infer<typeof legalClauseStatusSchema>} LegalClauseStatus
+ * @typedef {z.infer<typeof legalReviewClauseSchema>} LegalReviewClause
+ * @typedef {z.infer<typeof legalReviewReportSchema>} LegalReviewReport
+ * @typedef {z.infer<typeof compareAnswerSchema>} CompareAnswer
+ * @typedef {z.infer<typeof documentComparisonSchema>} DocumentComparison
+ * @typedef {z.infer<typeof compareResponseSchema>} CompareResponse
+ * @typedef {z.infer<typeof chatRouteSchema>} ChatRoute
+ * @typedef {z.input<typeof chatRequestSchema>} ChatRequest
+ * @typedef {z.infer<typeof chatResponseSchema>} ChatResponse
+ * @typedef {z.infer<typeof chatStreamResultSchema>} ChatStreamResult
+ * @typedef {z.infer<typeof chatHistoryResponseSchema>} ChatHistoryResponse
+ * @typedef {z.infer<typeof transcriptCitationSchema>} TranscriptCitation
+ * @typedef {z.infer<typeof transcriptSectionSchema>} TranscriptSection
+ * @typedef {z.infer<typeof transcriptMessageSchema>} TranscriptMessage
+ * @typedef {z.infer<typeof transcriptSchema>} Transcript
+ * @typedef {z.infer<typeof uploadedFileSchema>} UploadedFile
+ * @typedef {z.infer<typeof uploadFileResponseSchema>} UploadFileResponse
+ * @typedef {z.input<typeof processTextRequestSchema>} ProcessTextRequest
+ * @typedef {z.infer<typeof analysisAnswerSchema>} AnalysisAnswer
+ * @typedef {z.infer<typeof analysisResponseSchema>} AnalysisResponse
+ */
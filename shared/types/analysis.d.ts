@@ -0,0 +1,17 @@
+export const ANALYSIS_ROUTES: Readonly<{
+    upload: "/api/upload";
+    processText: "/api/process-text";
+    processFileQuestion: "/api/process-file-question";
+    analyzeDocument: "/api/analyze-document";
+}>;
+export const ANALYSIS_FIELDS: Readonly<{
+    file: "file";
+    fileId: "file_id";
+    text: "text";
+    question: "question";
+    questions: "questions";
+}>;
+export const ANALYSIS_LIMITS: Readonly<{
+    maxQuestions: 20;
+    maxTextLength: 100000;
+}>;
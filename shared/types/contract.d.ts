@@ -0,0 +1,2073 @@
+export type ContractIssue = import("./schemas").ContractIssue;
+export type ApiRoute = keyof typeof API_CONTRACT;
+/**
+ * Successful JSON response of a route
+ */
+export type ApiResponse<R extends "GET /api/health" | "POST /api/auth/register" | "POST /api/auth/login" | "POST /api/auth/refresh" | "POST /api/auth/logout" | "GET /api/auth/me" | "GET /hackrx/upload/lookup/:hash" | "GET /hackrx/upload/formats" | "POST /hackrx/upload" | "GET /hackrx/documents" | "GET /hackrx/documents/:pdf_id" | "DELETE /hackrx/documents/:pdf_id" | "GET /hackrx/documents/:pdf_id/file" | "POST /hackrx/query" | "POST /hackrx/query/stream" | "POST /hackrx/review" | "POST /hackrx/compare" | "POST /api/upload" | "POST /api/process-text" | "POST /api/process-file-question" | "POST /api/analyze-document" | "POST /api/chat" | "POST /api/chat/stream" | "GET /api/chat/:conversation_id/history" | "POST /api/transcript/pdf"> = import("zod").output<NonNullable<(typeof API_CONTRACT)[R]["response"]>>;
+/**
+ * Every route keyed by "METHOD /path". `request` is the JSON or multipart body
+ * (null when there are no fields to check) and `response` the JSON body of a
+ * successful reply (null for binary replies). For the streaming routes it is
+ * the payload of the final `done` event.
+ */
+export const API_CONTRACT: Readonly<{
+    "GET /api/health": {
+        request: null;
+        response: import("zod").ZodObject<{
+            status: import("zod").ZodString;
+            message: import("zod").ZodString;
+            ml: import("zod").ZodObject<{
+                status: import("zod").ZodEnum<["ok", "warming_up", "unavailable", "unknown", "not_configured"]>;
+                latency_ms: import("zod").ZodNullable<import("zod").ZodNumber>;
+                checked_at: import("zod").ZodNullable<import("zod").ZodString>;
+                circuit: import("zod").ZodEnum<["closed", "open", "half_open"]>;
+                retry_after: import("zod").ZodOptional<import("zod").ZodNumber>;
+                error: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+                latency_ms: number | null;
+                checked_at: string | null;
+                circuit: "closed" | "open" | "half_open";
+                error?: string | undefined;
+                retry_after?: number | undefined;
+            }, {
+                status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+                latency_ms: number | null;
+                checked_at: string | null;
+                circuit: "closed" | "open" | "half_open";
+                error?: string | undefined;
+                retry_after?: number | undefined;
+            }>;
+        }, "strip", import("zod").ZodTypeAny, {
+            message: string;
+            status: string;
+            ml: {
+                status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+                latency_ms: number | null;
+                checked_at: string | null;
+                circuit: "closed" | "open" | "half_open";
+                error?: string | undefined;
+                retry_after?: number | undefined;
+            };
+        }, {
+            message: string;
+            status: string;
+            ml: {
+                status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+                latency_ms: number | null;
+                checked_at: string | null;
+                circuit: "closed" | "open" | "half_open";
+                error?: string | undefined;
+                retry_after?: number | undefined;
+            };
+        }>;
+    };
+    "POST /api/auth/register": {
+        request: import("zod").ZodObject<{
+            username: import("zod").ZodString;
+            password: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            username: string;
+            password: string;
+        }, {
+            username: string;
+            password: string;
+        }>;
+        response: import("zod").ZodObject<{
+            user: import("zod").ZodObject<{
+                id: import("zod").ZodString;
+                username: import("zod").ZodString;
+                createdAt: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }>;
+            access_token: import("zod").ZodString;
+            refresh_token: import("zod").ZodString;
+            token_type: import("zod").ZodLiteral<"Bearer">;
+            expires_in: import("zod").ZodNumber;
+        }, "strip", import("zod").ZodTypeAny, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }>;
+    };
+    "POST /api/auth/login": {
+        request: import("zod").ZodObject<{
+            username: import("zod").ZodString;
+            password: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            username: string;
+            password: string;
+        }, {
+            username: string;
+            password: string;
+        }>;
+        response: import("zod").ZodObject<{
+            user: import("zod").ZodObject<{
+                id: import("zod").ZodString;
+                username: import("zod").ZodString;
+                createdAt: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }>;
+            access_token: import("zod").ZodString;
+            refresh_token: import("zod").ZodString;
+            token_type: import("zod").ZodLiteral<"Bearer">;
+            expires_in: import("zod").ZodNumber;
+        }, "strip", import("zod").ZodTypeAny, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }>;
+    };
+    "POST /api/auth/refresh": {
+        request: import("zod").ZodObject<{
+            refresh_token: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            refresh_token: string;
+        }, {
+            refresh_token: string;
+        }>;
+        response: import("zod").ZodObject<{
+            user: import("zod").ZodObject<{
+                id: import("zod").ZodString;
+                username: import("zod").ZodString;
+                createdAt: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }>;
+            access_token: import("zod").ZodString;
+            refresh_token: import("zod").ZodString;
+            token_type: import("zod").ZodLiteral<"Bearer">;
+            expires_in: import("zod").ZodNumber;
+        }, "strip", import("zod").ZodTypeAny, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }, {
+            refresh_token: string;
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+            access_token: string;
+            token_type: "Bearer";
+            expires_in: number;
+        }>;
+    };
+    "POST /api/auth/logout": {
+        request: null;
+        response: import("zod").ZodObject<{
+            message: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            message: string;
+        }, {
+            message: string;
+        }>;
+    };
+    "GET /api/auth/me": {
+        request: null;
+        response: import("zod").ZodObject<{
+            user: import("zod").ZodObject<{
+                id: import("zod").ZodString;
+                username: import("zod").ZodString;
+                createdAt: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }, {
+                username: string;
+                id: string;
+                createdAt: string;
+            }>;
+        }, "strip", import("zod").ZodTypeAny, {
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+        }, {
+            user: {
+                username: string;
+                id: string;
+                createdAt: string;
+            };
+        }>;
+    };
+    "GET /hackrx/upload/lookup/:hash": {
+        request: null;
+        response: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            message: import("zod").ZodString;
+            reused: import("zod").ZodOptional<import("zod").ZodBoolean>;
+            ocr: import("zod").ZodOptional<import("zod").ZodObject<{
+                applied: import("zod").ZodBoolean;
+                average_confidence: import("zod").ZodNumber;
+                pages: import("zod").ZodArray<import("zod").ZodObject<{
+                    page: import("zod").ZodNumber; /**
+                     * Successful JSON response of a route
+                     * @template {ApiRoute} R
+                     * @typedef {import("zod").output<NonNullable<(typeof API_CONTRACT)[R]["response"]>>} ApiResponse
+                     */
+                    confidence: import("zod").ZodNumber;
+                    characters: import("zod").ZodNumber;
+                }, "strip", import("zod").ZodTypeAny, {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }, {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }>, "many">;
+            }, "strip", import("zod").ZodTypeAny, {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            }, {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            }>>;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+            message: string;
+            reused?: boolean | undefined;
+            ocr?: {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            } | undefined;
+        }, {
+            pdf_id: string;
+            message: string;
+            reused?: boolean | undefined;
+            ocr?: {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            } | undefined;
+        }>;
+    };
+    "GET /hackrx/upload/formats": {
+        request: null;
+        response: import("zod").ZodObject<{
+            formats: import("zod").ZodArray<import("zod").ZodObject<{
+                extension: import("zod").ZodString;
+                label: import("zod").ZodString;
+                mimetypes: import("zod").ZodArray<import("zod").ZodString, "many">;
+                converted: import("zod").ZodBoolean;
+                ocr: import("zod").ZodOptional<import("zod").ZodBoolean>;
+            }, "strip", import("zod").ZodTypeAny, {
+                extension: string;
+                label: string;
+                mimetypes: string[];
+                converted: boolean;
+                ocr?: boolean | undefined;
+            }, {
+                extension: string;
+                label: string;
+                mimetypes: string[];
+                converted: boolean;
+                ocr?: boolean | undefined;
+            }>, "many">;
+            max_size_bytes: import("zod").ZodNumber;
+        }, "strip", import("zod").ZodTypeAny, {
+            formats: {
+                extension: string;
+                label: string;
+                mimetypes: string[];
+                converted: boolean;
+                ocr?: boolean | undefined;
+            }[];
+            max_size_bytes: number;
+        }, {
+            formats: {
+                extension: string;
+                label: string;
+                mimetypes: string[];
+                converted: boolean;
+                ocr?: boolean | undefined;
+            }[];
+            max_size_bytes: number;
+        }>;
+    };
+    "POST /hackrx/upload": {
+        request: null;
+        response: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            message: import("zod").ZodString;
+            reused: import("zod").ZodOptional<import("zod").ZodBoolean>;
+            ocr: import("zod").ZodOptional<import("zod").ZodObject<{
+                applied: import("zod").ZodBoolean;
+                average_confidence: import("zod").ZodNumber;
+                pages: import("zod").ZodArray<import("zod").ZodObject<{
+                    page: import("zod").ZodNumber; /**
+                     * Successful JSON response of a route
+                     * @template {ApiRoute} R
+                     * @typedef {import("zod").output<NonNullable<(typeof API_CONTRACT)[R]["response"]>>} ApiResponse
+                     */
+                    confidence: import("zod").ZodNumber;
+                    characters: import("zod").ZodNumber;
+                }, "strip", import("zod").ZodTypeAny, {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }, {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }>, "many">;
+            }, "strip", import("zod").ZodTypeAny, {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            }, {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            }>>;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+            message: string;
+            reused?: boolean | undefined;
+            ocr?: {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            } | undefined;
+        }, {
+            pdf_id: string;
+            message: string;
+            reused?: boolean | undefined;
+            ocr?: {
+                applied: boolean;
+                average_confidence: number;
+                pages: {
+                    page: number;
+                    confidence: number;
+                    characters: number;
+                }[];
+            } | undefined;
+        }>;
+    };
+    "GET /hackrx/documents": {
+        request: null;
+        response: import("zod").ZodObject<{
+            count: import("zod").ZodNumber;
+            documents: import("zod").ZodArray<import("zod").ZodObject<{
+                pdf_id: import("zod").ZodString;
+                filename: import("zod").ZodString;
+                mimetype: import("zod").ZodString;
+                size: import("zod").ZodNumber;
+                content_hash: import("zod").ZodOptional<import("zod").ZodString>;
+                indexedAt: import("zod").ZodString;
+                expiresAt: import("zod").ZodNullable<import("zod").ZodString>;
+                file_available: import("zod").ZodBoolean;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                filename: string;
+                mimetype: string;
+                size: number;
+                indexedAt: string;
+                expiresAt: string | null;
+                file_available: boolean;
+                content_hash?: string | undefined;
+            }, {
+                pdf_id: string;
+                filename: string;
+                mimetype: string;
+                size: number;
+                indexedAt: string;
+                expiresAt: string | null;
+                file_available: boolean;
+                content_hash?: string | undefined;
+            }>, "many">;
+        }, "strip", import("zod").ZodTypeAny, {
+            count: number;
+            documents: {
+                pdf_id: string;
+                filename: string;
+                mimetype: string;
+                size: number;
+                indexedAt: string;
+                expiresAt: string | null;
+                file_available: boolean;
+                content_hash?: string | undefined;
+            }[];
+        }, {
+            count: number;
+            documents: {
+                pdf_id: string;
+                filename: string;
+                mimetype: string;
+                size: number;
+                indexedAt: string;
+                expiresAt: string | null;
+                file_available: boolean;
+                content_hash?: string | undefined;
+            }[];
+        }>;
+    };
+    "GET /hackrx/documents/:pdf_id": {
+        request: null;
+        response: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            filename: import("zod").ZodString;
+            mimetype: import("zod").ZodString;
+            size: import("zod").ZodNumber;
+            content_hash: import("zod").ZodOptional<import("zod").ZodString>;
+            indexedAt: import("zod").ZodString;
+            expiresAt: import("zod").ZodNullable<import("zod").ZodString>;
+            file_available: import("zod").ZodBoolean;
+        } & {
+            ml_api_response: import("zod").ZodUnknown;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+            filename: string;
+            mimetype: string;
+            size: number;
+            indexedAt: string;
+            expiresAt: string | null;
+            file_available: boolean;
+            content_hash?: string | undefined;
+            ml_api_response?: unknown;
+        }, {
+            pdf_id: string;
+            filename: string;
+            mimetype: string;
+            size: number;
+            indexedAt: string;
+            expiresAt: string | null;
+            file_available: boolean;
+            content_hash?: string | undefined;
+            ml_api_response?: unknown;
+        }>;
+    };
+    "DELETE /hackrx/documents/:pdf_id": {
+        request: null;
+        response: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            message: import("zod").ZodString;
+            ml_index_deleted: import("zod").ZodBoolean;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+            message: string;
+            ml_index_deleted: boolean;
+        }, {
+            pdf_id: string;
+            message: string;
+            ml_index_deleted: boolean;
+        }>;
+    };
+    "GET /hackrx/documents/:pdf_id/file": {
+        request: null;
+        response: null;
+    };
+    "POST /hackrx/query": {
+        request: import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodObject<{
+            pdf_id: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            question: import("zod").ZodString;
+            conversation_id: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            question: string;
+            pdf_id?: string[] | undefined;
+            conversation_id?: string | undefined;
+        }, {
+            question: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+        }>, {
+            question: string;
+            conversation_id?: string | undefined;
+            pdf_ids: string[];
+        }, {
+            question: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+        }>, {
+            question: string;
+            conversation_id?: string | undefined;
+            pdf_ids: string[];
+        }, {
+            question: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            answer: import("zod").ZodObject<{
+                answer: import("zod").ZodString;
+                sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    filename: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }>, "many">>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                answer: string;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+            }, {
+                answer: string;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+            }>;
+            answers: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                pdf_id: import("zod").ZodString;
+                filename: import("zod").ZodString;
+                answer: import("zod").ZodOptional<import("zod").ZodString>;
+                sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    filename: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }>, "many">>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+                error: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }>, "many">>;
+        }, "strip", import("zod").ZodTypeAny, {
+            answer: {
+                answer: string;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+            };
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }, {
+            answer: {
+                answer: string;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+            };
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }>;
+    };
+    "POST /hackrx/query/stream": {
+        request: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            question: import("zod").ZodString;
+            conversation_id: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            question: string;
+            pdf_id: string;
+            conversation_id?: string | undefined;
+        }, {
+            question: string;
+            pdf_id: string;
+            conversation_id?: string | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            answer: import("zod").ZodString;
+            sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                text: import("zod").ZodString;
+                page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                filename: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }>, "many">>;
+            standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            answer: string;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+        }, {
+            answer: string;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+        }>;
+    };
+    "POST /hackrx/review": {
+        request: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+        }, {
+            pdf_id: string;
+        }>;
+        response: import("zod").ZodObject<{
+            pdf_id: import("zod").ZodString;
+            filename: import("zod").ZodString;
+            checklist_version: import("zod").ZodNullable<import("zod").ZodString>;
+            generated_at: import("zod").ZodString;
+            summary: import("zod").ZodObject<{
+                found: import("zod").ZodNumber;
+                missing: import("zod").ZodNumber;
+                errors: import("zod").ZodNumber;
+                overall_risk: import("zod").ZodNullable<import("zod").ZodEnum<["low", "medium", "high"]>>;
+            }, "strip", import("zod").ZodTypeAny, {
+                found: number;
+                missing: number;
+                errors: number;
+                overall_risk: "low" | "medium" | "high" | null;
+            }, {
+                found: number;
+                missing: number;
+                errors: number;
+                overall_risk: "low" | "medium" | "high" | null;
+            }>;
+            clauses: import("zod").ZodArray<import("zod").ZodObject<{
+                id: import("zod").ZodString;
+                title: import("zod").ZodString;
+                question: import("zod").ZodString;
+                status: import("zod").ZodEnum<["found", "missing", "error"]>;
+                text: import("zod").ZodOptional<import("zod").ZodString>;
+                sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    filename: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }>, "many">>;
+                risk: import("zod").ZodNullable<import("zod").ZodEnum<["low", "medium", "high"]>>;
+                risk_reasons: import("zod").ZodArray<import("zod").ZodString, "many">;
+                error: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                question: string;
+                status: "error" | "found" | "missing";
+                id: string;
+                title: string;
+                risk: "low" | "medium" | "high" | null;
+                risk_reasons: string[];
+                text?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                error?: string | undefined;
+            }, {
+                question: string;
+                status: "error" | "found" | "missing";
+                id: string;
+                title: string;
+                risk: "low" | "medium" | "high" | null;
+                risk_reasons: string[];
+                text?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                error?: string | undefined;
+            }>, "many">;
+        }, "strip", import("zod").ZodTypeAny, {
+            pdf_id: string;
+            filename: string;
+            checklist_version: string | null;
+            generated_at: string;
+            summary: {
+                found: number;
+                missing: number;
+                errors: number;
+                overall_risk: "low" | "medium" | "high" | null;
+            };
+            clauses: {
+                question: string;
+                status: "error" | "found" | "missing";
+                id: string;
+                title: string;
+                risk: "low" | "medium" | "high" | null;
+                risk_reasons: string[];
+                text?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                error?: string | undefined;
+            }[];
+        }, {
+            pdf_id: string;
+            filename: string;
+            checklist_version: string | null;
+            generated_at: string;
+            summary: {
+                found: number;
+                missing: number;
+                errors: number;
+                overall_risk: "low" | "medium" | "high" | null;
+            };
+            clauses: {
+                question: string;
+                status: "error" | "found" | "missing";
+                id: string;
+                title: string;
+                risk: "low" | "medium" | "high" | null;
+                risk_reasons: string[];
+                text?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                error?: string | undefined;
+            }[];
+        }>;
+    };
+    "POST /hackrx/compare": {
+        request: import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodObject<{
+            pdf_ids: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            pdf_id: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            questions: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            question: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+        }, "strip", import("zod").ZodTypeAny, {
+            question?: string[] | undefined;
+            questions?: string[] | undefined;
+            pdf_id?: string[] | undefined;
+            pdf_ids?: string[] | undefined;
+        }, {
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+            pdf_id?: string | string[] | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>, {
+            pdf_ids: string[];
+            questions: string[];
+        }, {
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+            pdf_id?: string | string[] | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>, {
+            pdf_ids: string[];
+            questions: string[];
+        }, {
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+            pdf_id?: string | string[] | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>, {
+            pdf_ids: string[];
+            questions: string[];
+        }, {
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+            pdf_id?: string | string[] | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            documents: import("zod").ZodArray<import("zod").ZodObject<{
+                pdf_id: import("zod").ZodString;
+                filename: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                filename: string;
+            }, {
+                pdf_id: string;
+                filename: string;
+            }>, "many">;
+            comparisons: import("zod").ZodArray<import("zod").ZodObject<{
+                question: import("zod").ZodString;
+                answers: import("zod").ZodArray<import("zod").ZodObject<{
+                    answer: import("zod").ZodOptional<import("zod").ZodString>;
+                    sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                        text: import("zod").ZodString;
+                        page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                        score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                        pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                        filename: import("zod").ZodOptional<import("zod").ZodString>;
+                    }, "strip", import("zod").ZodTypeAny, {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }, {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }>, "many">>;
+                    error: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }, {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }>, "many">;
+                identical: import("zod").ZodNullable<import("zod").ZodBoolean>;
+                similarity: import("zod").ZodNullable<import("zod").ZodNumber>;
+            }, "strip", import("zod").ZodTypeAny, {
+                question: string;
+                answers: {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }[];
+                identical: boolean | null;
+                similarity: number | null;
+            }, {
+                question: string;
+                answers: {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }[];
+                identical: boolean | null;
+                similarity: number | null;
+            }>, "many">;
+            summary: import("zod").ZodObject<{
+                questions: import("zod").ZodNumber;
+                differing: import("zod").ZodNumber;
+                errors: import("zod").ZodNumber;
+            }, "strip", import("zod").ZodTypeAny, {
+                questions: number;
+                errors: number;
+                differing: number;
+            }, {
+                questions: number;
+                errors: number;
+                differing: number;
+            }>;
+        }, "strip", import("zod").ZodTypeAny, {
+            documents: {
+                pdf_id: string;
+                filename: string;
+            }[];
+            summary: {
+                questions: number;
+                errors: number;
+                differing: number;
+            };
+            comparisons: {
+                question: string;
+                answers: {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }[];
+                identical: boolean | null;
+                similarity: number | null;
+            }[];
+        }, {
+            documents: {
+                pdf_id: string;
+                filename: string;
+            }[];
+            summary: {
+                questions: number;
+                errors: number;
+                differing: number;
+            };
+            comparisons: {
+                question: string;
+                answers: {
+                    answer?: string | undefined;
+                    sources?: {
+                        text: string;
+                        page?: number | undefined;
+                        score?: number | undefined;
+                        pdf_id?: string | undefined;
+                        filename?: string | undefined;
+                    }[] | undefined;
+                    error?: string | undefined;
+                }[];
+                identical: boolean | null;
+                similarity: number | null;
+            }[];
+        }>;
+    };
+    "POST /api/upload": {
+        request: null;
+        response: import("zod").ZodObject<{
+            success: import("zod").ZodLiteral<true>;
+            file: import("zod").ZodObject<{
+                file_id: import("zod").ZodString;
+                originalName: import("zod").ZodString;
+                mimetype: import("zod").ZodString;
+                size: import("zod").ZodNumber;
+                expires_at: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                file_id: string;
+                mimetype: string;
+                size: number;
+                originalName: string;
+                expires_at: string;
+            }, {
+                file_id: string;
+                mimetype: string;
+                size: number;
+                originalName: string;
+                expires_at: string;
+            }>;
+            message: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            file: {
+                file_id: string;
+                mimetype: string;
+                size: number;
+                originalName: string;
+                expires_at: string;
+            };
+            message: string;
+            success: true;
+        }, {
+            file: {
+                file_id: string;
+                mimetype: string;
+                size: number;
+                originalName: string;
+                expires_at: string;
+            };
+            message: string;
+            success: true;
+        }>;
+    };
+    "POST /api/process-text": {
+        request: import("zod").ZodObject<{
+            text: import("zod").ZodPipeline<import("zod").ZodString, import("zod").ZodString>;
+            question: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            text: string;
+            question?: string | undefined;
+        }, {
+            text: string;
+            question?: string | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            success: import("zod").ZodLiteral<true>;
+            response: import("zod").ZodObject<{
+                answers: import("zod").ZodArray<import("zod").ZodObject<{
+                    question: import("zod").ZodString;
+                    answer: import("zod").ZodString;
+                }, "strip", import("zod").ZodTypeAny, {
+                    question: string;
+                    answer: string;
+                }, {
+                    question: string;
+                    answer: string;
+                }>, "many">;
+            }, "strip", import("zod").ZodTypeAny, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }>;
+            questions: import("zod").ZodArray<import("zod").ZodString, "many">;
+            file: import("zod").ZodOptional<import("zod").ZodObject<{
+                originalName: import("zod").ZodString;
+                mimetype: import("zod").ZodString;
+                size: import("zod").ZodNumber;
+            }, "strip", import("zod").ZodTypeAny, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }>>;
+            timestamp: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }>;
+    };
+    "POST /api/process-file-question": {
+        request: import("zod").ZodObject<{
+            question: import("zod").ZodString;
+            file_id: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            question: string;
+            file_id?: string | undefined;
+        }, {
+            question: string;
+            file_id?: string | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            success: import("zod").ZodLiteral<true>;
+            response: import("zod").ZodObject<{
+                answers: import("zod").ZodArray<import("zod").ZodObject<{
+                    question: import("zod").ZodString;
+                    answer: import("zod").ZodString;
+                }, "strip", import("zod").ZodTypeAny, {
+                    question: string;
+                    answer: string;
+                }, {
+                    question: string;
+                    answer: string;
+                }>, "many">;
+            }, "strip", import("zod").ZodTypeAny, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }>;
+            questions: import("zod").ZodArray<import("zod").ZodString, "many">;
+            file: import("zod").ZodOptional<import("zod").ZodObject<{
+                originalName: import("zod").ZodString;
+                mimetype: import("zod").ZodString;
+                size: import("zod").ZodNumber;
+            }, "strip", import("zod").ZodTypeAny, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }>>;
+            timestamp: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }>;
+    };
+    "POST /api/analyze-document": {
+        request: import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodObject<{
+            questions: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            question: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            file_id: import("zod").ZodOptional<import("zod").ZodString>;
+        }, "strip", import("zod").ZodTypeAny, {
+            file_id?: string | undefined;
+            question?: string[] | undefined;
+            questions?: string[] | undefined;
+        }, {
+            file_id?: string | undefined;
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+        }>, {
+            questions: string[];
+            file_id: string | undefined;
+        }, {
+            file_id?: string | undefined;
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+        }>, {
+            questions: string[];
+            file_id: string | undefined;
+        }, {
+            file_id?: string | undefined;
+            question?: string | string[] | undefined;
+            questions?: string | string[] | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            success: import("zod").ZodLiteral<true>;
+            response: import("zod").ZodObject<{
+                answers: import("zod").ZodArray<import("zod").ZodObject<{
+                    question: import("zod").ZodString;
+                    answer: import("zod").ZodString;
+                }, "strip", import("zod").ZodTypeAny, {
+                    question: string;
+                    answer: string;
+                }, {
+                    question: string;
+                    answer: string;
+                }>, "many">;
+            }, "strip", import("zod").ZodTypeAny, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }, {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            }>;
+            questions: import("zod").ZodArray<import("zod").ZodString, "many">;
+            file: import("zod").ZodOptional<import("zod").ZodObject<{
+                originalName: import("zod").ZodString;
+                mimetype: import("zod").ZodString;
+                size: import("zod").ZodNumber;
+            }, "strip", import("zod").ZodTypeAny, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }, {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            }>>;
+            timestamp: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }, {
+            questions: string[];
+            success: true;
+            response: {
+                answers: {
+                    question: string;
+                    answer: string;
+                }[];
+            };
+            timestamp: string;
+            file?: {
+                mimetype: string;
+                size: number;
+                originalName: string;
+            } | undefined;
+        }>;
+    };
+    "POST /api/chat": {
+        request: import("zod").ZodEffects<import("zod").ZodObject<{
+            message: import("zod").ZodString;
+            conversation_id: import("zod").ZodOptional<import("zod").ZodString>;
+            pdf_ids: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            pdf_id: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+        }, "strip", import("zod").ZodTypeAny, {
+            message: string;
+            pdf_id?: string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string[] | undefined;
+        }, {
+            message: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>, {
+            pdf_ids: string[];
+            message: string;
+            conversation_id?: string | undefined;
+        }, {
+            message: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            success: import("zod").ZodBoolean;
+            response: import("zod").ZodString;
+            sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                text: import("zod").ZodString;
+                page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                filename: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }>, "many">>;
+            answers: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                pdf_id: import("zod").ZodString;
+                filename: import("zod").ZodString;
+                answer: import("zod").ZodOptional<import("zod").ZodString>;
+                sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    filename: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }>, "many">>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+                error: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }>, "many">>;
+            standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+            route: import("zod").ZodEnum<["chat", "document"]>;
+            provider: import("zod").ZodString;
+            conversation_id: import("zod").ZodString;
+            timestamp: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            conversation_id: string;
+            success: boolean;
+            response: string;
+            route: "chat" | "document";
+            provider: string;
+            timestamp: string;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }, {
+            conversation_id: string;
+            success: boolean;
+            response: string;
+            route: "chat" | "document";
+            provider: string;
+            timestamp: string;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }>;
+    };
+    "POST /api/chat/stream": {
+        request: import("zod").ZodEffects<import("zod").ZodObject<{
+            message: import("zod").ZodString;
+            conversation_id: import("zod").ZodOptional<import("zod").ZodString>;
+            pdf_ids: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+            pdf_id: import("zod").ZodOptional<import("zod").ZodEffects<import("zod").ZodEffects<import("zod").ZodUnion<[import("zod").ZodString, import("zod").ZodArray<import("zod").ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+        }, "strip", import("zod").ZodTypeAny, {
+            message: string;
+            pdf_id?: string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string[] | undefined;
+        }, {
+            message: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>, {
+            pdf_ids: string[];
+            message: string;
+            conversation_id?: string | undefined;
+        }, {
+            message: string;
+            pdf_id?: string | string[] | undefined;
+            conversation_id?: string | undefined;
+            pdf_ids?: string | string[] | undefined;
+        }>;
+        response: import("zod").ZodObject<{
+            answer: import("zod").ZodString;
+            sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                text: import("zod").ZodString;
+                page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                filename: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }>, "many">>;
+            standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+        } & {
+            answers: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                pdf_id: import("zod").ZodString;
+                filename: import("zod").ZodString;
+                answer: import("zod").ZodOptional<import("zod").ZodString>;
+                sources: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    score: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    filename: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }, {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }>, "many">>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+                error: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }, {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }>, "many">>;
+            route: import("zod").ZodEnum<["chat", "document"]>;
+            conversation_id: import("zod").ZodString;
+        }, "strip", import("zod").ZodTypeAny, {
+            answer: string;
+            conversation_id: string;
+            route: "chat" | "document";
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }, {
+            answer: string;
+            conversation_id: string;
+            route: "chat" | "document";
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            standalone_question?: string | undefined;
+            answers?: {
+                pdf_id: string;
+                filename: string;
+                answer?: string | undefined;
+                sources?: {
+                    text: string;
+                    page?: number | undefined;
+                    score?: number | undefined;
+                    pdf_id?: string | undefined;
+                    filename?: string | undefined;
+                }[] | undefined;
+                standalone_question?: string | undefined;
+                error?: string | undefined;
+            }[] | undefined;
+        }>;
+    };
+    "GET /api/chat/:conversation_id/history": {
+        request: null;
+        response: import("zod").ZodObject<{
+            conversation_id: import("zod").ZodString;
+            messages: import("zod").ZodArray<import("zod").ZodObject<{
+                role: import("zod").ZodEnum<["user", "assistant"]>;
+                content: import("zod").ZodString;
+                timestamp: import("zod").ZodOptional<import("zod").ZodString>;
+                route: import("zod").ZodOptional<import("zod").ZodEnum<["chat", "document"]>>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+            }, "strip", import("zod").ZodTypeAny, {
+                role: "user" | "assistant";
+                content: string;
+                standalone_question?: string | undefined;
+                route?: "chat" | "document" | undefined;
+                timestamp?: string | undefined;
+            }, {
+                role: "user" | "assistant";
+                content: string;
+                standalone_question?: string | undefined;
+                route?: "chat" | "document" | undefined;
+                timestamp?: string | undefined;
+            }>, "many">;
+        }, "strip", import("zod").ZodTypeAny, {
+            conversation_id: string;
+            messages: {
+                role: "user" | "assistant";
+                content: string;
+                standalone_question?: string | undefined;
+                route?: "chat" | "document" | undefined;
+                timestamp?: string | undefined;
+            }[];
+        }, {
+            conversation_id: string;
+            messages: {
+                role: "user" | "assistant";
+                content: string;
+                standalone_question?: string | undefined;
+                route?: "chat" | "document" | undefined;
+                timestamp?: string | undefined;
+            }[];
+        }>;
+    };
+    "POST /api/transcript/pdf": {
+        request: import("zod").ZodObject<{
+            title: import("zod").ZodString;
+            exported_at: import("zod").ZodString;
+            documents: import("zod").ZodArray<import("zod").ZodObject<{
+                name: import("zod").ZodString;
+                pdf_id: import("zod").ZodString;
+            }, "strip", import("zod").ZodTypeAny, {
+                pdf_id: string;
+                name: string;
+            }, {
+                pdf_id: string;
+                name: string;
+            }>, "many">;
+            messages: import("zod").ZodArray<import("zod").ZodObject<{
+                timestamp: import("zod").ZodString;
+                role: import("zod").ZodEnum<["user", "assistant"]>;
+                content: import("zod").ZodString;
+                citations: import("zod").ZodArray<import("zod").ZodObject<{
+                    number: import("zod").ZodNumber;
+                    text: import("zod").ZodString;
+                    page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                    document: import("zod").ZodOptional<import("zod").ZodString>;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                }, "strip", import("zod").ZodTypeAny, {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }, {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }>, "many">;
+                file: import("zod").ZodOptional<import("zod").ZodString>;
+                document: import("zod").ZodOptional<import("zod").ZodObject<{
+                    name: import("zod").ZodString;
+                    pdf_id: import("zod").ZodString;
+                }, "strip", import("zod").ZodTypeAny, {
+                    pdf_id: string;
+                    name: string;
+                }, {
+                    pdf_id: string;
+                    name: string;
+                }>>;
+                standalone_question: import("zod").ZodOptional<import("zod").ZodString>;
+                sections: import("zod").ZodOptional<import("zod").ZodArray<import("zod").ZodObject<{
+                    heading: import("zod").ZodString;
+                    pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    content: import("zod").ZodString;
+                    citations: import("zod").ZodArray<import("zod").ZodObject<{
+                        number: import("zod").ZodNumber;
+                        text: import("zod").ZodString;
+                        page: import("zod").ZodOptional<import("zod").ZodNumber>;
+                        document: import("zod").ZodOptional<import("zod").ZodString>;
+                        pdf_id: import("zod").ZodOptional<import("zod").ZodString>;
+                    }, "strip", import("zod").ZodTypeAny, {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }, {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }>, "many">;
+                }, "strip", import("zod").ZodTypeAny, {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }, {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }>, "many">>;
+            }, "strip", import("zod").ZodTypeAny, {
+                timestamp: string;
+                role: "user" | "assistant";
+                content: string;
+                citations: {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }[];
+                file?: string | undefined;
+                standalone_question?: string | undefined;
+                document?: {
+                    pdf_id: string;
+                    name: string;
+                } | undefined;
+                sections?: {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }[] | undefined;
+            }, {
+                timestamp: string;
+                role: "user" | "assistant";
+                content: string;
+                citations: {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }[];
+                file?: string | undefined;
+                standalone_question?: string | undefined;
+                document?: {
+                    pdf_id: string;
+                    name: string;
+                } | undefined;
+                sections?: {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }[] | undefined;
+            }>, "many">;
+        }, "strip", import("zod").ZodTypeAny, {
+            documents: {
+                pdf_id: string;
+                name: string;
+            }[];
+            title: string;
+            messages: {
+                timestamp: string;
+                role: "user" | "assistant";
+                content: string;
+                citations: {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }[];
+                file?: string | undefined;
+                standalone_question?: string | undefined;
+                document?: {
+                    pdf_id: string;
+                    name: string;
+                } | undefined;
+                sections?: {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }[] | undefined;
+            }[];
+            exported_at: string;
+        }, {
+            documents: {
+                pdf_id: string;
+                name: string;
+            }[];
+            title: string;
+            messages: {
+                timestamp: string;
+                role: "user" | "assistant";
+                content: string;
+                citations: {
+                    number: number;
+                    text: string;
+                    page?: number | undefined;
+                    pdf_id?: string | undefined;
+                    document?: string | undefined;
+                }[];
+                file?: string | undefined;
+                standalone_question?: string | undefined;
+                document?: {
+                    pdf_id: string;
+                    name: string;
+                } | undefined;
+                sections?: {
+                    content: string;
+                    heading: string;
+                    citations: {
+                        number: number;
+                        text: string;
+                        page?: number | undefined;
+                        pdf_id?: string | undefined;
+                        document?: string | undefined;
+                    }[];
+                    pdf_id?: string | undefined;
+                }[] | undefined;
+            }[];
+            exported_at: string;
+        }>;
+        response: null;
+    };
+}>;
+/**
+ * Check `data` against a contract schema. Resolves to the parsed value
+ * (trimmed and normalised, e.g. pdf_id lists) or to one { path, message }
+ * issue per problem.
+ *
+ * @template {import("zod").ZodTypeAny} T
+ * @param {T} schema
+ * @param {unknown} data
+ * @returns {{ success: true, data: import("zod").output<T> } | { success: false, issues: ContractIssue[] }}
+ */
+export function parseContract<T extends import("zod").ZodTypeAny>(schema: T, data: unknown): {
+    success: true;
+    data: import("zod").output<T>;
+} | {
+    success: false;
+    issues: ContractIssue[];
+};
+/**
+ * Check the JSON response of `route` against the contract; see parseContract.
+ *
+ * @template {ApiRoute} R
+ * @param {R} route
+ * @param {unknown} data
+ * @returns {{ success: true, data: ApiResponse<R> } | { success: false, issues: ContractIssue[] }}
+ */
+export function parseResponse<R extends "GET /api/health" | "POST /api/auth/register" | "POST /api/auth/login" | "POST /api/auth/refresh" | "POST /api/auth/logout" | "GET /api/auth/me" | "GET /hackrx/upload/lookup/:hash" | "GET /hackrx/upload/formats" | "POST /hackrx/upload" | "GET /hackrx/documents" | "GET /hackrx/documents/:pdf_id" | "DELETE /hackrx/documents/:pdf_id" | "GET /hackrx/documents/:pdf_id/file" | "POST /hackrx/query" | "POST /hackrx/query/stream" | "POST /hackrx/review" | "POST /hackrx/compare" | "POST /api/upload" | "POST /api/process-text" | "POST /api/process-file-question" | "POST /api/analyze-document" | "POST /api/chat" | "POST /api/chat/stream" | "GET /api/chat/:conversation_id/history" | "POST /api/transcript/pdf">(route: R, data: unknown): {
+    success: true;
+    data: ApiResponse<R>;
+} | {
+    success: false;
+    issues: ContractIssue[];
+};
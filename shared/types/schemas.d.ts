@@ -0,0 +1,2438 @@
+export type HackRXSource = z.infer<typeof sourceSchema>;
+export type HackRXAnswer = z.infer<typeof answerSchema>;
+export type HackRXDocumentAnswer = z.infer<typeof documentAnswerSchema>;
+export type ContractIssue = z.infer<typeof contractIssueSchema>;
+export type ApiErrorBody = z.infer<typeof apiErrorSchema>;
+export type MLHealth = z.infer<typeof mlHealthSchema>;
+export type HealthResponse = z.infer<typeof healthResponseSchema>;
+export type Credentials = z.input<typeof registerRequestSchema>;
+export type AuthUser = z.infer<typeof authUserSchema>;
+export type AuthResponse = z.infer<typeof authResponseSchema>;
+export type HackRXOcrPage = z.infer<typeof ocrPageSchema>;
+export type HackRXOcrReport = z.infer<typeof ocrReportSchema>;
+export type HackRXUploadResponse = z.infer<typeof uploadResponseSchema>;
+export type UploadFormat = z.infer<typeof uploadFormatSchema>;
+export type UploadFormatsResponse = z.infer<typeof uploadFormatsResponseSchema>;
+export type HackRXDocumentSummary = z.infer<typeof documentSummarySchema>;
+export type HackRXDocumentDetails = z.infer<typeof documentDetailsSchema>;
+export type HackRXDocumentListResponse = z.infer<typeof documentListResponseSchema>;
+export type HackRXDeleteDocumentResponse = z.infer<typeof deleteDocumentResponseSchema>;
+export type HackRXQueryRequest = z.input<typeof queryRequestSchema>;
+export type HackRXQueryResponse = z.infer<typeof queryResponseSchema>;
+export type LegalRisk = z.infer<typeof legalRiskSchema>;
+export type LegalClauseStatus = z.infer<typeof legalClauseStatusSchema>;
+export type LegalReviewClause = z.infer<typeof legalReviewClauseSchema>;
+export type LegalReviewReport = z.infer<typeof legalReviewReportSchema>;
+export type CompareAnswer = z.infer<typeof compareAnswerSchema>;
+export type DocumentComparison = z.infer<typeof documentComparisonSchema>;
+export type CompareResponse = z.infer<typeof compareResponseSchema>;
+export type ChatRoute = z.infer<typeof chatRouteSchema>;
+export type ChatRequest = z.input<typeof chatRequestSchema>;
+export type ChatResponse = z.infer<typeof chatResponseSchema>;
+export type ChatStreamResult = z.infer<typeof chatStreamResultSchema>;
+export type ChatHistoryResponse = z.infer<typeof chatHistoryResponseSchema>;
+export type TranscriptCitation = z.infer<typeof transcriptCitationSchema>;
+export type TranscriptSection = z.infer<typeof transcriptSectionSchema>;
+export type TranscriptMessage = z.infer<typeof transcriptMessageSchema>;
+export type Transcript = z.infer<typeof transcriptSchema>;
+export type UploadedFile = z.infer<typeof uploadedFileSchema>;
+export type UploadFileResponse = z.infer<typeof uploadFileResponseSchema>;
+export type ProcessTextRequest = z.input<typeof processTextRequestSchema>;
+export type AnalysisAnswer = z.infer<typeof analysisAnswerSchema>;
+export type AnalysisResponse = z.infer<typeof analysisResponseSchema>;
+export const sourceSchema: z.ZodObject<{
+    text: z.ZodString;
+    page: z.ZodOptional<z.ZodNumber>;
+    score: z.ZodOptional<z.ZodNumber>;
+    pdf_id: z.ZodOptional<z.ZodString>;
+    filename: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    text: string;
+    page?: number | undefined;
+    score?: number | undefined;
+    pdf_id?: string | undefined;
+    filename?: string | undefined;
+}, {
+    text: string;
+    page?: number | undefined;
+    score?: number | undefined;
+    pdf_id?: string | undefined;
+    filename?: string | undefined;
+}>;
+export const answerSchema: z.ZodObject<{
+    answer: z.ZodString;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    standalone_question: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    answer: string;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+}, {
+    answer: string;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+}>;
+export const documentAnswerSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    filename: z.ZodString;
+    answer: z.ZodOptional<z.ZodString>;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    standalone_question: z.ZodOptional<z.ZodString>;
+    error: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    filename: string;
+    answer?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    error?: string | undefined;
+}, {
+    pdf_id: string;
+    filename: string;
+    answer?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    error?: string | undefined;
+}>;
+export const contractIssueSchema: z.ZodObject<{
+    path: z.ZodString;
+    message: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    path: string;
+    message: string;
+}, {
+    path: string;
+    message: string;
+}>;
+export const apiErrorSchema: z.ZodObject<{
+    error: z.ZodString;
+    code: z.ZodOptional<z.ZodString>;
+    issues: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        path: z.ZodString;
+        message: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        path: string;
+        message: string;
+    }, {
+        path: string;
+        message: string;
+    }>, "many">>;
+    limit: z.ZodOptional<z.ZodString>;
+    retry_after: z.ZodOptional<z.ZodNumber>;
+}, "strip", z.ZodTypeAny, {
+    error: string;
+    issues?: {
+        path: string;
+        message: string;
+    }[] | undefined;
+    code?: string | undefined;
+    limit?: string | undefined;
+    retry_after?: number | undefined;
+}, {
+    error: string;
+    issues?: {
+        path: string;
+        message: string;
+    }[] | undefined;
+    code?: string | undefined;
+    limit?: string | undefined;
+    retry_after?: number | undefined;
+}>;
+export const mlHealthSchema: z.ZodObject<{
+    status: z.ZodEnum<["ok", "warming_up", "unavailable", "unknown", "not_configured"]>;
+    latency_ms: z.ZodNullable<z.ZodNumber>;
+    checked_at: z.ZodNullable<z.ZodString>;
+    circuit: z.ZodEnum<["closed", "open", "half_open"]>;
+    retry_after: z.ZodOptional<z.ZodNumber>;
+    error: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+    latency_ms: number | null;
+    checked_at: string | null;
+    circuit: "closed" | "open" | "half_open";
+    error?: string | undefined;
+    retry_after?: number | undefined;
+}, {
+    status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+    latency_ms: number | null;
+    checked_at: string | null;
+    circuit: "closed" | "open" | "half_open";
+    error?: string | undefined;
+    retry_after?: number | undefined;
+}>;
+export const healthResponseSchema: z.ZodObject<{
+    status: z.ZodString;
+    message: z.ZodString;
+    ml: z.ZodObject<{
+        status: z.ZodEnum<["ok", "warming_up", "unavailable", "unknown", "not_configured"]>;
+        latency_ms: z.ZodNullable<z.ZodNumber>;
+        checked_at: z.ZodNullable<z.ZodString>;
+        circuit: z.ZodEnum<["closed", "open", "half_open"]>;
+        retry_after: z.ZodOptional<z.ZodNumber>;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+        latency_ms: number | null;
+        checked_at: string | null;
+        circuit: "closed" | "open" | "half_open";
+        error?: string | undefined;
+        retry_after?: number | undefined;
+    }, {
+        status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+        latency_ms: number | null;
+        checked_at: string | null;
+        circuit: "closed" | "open" | "half_open";
+        error?: string | undefined;
+        retry_after?: number | undefined;
+    }>;
+}, "strip", z.ZodTypeAny, {
+    message: string;
+    status: string;
+    ml: {
+        status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+        latency_ms: number | null;
+        checked_at: string | null;
+        circuit: "closed" | "open" | "half_open";
+        error?: string | undefined;
+        retry_after?: number | undefined;
+    };
+}, {
+    message: string;
+    status: string;
+    ml: {
+        status: "unknown" | "ok" | "warming_up" | "unavailable" | "not_configured";
+        latency_ms: number | null;
+        checked_at: string | null;
+        circuit: "closed" | "open" | "half_open";
+        error?: string | undefined;
+        retry_after?: number | undefined;
+    };
+}>;
+export const registerRequestSchema: z.ZodObject<{
+    username: z.ZodString;
+    password: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    username: string;
+    password: string;
+}, {
+    username: string;
+    password: string;
+}>;
+export const loginRequestSchema: z.ZodObject<{
+    username: z.ZodString;
+    password: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    username: string;
+    password: string;
+}, {
+    username: string;
+    password: string;
+}>;
+export const refreshRequestSchema: z.ZodObject<{
+    refresh_token: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    refresh_token: string;
+}, {
+    refresh_token: string;
+}>;
+export const authUserSchema: z.ZodObject<{
+    id: z.ZodString;
+    username: z.ZodString;
+    createdAt: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    username: string;
+    id: string;
+    createdAt: string;
+}, {
+    username: string;
+    id: string;
+    createdAt: string;
+}>;
+export const authResponseSchema: z.ZodObject<{
+    user: z.ZodObject<{
+        id: z.ZodString;
+        username: z.ZodString;
+        createdAt: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        username: string;
+        id: string;
+        createdAt: string;
+    }, {
+        username: string;
+        id: string;
+        createdAt: string;
+    }>;
+    access_token: z.ZodString;
+    refresh_token: z.ZodString;
+    token_type: z.ZodLiteral<"Bearer">;
+    expires_in: z.ZodNumber;
+}, "strip", z.ZodTypeAny, {
+    refresh_token: string;
+    user: {
+        username: string;
+        id: string;
+        createdAt: string;
+    };
+    access_token: string;
+    token_type: "Bearer";
+    expires_in: number;
+}, {
+    refresh_token: string;
+    user: {
+        username: string;
+        id: string;
+        createdAt: string;
+    };
+    access_token: string;
+    token_type: "Bearer";
+    expires_in: number;
+}>;
+export const currentUserResponseSchema: z.ZodObject<{
+    user: z.ZodObject<{
+        id: z.ZodString;
+        username: z.ZodString;
+        createdAt: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        username: string;
+        id: string;
+        createdAt: string;
+    }, {
+        username: string;
+        id: string;
+        createdAt: string;
+    }>;
+}, "strip", z.ZodTypeAny, {
+    user: {
+        username: string;
+        id: string;
+        createdAt: string;
+    };
+}, {
+    user: {
+        username: string;
+        id: string;
+        createdAt: string;
+    };
+}>;
+export const messageResponseSchema: z.ZodObject<{
+    message: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    message: string;
+}, {
+    message: string;
+}>;
+export const ocrPageSchema: z.ZodObject<{
+    page: z.ZodNumber;
+    confidence: z.ZodNumber;
+    characters: z.ZodNumber;
+}, "strip", z.ZodTypeAny, {
+    page: number;
+    confidence: number;
+    characters: number;
+}, {
+    page: number;
+    confidence: number;
+    characters: number;
+}>;
+export const ocrReportSchema: z.ZodObject<{
+    applied: z.ZodBoolean;
+    average_confidence: z.ZodNumber;
+    pages: z.ZodArray<z.ZodObject<{
+        page: z.ZodNumber;
+        confidence: z.ZodNumber;
+        characters: z.ZodNumber;
+    }, "strip", z.ZodTypeAny, {
+        page: number;
+        confidence: number;
+        characters: number;
+    }, {
+        page: number;
+        confidence: number;
+        characters: number;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    applied: boolean;
+    average_confidence: number;
+    pages: {
+        page: number;
+        confidence: number;
+        characters: number;
+    }[];
+}, {
+    applied: boolean;
+    average_confidence: number;
+    pages: {
+        page: number;
+        confidence: number;
+        characters: number;
+    }[];
+}>;
+export const uploadResponseSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    message: z.ZodString;
+    reused: z.ZodOptional<z.ZodBoolean>;
+    ocr: z.ZodOptional<z.ZodObject<{
+        applied: z.ZodBoolean;
+        average_confidence: z.ZodNumber;
+        pages: z.ZodArray<z.ZodObject<{
+            page: z.ZodNumber;
+            confidence: z.ZodNumber;
+            characters: z.ZodNumber;
+        }, "strip", z.ZodTypeAny, {
+            page: number;
+            confidence: number;
+            characters: number;
+        }, {
+            page: number;
+            confidence: number;
+            characters: number;
+        }>, "many">;
+    }, "strip", z.ZodTypeAny, {
+        applied: boolean;
+        average_confidence: number;
+        pages: {
+            page: number;
+            confidence: number;
+            characters: number;
+        }[];
+    }, {
+        applied: boolean;
+        average_confidence: number;
+        pages: {
+            page: number;
+            confidence: number;
+            characters: number;
+        }[];
+    }>>;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    message: string;
+    reused?: boolean | undefined;
+    ocr?: {
+        applied: boolean;
+        average_confidence: number;
+        pages: {
+            page: number;
+            confidence: number;
+            characters: number;
+        }[];
+    } | undefined;
+}, {
+    pdf_id: string;
+    message: string;
+    reused?: boolean | undefined;
+    ocr?: {
+        applied: boolean;
+        average_confidence: number;
+        pages: {
+            page: number;
+            confidence: number;
+            characters: number;
+        }[];
+    } | undefined;
+}>;
+export const uploadFormatSchema: z.ZodObject<{
+    extension: z.ZodString;
+    label: z.ZodString;
+    mimetypes: z.ZodArray<z.ZodString, "many">;
+    converted: z.ZodBoolean;
+    ocr: z.ZodOptional<z.ZodBoolean>;
+}, "strip", z.ZodTypeAny, {
+    extension: string;
+    label: string;
+    mimetypes: string[];
+    converted: boolean;
+    ocr?: boolean | undefined;
+}, {
+    extension: string;
+    label: string;
+    mimetypes: string[];
+    converted: boolean;
+    ocr?: boolean | undefined;
+}>;
+export const uploadFormatsResponseSchema: z.ZodObject<{
+    formats: z.ZodArray<z.ZodObject<{
+        extension: z.ZodString;
+        label: z.ZodString;
+        mimetypes: z.ZodArray<z.ZodString, "many">;
+        converted: z.ZodBoolean;
+        ocr: z.ZodOptional<z.ZodBoolean>;
+    }, "strip", z.ZodTypeAny, {
+        extension: string;
+        label: string;
+        mimetypes: string[];
+        converted: boolean;
+        ocr?: boolean | undefined;
+    }, {
+        extension: string;
+        label: string;
+        mimetypes: string[];
+        converted: boolean;
+        ocr?: boolean | undefined;
+    }>, "many">;
+    max_size_bytes: z.ZodNumber;
+}, "strip", z.ZodTypeAny, {
+    formats: {
+        extension: string;
+        label: string;
+        mimetypes: string[];
+        converted: boolean;
+        ocr?: boolean | undefined;
+    }[];
+    max_size_bytes: number;
+}, {
+    formats: {
+        extension: string;
+        label: string;
+        mimetypes: string[];
+        converted: boolean;
+        ocr?: boolean | undefined;
+    }[];
+    max_size_bytes: number;
+}>;
+export const documentSummarySchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    filename: z.ZodString;
+    mimetype: z.ZodString;
+    size: z.ZodNumber;
+    content_hash: z.ZodOptional<z.ZodString>;
+    indexedAt: z.ZodString;
+    expiresAt: z.ZodNullable<z.ZodString>;
+    file_available: z.ZodBoolean;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    indexedAt: string;
+    expiresAt: string | null;
+    file_available: boolean;
+    content_hash?: string | undefined;
+}, {
+    pdf_id: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    indexedAt: string;
+    expiresAt: string | null;
+    file_available: boolean;
+    content_hash?: string | undefined;
+}>;
+export const documentDetailsSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    filename: z.ZodString;
+    mimetype: z.ZodString;
+    size: z.ZodNumber;
+    content_hash: z.ZodOptional<z.ZodString>;
+    indexedAt: z.ZodString;
+    expiresAt: z.ZodNullable<z.ZodString>;
+    file_available: z.ZodBoolean;
+} & {
+    ml_api_response: z.ZodUnknown;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    indexedAt: string;
+    expiresAt: string | null;
+    file_available: boolean;
+    content_hash?: string | undefined;
+    ml_api_response?: unknown;
+}, {
+    pdf_id: string;
+    filename: string;
+    mimetype: string;
+    size: number;
+    indexedAt: string;
+    expiresAt: string | null;
+    file_available: boolean;
+    content_hash?: string | undefined;
+    ml_api_response?: unknown;
+}>;
+export const documentListResponseSchema: z.ZodObject<{
+    count: z.ZodNumber;
+    documents: z.ZodArray<z.ZodObject<{
+        pdf_id: z.ZodString;
+        filename: z.ZodString;
+        mimetype: z.ZodString;
+        size: z.ZodNumber;
+        content_hash: z.ZodOptional<z.ZodString>;
+        indexedAt: z.ZodString;
+        expiresAt: z.ZodNullable<z.ZodString>;
+        file_available: z.ZodBoolean;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        filename: string;
+        mimetype: string;
+        size: number;
+        indexedAt: string;
+        expiresAt: string | null;
+        file_available: boolean;
+        content_hash?: string | undefined;
+    }, {
+        pdf_id: string;
+        filename: string;
+        mimetype: string;
+        size: number;
+        indexedAt: string;
+        expiresAt: string | null;
+        file_available: boolean;
+        content_hash?: string | undefined;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    count: number;
+    documents: {
+        pdf_id: string;
+        filename: string;
+        mimetype: string;
+        size: number;
+        indexedAt: string;
+        expiresAt: string | null;
+        file_available: boolean;
+        content_hash?: string | undefined;
+    }[];
+}, {
+    count: number;
+    documents: {
+        pdf_id: string;
+        filename: string;
+        mimetype: string;
+        size: number;
+        indexedAt: string;
+        expiresAt: string | null;
+        file_available: boolean;
+        content_hash?: string | undefined;
+    }[];
+}>;
+export const deleteDocumentResponseSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    message: z.ZodString;
+    ml_index_deleted: z.ZodBoolean;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    message: string;
+    ml_index_deleted: boolean;
+}, {
+    pdf_id: string;
+    message: string;
+    ml_index_deleted: boolean;
+}>;
+export const queryRequestSchema: z.ZodEffects<z.ZodEffects<z.ZodObject<{
+    pdf_id: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    question: z.ZodString;
+    conversation_id: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    pdf_id?: string[] | undefined;
+    conversation_id?: string | undefined;
+}, {
+    question: string;
+    pdf_id?: string | string[] | undefined;
+    conversation_id?: string | undefined;
+}>, {
+    question: string;
+    conversation_id?: string | undefined;
+    pdf_ids: string[];
+}, {
+    question: string;
+    pdf_id?: string | string[] | undefined;
+    conversation_id?: string | undefined;
+}>, {
+    question: string;
+    conversation_id?: string | undefined;
+    pdf_ids: string[];
+}, {
+    question: string;
+    pdf_id?: string | string[] | undefined;
+    conversation_id?: string | undefined;
+}>;
+export const queryStreamRequestSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    question: z.ZodString;
+    conversation_id: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    pdf_id: string;
+    conversation_id?: string | undefined;
+}, {
+    question: string;
+    pdf_id: string;
+    conversation_id?: string | undefined;
+}>;
+export const queryResponseSchema: z.ZodObject<{
+    answer: z.ZodObject<{
+        answer: z.ZodString;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        answer: string;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+    }, {
+        answer: string;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+    }>;
+    answers: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        pdf_id: z.ZodString;
+        filename: z.ZodString;
+        answer: z.ZodOptional<z.ZodString>;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }>, "many">>;
+}, "strip", z.ZodTypeAny, {
+    answer: {
+        answer: string;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+    };
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}, {
+    answer: {
+        answer: string;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+    };
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}>;
+export const legalRiskSchema: z.ZodEnum<["low", "medium", "high"]>;
+export const legalClauseStatusSchema: z.ZodEnum<["found", "missing", "error"]>;
+export const reviewRequestSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+}, {
+    pdf_id: string;
+}>;
+export const legalReviewClauseSchema: z.ZodObject<{
+    id: z.ZodString;
+    title: z.ZodString;
+    question: z.ZodString;
+    status: z.ZodEnum<["found", "missing", "error"]>;
+    text: z.ZodOptional<z.ZodString>;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    risk: z.ZodNullable<z.ZodEnum<["low", "medium", "high"]>>;
+    risk_reasons: z.ZodArray<z.ZodString, "many">;
+    error: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    status: "error" | "found" | "missing";
+    id: string;
+    title: string;
+    risk: "low" | "medium" | "high" | null;
+    risk_reasons: string[];
+    text?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    error?: string | undefined;
+}, {
+    question: string;
+    status: "error" | "found" | "missing";
+    id: string;
+    title: string;
+    risk: "low" | "medium" | "high" | null;
+    risk_reasons: string[];
+    text?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    error?: string | undefined;
+}>;
+export const legalReviewReportSchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+    filename: z.ZodString;
+    checklist_version: z.ZodNullable<z.ZodString>;
+    generated_at: z.ZodString;
+    summary: z.ZodObject<{
+        found: z.ZodNumber;
+        missing: z.ZodNumber;
+        errors: z.ZodNumber;
+        overall_risk: z.ZodNullable<z.ZodEnum<["low", "medium", "high"]>>;
+    }, "strip", z.ZodTypeAny, {
+        found: number;
+        missing: number;
+        errors: number;
+        overall_risk: "low" | "medium" | "high" | null;
+    }, {
+        found: number;
+        missing: number;
+        errors: number;
+        overall_risk: "low" | "medium" | "high" | null;
+    }>;
+    clauses: z.ZodArray<z.ZodObject<{
+        id: z.ZodString;
+        title: z.ZodString;
+        question: z.ZodString;
+        status: z.ZodEnum<["found", "missing", "error"]>;
+        text: z.ZodOptional<z.ZodString>;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        risk: z.ZodNullable<z.ZodEnum<["low", "medium", "high"]>>;
+        risk_reasons: z.ZodArray<z.ZodString, "many">;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        question: string;
+        status: "error" | "found" | "missing";
+        id: string;
+        title: string;
+        risk: "low" | "medium" | "high" | null;
+        risk_reasons: string[];
+        text?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }, {
+        question: string;
+        status: "error" | "found" | "missing";
+        id: string;
+        title: string;
+        risk: "low" | "medium" | "high" | null;
+        risk_reasons: string[];
+        text?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    pdf_id: string;
+    filename: string;
+    checklist_version: string | null;
+    generated_at: string;
+    summary: {
+        found: number;
+        missing: number;
+        errors: number;
+        overall_risk: "low" | "medium" | "high" | null;
+    };
+    clauses: {
+        question: string;
+        status: "error" | "found" | "missing";
+        id: string;
+        title: string;
+        risk: "low" | "medium" | "high" | null;
+        risk_reasons: string[];
+        text?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }[];
+}, {
+    pdf_id: string;
+    filename: string;
+    checklist_version: string | null;
+    generated_at: string;
+    summary: {
+        found: number;
+        missing: number;
+        errors: number;
+        overall_risk: "low" | "medium" | "high" | null;
+    };
+    clauses: {
+        question: string;
+        status: "error" | "found" | "missing";
+        id: string;
+        title: string;
+        risk: "low" | "medium" | "high" | null;
+        risk_reasons: string[];
+        text?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }[];
+}>;
+export const compareRequestSchema: z.ZodEffects<z.ZodEffects<z.ZodEffects<z.ZodObject<{
+    pdf_ids: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    pdf_id: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    questions: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    question: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+}, "strip", z.ZodTypeAny, {
+    question?: string[] | undefined;
+    questions?: string[] | undefined;
+    pdf_id?: string[] | undefined;
+    pdf_ids?: string[] | undefined;
+}, {
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+    pdf_id?: string | string[] | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>, {
+    pdf_ids: string[];
+    questions: string[];
+}, {
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+    pdf_id?: string | string[] | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>, {
+    pdf_ids: string[];
+    questions: string[];
+}, {
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+    pdf_id?: string | string[] | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>, {
+    pdf_ids: string[];
+    questions: string[];
+}, {
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+    pdf_id?: string | string[] | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>;
+export const compareAnswerSchema: z.ZodObject<{
+    answer: z.ZodOptional<z.ZodString>;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    error: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    answer?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    error?: string | undefined;
+}, {
+    answer?: string | undefined;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    error?: string | undefined;
+}>;
+export const documentComparisonSchema: z.ZodObject<{
+    question: z.ZodString;
+    answers: z.ZodArray<z.ZodObject<{
+        answer: z.ZodOptional<z.ZodString>;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }, {
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }>, "many">;
+    identical: z.ZodNullable<z.ZodBoolean>;
+    similarity: z.ZodNullable<z.ZodNumber>;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    answers: {
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }[];
+    identical: boolean | null;
+    similarity: number | null;
+}, {
+    question: string;
+    answers: {
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        error?: string | undefined;
+    }[];
+    identical: boolean | null;
+    similarity: number | null;
+}>;
+export const compareResponseSchema: z.ZodObject<{
+    documents: z.ZodArray<z.ZodObject<{
+        pdf_id: z.ZodString;
+        filename: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        filename: string;
+    }, {
+        pdf_id: string;
+        filename: string;
+    }>, "many">;
+    comparisons: z.ZodArray<z.ZodObject<{
+        question: z.ZodString;
+        answers: z.ZodArray<z.ZodObject<{
+            answer: z.ZodOptional<z.ZodString>;
+            sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+                text: z.ZodString;
+                page: z.ZodOptional<z.ZodNumber>;
+                score: z.ZodOptional<z.ZodNumber>;
+                pdf_id: z.ZodOptional<z.ZodString>;
+                filename: z.ZodOptional<z.ZodString>;
+            }, "strip", z.ZodTypeAny, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }, {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }>, "many">>;
+            error: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }, {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }>, "many">;
+        identical: z.ZodNullable<z.ZodBoolean>;
+        similarity: z.ZodNullable<z.ZodNumber>;
+    }, "strip", z.ZodTypeAny, {
+        question: string;
+        answers: {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }[];
+        identical: boolean | null;
+        similarity: number | null;
+    }, {
+        question: string;
+        answers: {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }[];
+        identical: boolean | null;
+        similarity: number | null;
+    }>, "many">;
+    summary: z.ZodObject<{
+        questions: z.ZodNumber;
+        differing: z.ZodNumber;
+        errors: z.ZodNumber;
+    }, "strip", z.ZodTypeAny, {
+        questions: number;
+        errors: number;
+        differing: number;
+    }, {
+        questions: number;
+        errors: number;
+        differing: number;
+    }>;
+}, "strip", z.ZodTypeAny, {
+    documents: {
+        pdf_id: string;
+        filename: string;
+    }[];
+    summary: {
+        questions: number;
+        errors: number;
+        differing: number;
+    };
+    comparisons: {
+        question: string;
+        answers: {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }[];
+        identical: boolean | null;
+        similarity: number | null;
+    }[];
+}, {
+    documents: {
+        pdf_id: string;
+        filename: string;
+    }[];
+    summary: {
+        questions: number;
+        errors: number;
+        differing: number;
+    };
+    comparisons: {
+        question: string;
+        answers: {
+            answer?: string | undefined;
+            sources?: {
+                text: string;
+                page?: number | undefined;
+                score?: number | undefined;
+                pdf_id?: string | undefined;
+                filename?: string | undefined;
+            }[] | undefined;
+            error?: string | undefined;
+        }[];
+        identical: boolean | null;
+        similarity: number | null;
+    }[];
+}>;
+export const chatRouteSchema: z.ZodEnum<["chat", "document"]>;
+export const chatRequestSchema: z.ZodEffects<z.ZodObject<{
+    message: z.ZodString;
+    conversation_id: z.ZodOptional<z.ZodString>;
+    pdf_ids: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    pdf_id: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+}, "strip", z.ZodTypeAny, {
+    message: string;
+    pdf_id?: string[] | undefined;
+    conversation_id?: string | undefined;
+    pdf_ids?: string[] | undefined;
+}, {
+    message: string;
+    pdf_id?: string | string[] | undefined;
+    conversation_id?: string | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>, {
+    pdf_ids: string[];
+    message: string;
+    conversation_id?: string | undefined;
+}, {
+    message: string;
+    pdf_id?: string | string[] | undefined;
+    conversation_id?: string | undefined;
+    pdf_ids?: string | string[] | undefined;
+}>;
+export const chatResponseSchema: z.ZodObject<{
+    success: z.ZodBoolean;
+    response: z.ZodString;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    answers: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        pdf_id: z.ZodString;
+        filename: z.ZodString;
+        answer: z.ZodOptional<z.ZodString>;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }>, "many">>;
+    standalone_question: z.ZodOptional<z.ZodString>;
+    route: z.ZodEnum<["chat", "document"]>;
+    provider: z.ZodString;
+    conversation_id: z.ZodString;
+    timestamp: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    conversation_id: string;
+    success: boolean;
+    response: string;
+    route: "chat" | "document";
+    provider: string;
+    timestamp: string;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}, {
+    conversation_id: string;
+    success: boolean;
+    response: string;
+    route: "chat" | "document";
+    provider: string;
+    timestamp: string;
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}>;
+export const chatStreamResultSchema: z.ZodObject<{
+    answer: z.ZodString;
+    sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        score: z.ZodOptional<z.ZodNumber>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        filename: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }, {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }>, "many">>;
+    standalone_question: z.ZodOptional<z.ZodString>;
+} & {
+    answers: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        pdf_id: z.ZodString;
+        filename: z.ZodString;
+        answer: z.ZodOptional<z.ZodString>;
+        sources: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            score: z.ZodOptional<z.ZodNumber>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            filename: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }, {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }>, "many">>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+        error: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }, {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }>, "many">>;
+    route: z.ZodEnum<["chat", "document"]>;
+    conversation_id: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    answer: string;
+    conversation_id: string;
+    route: "chat" | "document";
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}, {
+    answer: string;
+    conversation_id: string;
+    route: "chat" | "document";
+    sources?: {
+        text: string;
+        page?: number | undefined;
+        score?: number | undefined;
+        pdf_id?: string | undefined;
+        filename?: string | undefined;
+    }[] | undefined;
+    standalone_question?: string | undefined;
+    answers?: {
+        pdf_id: string;
+        filename: string;
+        answer?: string | undefined;
+        sources?: {
+            text: string;
+            page?: number | undefined;
+            score?: number | undefined;
+            pdf_id?: string | undefined;
+            filename?: string | undefined;
+        }[] | undefined;
+        standalone_question?: string | undefined;
+        error?: string | undefined;
+    }[] | undefined;
+}>;
+export const chatHistoryResponseSchema: z.ZodObject<{
+    conversation_id: z.ZodString;
+    messages: z.ZodArray<z.ZodObject<{
+        role: z.ZodEnum<["user", "assistant"]>;
+        content: z.ZodString;
+        timestamp: z.ZodOptional<z.ZodString>;
+        route: z.ZodOptional<z.ZodEnum<["chat", "document"]>>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        role: "user" | "assistant";
+        content: string;
+        standalone_question?: string | undefined;
+        route?: "chat" | "document" | undefined;
+        timestamp?: string | undefined;
+    }, {
+        role: "user" | "assistant";
+        content: string;
+        standalone_question?: string | undefined;
+        route?: "chat" | "document" | undefined;
+        timestamp?: string | undefined;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    conversation_id: string;
+    messages: {
+        role: "user" | "assistant";
+        content: string;
+        standalone_question?: string | undefined;
+        route?: "chat" | "document" | undefined;
+        timestamp?: string | undefined;
+    }[];
+}, {
+    conversation_id: string;
+    messages: {
+        role: "user" | "assistant";
+        content: string;
+        standalone_question?: string | undefined;
+        route?: "chat" | "document" | undefined;
+        timestamp?: string | undefined;
+    }[];
+}>;
+export const transcriptCitationSchema: z.ZodObject<{
+    number: z.ZodNumber;
+    text: z.ZodString;
+    page: z.ZodOptional<z.ZodNumber>;
+    document: z.ZodOptional<z.ZodString>;
+    pdf_id: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    number: number;
+    text: string;
+    page?: number | undefined;
+    pdf_id?: string | undefined;
+    document?: string | undefined;
+}, {
+    number: number;
+    text: string;
+    page?: number | undefined;
+    pdf_id?: string | undefined;
+    document?: string | undefined;
+}>;
+export const transcriptSectionSchema: z.ZodObject<{
+    heading: z.ZodString;
+    pdf_id: z.ZodOptional<z.ZodString>;
+    content: z.ZodString;
+    citations: z.ZodArray<z.ZodObject<{
+        number: z.ZodNumber;
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        document: z.ZodOptional<z.ZodString>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }, {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    content: string;
+    heading: string;
+    citations: {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }[];
+    pdf_id?: string | undefined;
+}, {
+    content: string;
+    heading: string;
+    citations: {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }[];
+    pdf_id?: string | undefined;
+}>;
+export const transcriptMessageSchema: z.ZodObject<{
+    timestamp: z.ZodString;
+    role: z.ZodEnum<["user", "assistant"]>;
+    content: z.ZodString;
+    citations: z.ZodArray<z.ZodObject<{
+        number: z.ZodNumber;
+        text: z.ZodString;
+        page: z.ZodOptional<z.ZodNumber>;
+        document: z.ZodOptional<z.ZodString>;
+        pdf_id: z.ZodOptional<z.ZodString>;
+    }, "strip", z.ZodTypeAny, {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }, {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }>, "many">;
+    file: z.ZodOptional<z.ZodString>;
+    document: z.ZodOptional<z.ZodObject<{
+        name: z.ZodString;
+        pdf_id: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        name: string;
+    }, {
+        pdf_id: string;
+        name: string;
+    }>>;
+    standalone_question: z.ZodOptional<z.ZodString>;
+    sections: z.ZodOptional<z.ZodArray<z.ZodObject<{
+        heading: z.ZodString;
+        pdf_id: z.ZodOptional<z.ZodString>;
+        content: z.ZodString;
+        citations: z.ZodArray<z.ZodObject<{
+            number: z.ZodNumber;
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            document: z.ZodOptional<z.ZodString>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }, {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }>, "many">;
+    }, "strip", z.ZodTypeAny, {
+        content: string;
+        heading: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        pdf_id?: string | undefined;
+    }, {
+        content: string;
+        heading: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        pdf_id?: string | undefined;
+    }>, "many">>;
+}, "strip", z.ZodTypeAny, {
+    timestamp: string;
+    role: "user" | "assistant";
+    content: string;
+    citations: {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }[];
+    file?: string | undefined;
+    standalone_question?: string | undefined;
+    document?: {
+        pdf_id: string;
+        name: string;
+    } | undefined;
+    sections?: {
+        content: string;
+        heading: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        pdf_id?: string | undefined;
+    }[] | undefined;
+}, {
+    timestamp: string;
+    role: "user" | "assistant";
+    content: string;
+    citations: {
+        number: number;
+        text: string;
+        page?: number | undefined;
+        pdf_id?: string | undefined;
+        document?: string | undefined;
+    }[];
+    file?: string | undefined;
+    standalone_question?: string | undefined;
+    document?: {
+        pdf_id: string;
+        name: string;
+    } | undefined;
+    sections?: {
+        content: string;
+        heading: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        pdf_id?: string | undefined;
+    }[] | undefined;
+}>;
+export const transcriptSchema: z.ZodObject<{
+    title: z.ZodString;
+    exported_at: z.ZodString;
+    documents: z.ZodArray<z.ZodObject<{
+        name: z.ZodString;
+        pdf_id: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        pdf_id: string;
+        name: string;
+    }, {
+        pdf_id: string;
+        name: string;
+    }>, "many">;
+    messages: z.ZodArray<z.ZodObject<{
+        timestamp: z.ZodString;
+        role: z.ZodEnum<["user", "assistant"]>;
+        content: z.ZodString;
+        citations: z.ZodArray<z.ZodObject<{
+            number: z.ZodNumber;
+            text: z.ZodString;
+            page: z.ZodOptional<z.ZodNumber>;
+            document: z.ZodOptional<z.ZodString>;
+            pdf_id: z.ZodOptional<z.ZodString>;
+        }, "strip", z.ZodTypeAny, {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }, {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }>, "many">;
+        file: z.ZodOptional<z.ZodString>;
+        document: z.ZodOptional<z.ZodObject<{
+            name: z.ZodString;
+            pdf_id: z.ZodString;
+        }, "strip", z.ZodTypeAny, {
+            pdf_id: string;
+            name: string;
+        }, {
+            pdf_id: string;
+            name: string;
+        }>>;
+        standalone_question: z.ZodOptional<z.ZodString>;
+        sections: z.ZodOptional<z.ZodArray<z.ZodObject<{
+            heading: z.ZodString;
+            pdf_id: z.ZodOptional<z.ZodString>;
+            content: z.ZodString;
+            citations: z.ZodArray<z.ZodObject<{
+                number: z.ZodNumber;
+                text: z.ZodString;
+                page: z.ZodOptional<z.ZodNumber>;
+                document: z.ZodOptional<z.ZodString>;
+                pdf_id: z.ZodOptional<z.ZodString>;
+            }, "strip", z.ZodTypeAny, {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }, {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }>, "many">;
+        }, "strip", z.ZodTypeAny, {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }, {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }>, "many">>;
+    }, "strip", z.ZodTypeAny, {
+        timestamp: string;
+        role: "user" | "assistant";
+        content: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        file?: string | undefined;
+        standalone_question?: string | undefined;
+        document?: {
+            pdf_id: string;
+            name: string;
+        } | undefined;
+        sections?: {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }[] | undefined;
+    }, {
+        timestamp: string;
+        role: "user" | "assistant";
+        content: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        file?: string | undefined;
+        standalone_question?: string | undefined;
+        document?: {
+            pdf_id: string;
+            name: string;
+        } | undefined;
+        sections?: {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }[] | undefined;
+    }>, "many">;
+}, "strip", z.ZodTypeAny, {
+    documents: {
+        pdf_id: string;
+        name: string;
+    }[];
+    title: string;
+    messages: {
+        timestamp: string;
+        role: "user" | "assistant";
+        content: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        file?: string | undefined;
+        standalone_question?: string | undefined;
+        document?: {
+            pdf_id: string;
+            name: string;
+        } | undefined;
+        sections?: {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }[] | undefined;
+    }[];
+    exported_at: string;
+}, {
+    documents: {
+        pdf_id: string;
+        name: string;
+    }[];
+    title: string;
+    messages: {
+        timestamp: string;
+        role: "user" | "assistant";
+        content: string;
+        citations: {
+            number: number;
+            text: string;
+            page?: number | undefined;
+            pdf_id?: string | undefined;
+            document?: string | undefined;
+        }[];
+        file?: string | undefined;
+        standalone_question?: string | undefined;
+        document?: {
+            pdf_id: string;
+            name: string;
+        } | undefined;
+        sections?: {
+            content: string;
+            heading: string;
+            citations: {
+                number: number;
+                text: string;
+                page?: number | undefined;
+                pdf_id?: string | undefined;
+                document?: string | undefined;
+            }[];
+            pdf_id?: string | undefined;
+        }[] | undefined;
+    }[];
+    exported_at: string;
+}>;
+export const uploadedFileSchema: z.ZodObject<{
+    file_id: z.ZodString;
+    originalName: z.ZodString;
+    mimetype: z.ZodString;
+    size: z.ZodNumber;
+    expires_at: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    file_id: string;
+    mimetype: string;
+    size: number;
+    originalName: string;
+    expires_at: string;
+}, {
+    file_id: string;
+    mimetype: string;
+    size: number;
+    originalName: string;
+    expires_at: string;
+}>;
+export const uploadFileResponseSchema: z.ZodObject<{
+    success: z.ZodLiteral<true>;
+    file: z.ZodObject<{
+        file_id: z.ZodString;
+        originalName: z.ZodString;
+        mimetype: z.ZodString;
+        size: z.ZodNumber;
+        expires_at: z.ZodString;
+    }, "strip", z.ZodTypeAny, {
+        file_id: string;
+        mimetype: string;
+        size: number;
+        originalName: string;
+        expires_at: string;
+    }, {
+        file_id: string;
+        mimetype: string;
+        size: number;
+        originalName: string;
+        expires_at: string;
+    }>;
+    message: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    file: {
+        file_id: string;
+        mimetype: string;
+        size: number;
+        originalName: string;
+        expires_at: string;
+    };
+    message: string;
+    success: true;
+}, {
+    file: {
+        file_id: string;
+        mimetype: string;
+        size: number;
+        originalName: string;
+        expires_at: string;
+    };
+    message: string;
+    success: true;
+}>;
+export const processTextRequestSchema: z.ZodObject<{
+    text: z.ZodPipeline<z.ZodString, z.ZodString>;
+    question: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    text: string;
+    question?: string | undefined;
+}, {
+    text: string;
+    question?: string | undefined;
+}>;
+export const processFileQuestionRequestSchema: z.ZodObject<{
+    question: z.ZodString;
+    file_id: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    file_id?: string | undefined;
+}, {
+    question: string;
+    file_id?: string | undefined;
+}>;
+export const analyzeDocumentRequestSchema: z.ZodEffects<z.ZodEffects<z.ZodObject<{
+    questions: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    question: z.ZodOptional<z.ZodEffects<z.ZodEffects<z.ZodUnion<[z.ZodString, z.ZodArray<z.ZodString, "many">]>, string[], string | string[]>, string[], string | string[]>>;
+    file_id: z.ZodOptional<z.ZodString>;
+}, "strip", z.ZodTypeAny, {
+    file_id?: string | undefined;
+    question?: string[] | undefined;
+    questions?: string[] | undefined;
+}, {
+    file_id?: string | undefined;
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+}>, {
+    questions: string[];
+    file_id: string | undefined;
+}, {
+    file_id?: string | undefined;
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+}>, {
+    questions: string[];
+    file_id: string | undefined;
+}, {
+    file_id?: string | undefined;
+    question?: string | string[] | undefined;
+    questions?: string | string[] | undefined;
+}>;
+export const analysisAnswerSchema: z.ZodObject<{
+    question: z.ZodString;
+    answer: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    question: string;
+    answer: string;
+}, {
+    question: string;
+    answer: string;
+}>;
+export const analysisResponseSchema: z.ZodObject<{
+    success: z.ZodLiteral<true>;
+    response: z.ZodObject<{
+        answers: z.ZodArray<z.ZodObject<{
+            question: z.ZodString;
+            answer: z.ZodString;
+        }, "strip", z.ZodTypeAny, {
+            question: string;
+            answer: string;
+        }, {
+            question: string;
+            answer: string;
+        }>, "many">;
+    }, "strip", z.ZodTypeAny, {
+        answers: {
+            question: string;
+            answer: string;
+        }[];
+    }, {
+        answers: {
+            question: string;
+            answer: string;
+        }[];
+    }>;
+    questions: z.ZodArray<z.ZodString, "many">;
+    file: z.ZodOptional<z.ZodObject<{
+        originalName: z.ZodString;
+        mimetype: z.ZodString;
+        size: z.ZodNumber;
+    }, "strip", z.ZodTypeAny, {
+        mimetype: string;
+        size: number;
+        originalName: string;
+    }, {
+        mimetype: string;
+        size: number;
+        originalName: string;
+    }>>;
+    timestamp: z.ZodString;
+}, "strip", z.ZodTypeAny, {
+    questions: string[];
+    success: true;
+    response: {
+        answers: {
+            question: string;
+            answer: string;
+        }[];
+    };
+    timestamp: string;
+    file?: {
+        mimetype: string;
+        size: number;
+        originalName: string;
+    } | undefined;
+}, {
+    questions: string[];
+    success: true;
+    response: {
+        answers: {
+            question: string;
+            answer: string;
+        }[];
+    };
+    timestamp: string;
+    file?: {
+        mimetype: string;
+        size: number;
+        originalName: string;
+    } | undefined;
+}>;
+export const mlUploadReplySchema: z.ZodObject<{
+    pdf_id: z.ZodString;
+}, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+    pdf_id: z.ZodString;
+}, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+    pdf_id: z.ZodString;
+}, z.ZodTypeAny, "passthrough">>;
+export const mlQueryReplySchema: z.ZodEffects<z.ZodUnion<[z.ZodObject<{
+    answer: z.ZodObject<{
+        answer: z.ZodString;
+    }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">>;
+}, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+    answer: z.ZodObject<{
+        answer: z.ZodString;
+    }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">>;
+}, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+    answer: z.ZodObject<{
+        answer: z.ZodString;
+    }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">>;
+}, z.ZodTypeAny, "passthrough">>, z.ZodObject<{
+    answer: z.ZodString;
+}, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+    answer: z.ZodString;
+}, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+    answer: z.ZodString;
+}, z.ZodTypeAny, "passthrough">>, z.ZodString]>, {
+    answer: string;
+    payload: null;
+} | {
+    answer: string;
+    payload: z.objectOutputType<{
+        answer: z.ZodObject<{
+            answer: z.ZodString;
+        }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+            answer: z.ZodString;
+        }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+            answer: z.ZodString;
+        }, z.ZodTypeAny, "passthrough">>;
+    }, z.ZodTypeAny, "passthrough"> | z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">;
+}, string | z.objectInputType<{
+    answer: z.ZodObject<{
+        answer: z.ZodString;
+    }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">>;
+}, z.ZodTypeAny, "passthrough"> | z.objectInputType<{
+    answer: z.ZodString;
+}, z.ZodTypeAny, "passthrough">>;
+export const mlRunReplySchema: z.ZodEffects<z.ZodObject<{
+    answers: z.ZodArray<z.ZodUnion<[z.ZodString, z.ZodObject<{
+        answer: z.ZodString;
+    }, "passthrough", z.ZodTypeAny, z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">, z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">>]>, "many">;
+}, "strip", z.ZodTypeAny, {
+    answers: (string | z.objectOutputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">)[];
+}, {
+    answers: (string | z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">)[];
+}>, string[], {
+    answers: (string | z.objectInputType<{
+        answer: z.ZodString;
+    }, z.ZodTypeAny, "passthrough">)[];
+}>;
+import { z } from "zod";